@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { 
   Calculator, 
   Trash2, 
@@ -12,80 +12,125 @@ import {
   RotateCcw,
   Eraser,
   Edit3,
-  Table
+  Table,
+  Download,
+  Upload,
+  AlertTriangle,
+  Store,
+  Share2,
+  Eye,
+  Copy,
+  Printer
 } from 'lucide-react';
 import { AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
 
-import { INITIAL_STATE, DEFAULT_SCENARIOS } from './constants';
-import { FinancialState, CostItem, MaterialItem, ScenarioResult } from './types';
+import { INITIAL_STATE } from './constants';
+import { FinancialState, CostItem, MaterialItem } from './types';
 import { ProductionEfficiencyCard } from './components/ProductionEfficiencyCard';
 import { MaterialManagerModal } from './components/MaterialManagerModal';
+import { ChannelManagerModal } from './components/ChannelManagerModal';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { UndoRedoButtons } from './components/UndoRedoButtons';
+import { CurrencySelect } from './components/CurrencySelect';
+import { CurrencySettingsPanel } from './components/CurrencySettingsPanel';
+import { OperationsPanel } from './components/OperationsPanel';
+import { SetupCostsPanel } from './components/SetupCostsPanel';
+import { OverheadPanel } from './components/OverheadPanel';
+import { OverheadBreakEvenTable } from './components/OverheadBreakEvenTable';
+import { PortfolioModal } from './components/PortfolioModal';
+import { MaterialLibraryModal } from './components/MaterialLibraryModal';
+import { PrintReportModal } from './components/PrintReportModal';
+import { SensitivityPanel } from './components/SensitivityPanel';
+import { RiskSimulationPanel } from './components/RiskSimulationPanel';
+import { GoalSeekPanel } from './components/GoalSeekPanel';
+import { BatchSizeOptimizer } from './components/BatchSizeOptimizer';
+import { PriceWaterfallChart } from './components/PriceWaterfallChart';
+import { CashFlowPanel } from './components/CashFlowPanel';
+import { useProjects } from './hooks/useProjects';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import { useSharedLink } from './hooks/useSharedLink';
+import {
+  computeFinancials,
+  costModeSwitchWarning,
+  isCalculatedMaterial,
+  recalculateMaterials,
+  rollUpMaterialCosts,
+  setMaterialCostMode,
+} from './utils/costingEngine';
+import { descendantIds, materialTree } from './utils/bomTree';
+import { emptyCashFlowPlan, pruneCashFlowPlan } from './utils/cashFlow';
+import { DESIGNFIN_FILE_EXTENSION, parseDesignFinFile, serializeDesignFinFile } from './utils/designfinFile';
+import { downloadTextFile, slugify } from './utils/download';
+import { createId } from './utils/id';
+import { createShareHash } from './utils/shareLink';
+import { changeReportingCurrency, currencySymbol, formatMoney } from './utils/currency';
 
 const App: React.FC = () => {
-  const [state, setState] = useState<FinancialState>(INITIAL_STATE);
+  const {
+    state: projectState,
+    setState: setProjectState,
+    projects,
+    activeProjectId,
+    lastSavedAt,
+    saveFailed,
+    switchProject,
+    addProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    portfolio,
+    setPortfolio,
+    materialLibrary,
+    setMaterialLibrary,
+  } = useProjects();
   const [sidebarOpen, setSidebarOpen] = useState(false); // Mobile sidebar toggle
   const [isMaterialModalOpen, setIsMaterialModalOpen] = useState(false);
+  const [isChannelModalOpen, setIsChannelModalOpen] = useState(false);
+  const [isPortfolioOpen, setIsPortfolioOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // --- LOGIC KERNEL START ---
+  // A share link replaces the active project on screen; edits are ignored until it is copied
+  const { shared, isSharePending, shareError, closeSharedLink } = useSharedLink();
+  const isReadOnly = shared !== null || isSharePending;
+  const state = shared ? shared.state : projectState;
+  const setState: typeof setProjectState = isReadOnly ? () => {} : setProjectState;
 
-  // Module A Calculations
-  const totalDevCost = useMemo(() => 
-    state.devCosts.reduce((acc, item) => acc + item.amount, 0), 
-  [state.devCosts]);
+  // Modals edit a local copy, so global undo stays off while one is open
+  useUndoShortcuts(undo, redo, !isReadOnly && !isMaterialModalOpen && !isChannelModalOpen && !isPortfolioOpen && !isLibraryOpen && !isPrintOpen);
 
-  const amortPerUnit = useMemo(() => 
-    state.amortizationQty > 0 ? totalDevCost / state.amortizationQty : 0, 
-  [totalDevCost, state.amortizationQty]);
+  // Logic kernel: all derived figures come from utils/costingEngine
+  const report = useMemo(() => computeFinancials(state), [state]);
+  const {
+    totalDevCost,
+    amortPerUnit,
+    totalBatchMaterialCost,
+    totalBatchLaborCost,
+    totalBatchSetupCost,
+    materialCostPerUnit,
+    laborCostPerUnit,
+    setupCostPerUnit,
+    effectiveUnits,
+    cogs: COGS,
+    fixedMonthlyExpenses,
+    overheadLines,
+    scenarios,
+    subAssemblies,
+  } = report;
+  const materialRows = useMemo(() => materialTree(state.materials), [state.materials]);
+  const rolledUpMaterialCosts = useMemo(() => rollUpMaterialCosts(state.materials, state), [state]);
 
-  // Module B Calculations
-  const totalBatchMaterialCost = useMemo(() => 
-    state.materials.reduce((acc, item) => acc + item.cost, 0), 
-  [state.materials]);
-
-  const effectiveUnits = Math.max(0, state.batchSize - state.wasteCount);
-  
-  const materialCostPerUnit = effectiveUnits > 0 
-    ? totalBatchMaterialCost / effectiveUnits 
-    : 0;
-
-  const COGS = materialCostPerUnit + amortPerUnit;
-
-  // Module C Calculations (Scenarios)
-  const scenarios: ScenarioResult[] = useMemo(() => {
-    return DEFAULT_SCENARIOS.map(defaultScenario => {
-      // Find override from state
-      const override = state.customScenarios?.find(s => s.id === defaultScenario.id);
-      const currentDiscount = override ? override.discountPercent : defaultScenario.discountPercent;
-
-      const netRevenue = state.publicPrice * (1 - currentDiscount);
-      const royaltyAmount = netRevenue * state.designerRoyaltyPercent;
-      const commissionAmount = netRevenue * defaultScenario.commissionPercent;
-      
-      const grossMargin = netRevenue - COGS - royaltyAmount - commissionAmount;
-      const profit = grossMargin; // Per unit
-      
-      // BEP: Fixed / Margin per unit
-      const breakEvenUnits = grossMargin > 0 
-        ? Math.ceil(state.fixedMonthlyExpenses / grossMargin) 
-        : Infinity;
-
-      return {
-        ...defaultScenario,
-        discountPercent: currentDiscount,
-        netRevenue,
-        grossMargin,
-        profit,
-        breakEvenUnits,
-        isProfitable: profit > 0,
-        roi: COGS > 0 ? (profit / COGS) * 100 : 0
-      };
-    });
-  }, [state.publicPrice, state.designerRoyaltyPercent, state.fixedMonthlyExpenses, COGS, state.customScenarios]);
-
-  // Get Direct Sale ROI for display
-  const directRoi = useMemo(() => scenarios.find(s => s.id === 'direct')?.roi || 0, [scenarios]);
-
-  // --- LOGIC KERNEL END ---
+  // Headline cards track the starter channels, falling back to whatever channels exist
+  const directScenario = scenarios.find(s => s.id === 'direct') || scenarios[0];
+  const retailScenario = scenarios.find(s => s.id === 'retail') || scenarios[scenarios.length - 1];
+  const directRoi = directScenario?.roi || 0;
 
   // Helpers for inputs
   const updateState = <K extends keyof FinancialState>(key: K, value: FinancialState[K]) => {
@@ -101,39 +146,13 @@ const App: React.FC = () => {
 
   const addDevCost = () => {
     const newId = (state.devCosts.length + 1).toString() + Date.now();
-    updateState('devCosts', [...state.devCosts, { id: newId, name: 'New Expense', amount: 0 }]);
+    updateState('devCosts', [...state.devCosts, { id: newId, name: 'New Expense', amount: 0, currency: state.reportingCurrency }]);
   };
 
   const removeDevCost = (id: string) => {
     updateState('devCosts', state.devCosts.filter(i => i.id !== id));
   };
 
-  // Helper to re-calc material costs if batch size changes
-  const recalculateMaterials = (currentMaterials: MaterialItem[], newBatchSize: number): MaterialItem[] => {
-     return currentMaterials.map(m => {
-        // Only recalculate if detailed params exist (qtyPerUnit > 0 or at least defined)
-        // We check if qtyPerUnit is a number to be safe
-        if (typeof m.qtyPerUnit === 'number' && typeof m.unitCost === 'number') {
-            const qty = m.qtyPerUnit;
-            const buffer = m.bufferUnits || 0;
-            const uCost = m.unitCost;
-            
-            // If user has set detailed params, we trust them to drive the cost
-            // If all are 0, it might be a legacy/manual item, but 0 * 0 is 0, so it's fine.
-            // HOWEVER, we want to support manual override. 
-            // If qtyPerUnit is 0 AND unitCost is 0, we assume it's manual entry and leave .cost alone?
-            // Let's assume: If unitCost > 0 or qtyPerUnit > 0, it's a calculated row.
-            if (uCost > 0 || qty > 0) {
-                 return {
-                     ...m,
-                     cost: ((qty * newBatchSize) + buffer) * uCost
-                 };
-            }
-        }
-        return m;
-     });
-  };
-
   const updateBatchSize = (newSize: number) => {
      const updatedMaterials = recalculateMaterials(state.materials, newSize);
      setState(prev => ({
@@ -151,58 +170,139 @@ const App: React.FC = () => {
     updateState('materials', newMats);
   };
 
+  // Calculated rows are re-quoted from their details, so confirm before a typed amount is lost
+  const toggleMaterialCostMode = (mat: MaterialItem) => {
+    const costMode = isCalculatedMaterial(mat) ? 'manual' : 'calculated';
+    const newMats = setMaterialCostMode(state.materials, mat.id, costMode, state.batchSize);
+    const warning = costModeSwitchWarning(mat, newMats);
+    if (warning && !window.confirm(warning)) return;
+    updateState('materials', newMats);
+  };
+
   const addMaterial = () => {
-    // When adding manually from sidebar, we just add a row. 
-    // It defaults to 0s for detailed fields, so it acts as manual entry.
-    const newId = (state.materials.length + 1).toString() + Date.now();
+    // The sidebar only takes amounts, so its rows start manual; the cost mode toggle calculates them from details
     updateState('materials', [...state.materials, { 
-        id: newId, 
+        id: createId(), 
         name: 'New Material', 
         cost: 0,
+        costMode: 'manual',
         qtyPerUnit: 0, 
         bufferUnits: 0, 
         unitCost: 0, 
-        notes: ''
+        priceTiers: [],
+        consumptionUnit: 'pcs',
+        purchaseUnit: 'pcs',
+        currency: state.reportingCurrency,
+        notes: '',
+        libraryId: null,
+        priceDate: null,
+        parentId: null,
+        isAssembly: false
     }]);
   };
 
+  // Removing a sub-assembly removes everything nested in it
   const removeMaterial = (id: string) => {
-    updateState('materials', state.materials.filter(i => i.id !== id));
+    const removed = descendantIds(state.materials, id).add(id);
+    updateState('materials', state.materials.filter(i => !removed.has(i.id)));
   };
 
   const handleScenarioDiscountChange = (id: string, value: string) => {
     const floatVal = parseFloat(value);
     const newPercent = isNaN(floatVal) ? 0 : floatVal / 100;
     
-    // Ensure customScenarios exists (safe check)
-    const currentScenarios = state.customScenarios || DEFAULT_SCENARIOS.map(s => ({ id: s.id, discountPercent: s.discountPercent }));
-    
-    const newScenarios = currentScenarios.map(s => 
+    const newChannels = state.channels.map(s => 
       s.id === id ? { ...s, discountPercent: newPercent } : s
     );
     
-    updateState('customScenarios', newScenarios);
+    updateState('channels', newChannels);
   };
 
+  // Undo can bring the previous model back, but only until the page is reloaded
   const handleClearAll = () => {
+    if (!window.confirm('Clear every value in this project?')) return;
     setState({
       devCosts: [],
       amortizationQty: 0,
       batchSize: 0,
       wasteCount: 0,
       materials: [],
+      operations: [],
+      setupCosts: [],
       publicPrice: 0,
-      fixedMonthlyExpenses: 0,
+      tax: state.tax,
+      overheads: [],
       designerRoyaltyPercent: 0,
-      customScenarios: DEFAULT_SCENARIOS.map(s => ({ id: s.id, discountPercent: 0 }))
+      channels: state.channels.map(s => ({ ...s, discountPercent: 0 })),
+      riskRanges: [],
+      cashFlow: emptyCashFlowPlan(state.cashFlow.horizonMonths),
+      reportingCurrency: state.reportingCurrency,
+      exchangeRates: state.exchangeRates
     });
   };
 
   const handleResetDefaults = () => {
+    if (!window.confirm('Replace this project with the default example data?')) return;
     setState(INITIAL_STATE);
   };
 
-  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(val);
+  const handleExport = () => {
+    const name = projects.find(p => p.id === activeProjectId)?.name || 'Costing';
+    downloadTextFile(
+      `${slugify(name)}${DESIGNFIN_FILE_EXTENSION}`,
+      serializeDesignFinFile(name, state),
+      'application/json'
+    );
+  };
+
+  const handleShare = async () => {
+    const name = projects.find(p => p.id === activeProjectId)?.name || 'Costing';
+    let url: string;
+    try {
+      url = `${window.location.origin}${window.location.pathname}${await createShareHash(name, state)}`;
+    } catch (err) {
+      setShareNotice(null);
+      setImportError(err instanceof Error ? err.message : 'Could not create a share link.');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareNotice('Link copied. Anyone who opens it sees this costing read-only.');
+    } catch {
+      // Clipboard access needs a secure context; let the user copy it by hand
+      window.prompt('Copy this link to share the costing:', url);
+    }
+  };
+
+  // The copy is a new project, so the shared link and the user's work never mix
+  const handleMakeEditableCopy = () => {
+    if (!shared) return;
+    addProject(shared.name, JSON.parse(JSON.stringify(shared.state)));
+    closeSharedLink();
+  };
+
+  // Imports always land in a new project so nothing is overwritten
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { name, state: importedState } = parseDesignFinFile(await file.text());
+      addProject(name, importedState);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import this file.');
+    }
+  };
+
+  const handleExchangeRateChange = (code: string, rate: number) => {
+    updateState('exchangeRates', { ...state.exchangeRates, [code]: rate });
+  };
+
+  const formatCurrency = (val: number) => formatMoney(val, state.reportingCurrency);
+  const reportingSymbol = currencySymbol(state.reportingCurrency);
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col md:flex-row font-sans text-slate-900">
@@ -213,29 +313,91 @@ const App: React.FC = () => {
         onClose={() => setIsMaterialModalOpen(false)}
         materials={state.materials}
         batchSize={state.batchSize}
-        onSave={(updatedMaterials) => updateState('materials', updatedMaterials)}
+        currencySettings={state}
+        library={materialLibrary}
+        onSave={(updatedMaterials, newLibraryEntries) => {
+          if (newLibraryEntries.length > 0) {
+            setMaterialLibrary({ ...materialLibrary, items: [...materialLibrary.items, ...newLibraryEntries] });
+          }
+          updateState('materials', updatedMaterials);
+        }}
+      />
+      <ChannelManagerModal
+        isOpen={isChannelModalOpen}
+        onClose={() => setIsChannelModalOpen(false)}
+        channels={state.channels}
+        currency={state.reportingCurrency}
+        onSave={(updatedChannels) => setState(prev => ({
+          ...prev,
+          channels: updatedChannels,
+          cashFlow: pruneCashFlowPlan(prev.cashFlow, updatedChannels.map(c => c.id)),
+        }))}
+      />
+      <PortfolioModal
+        isOpen={isPortfolioOpen}
+        onClose={() => setIsPortfolioOpen(false)}
+        portfolio={portfolio}
+        projects={projects}
+        onSave={setPortfolio}
+      />
+      <MaterialLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        library={materialLibrary}
+        projects={projects}
+        defaultCurrency={state.reportingCurrency}
+        onSave={setMaterialLibrary}
+      />
+      {/* Prints its sheet on its own; everything else below is hidden on paper */}
+      <PrintReportModal
+        isOpen={isPrintOpen}
+        onClose={() => setIsPrintOpen(false)}
+        projectName={shared ? shared.name : projects.find(p => p.id === activeProjectId)?.name || 'Costing'}
+        state={state}
+        report={report}
       />
 
       {/* Mobile Header */}
-      <div className="md:hidden bg-indigo-900 text-white p-4 flex justify-between items-center shadow-lg z-20 sticky top-0">
+      <div className="md:hidden print:hidden bg-indigo-900 text-white p-4 flex justify-between items-center shadow-lg z-20 sticky top-0">
         <div className="font-bold text-lg flex items-center gap-2">
           <Calculator className="w-5 h-5" /> DesignFin
         </div>
-        <button onClick={() => setSidebarOpen(!sidebarOpen)} className="p-1 rounded hover:bg-indigo-800">
-          <Menu className="w-6 h-6" />
-        </button>
+        <div className="flex items-center gap-2">
+          <UndoRedoButtons canUndo={!isReadOnly && canUndo} canRedo={!isReadOnly && canRedo} onUndo={undo} onRedo={redo} className="text-indigo-200" />
+          <button onClick={() => setSidebarOpen(!sidebarOpen)} className="p-1 rounded hover:bg-indigo-800">
+            <Menu className="w-6 h-6" />
+          </button>
+        </div>
       </div>
 
       {/* SIDEBAR */}
       <aside className={`
         fixed inset-y-0 left-0 w-80 bg-white border-r border-slate-200 shadow-xl transform transition-transform duration-300 ease-in-out z-10 overflow-y-auto
-        md:relative md:translate-x-0
+        md:relative md:translate-x-0 print:hidden
         ${sidebarOpen ? 'translate-x-0' : '-translate-x-full'}
       `}>
-        <div className="p-6">
-          <h1 className="text-xl font-bold text-indigo-900 mb-6 hidden md:flex items-center gap-2">
-            <Calculator className="w-6 h-6" /> DesignFin
-          </h1>
+        {/* Disabled as a whole while a shared costing is on screen */}
+        <fieldset disabled={isReadOnly} className="p-6 min-w-0 disabled:opacity-60">
+          <div className="mb-6 hidden md:flex items-center justify-between">
+            <h1 className="text-xl font-bold text-indigo-900 flex items-center gap-2">
+              <Calculator className="w-6 h-6" /> DesignFin
+            </h1>
+            <UndoRedoButtons canUndo={!isReadOnly && canUndo} canRedo={!isReadOnly && canRedo} onUndo={undo} onRedo={redo} className="text-slate-400" />
+          </div>
+
+          <ProjectSwitcher
+            projects={projects}
+            activeProjectId={activeProjectId}
+            lastSavedAt={lastSavedAt}
+            saveFailed={saveFailed}
+            onSwitch={switchProject}
+            onCreate={(name) => addProject(name)}
+            onRename={renameProject}
+            onDuplicate={duplicateProject}
+            onDelete={deleteProject}
+            onOpenPortfolio={() => setIsPortfolioOpen(true)}
+            onOpenLibrary={() => setIsLibraryOpen(true)}
+          />
 
           {/* Section 1: Development */}
           <section className="mb-8">
@@ -249,8 +411,13 @@ const App: React.FC = () => {
                     onChange={e => handleDevCostChange(cost.id, 'name', e.target.value)}
                     className="flex-1 text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
                   />
+                  <CurrencySelect
+                    value={cost.currency}
+                    onChange={(code) => handleDevCostChange(cost.id, 'currency', code)}
+                    className="w-14 text-[10px] font-mono text-slate-500 py-1"
+                  />
                   <div className="relative w-24">
-                    <span className="absolute left-2 top-1.5 text-xs text-slate-400">$</span>
+                    <span className="absolute left-2 top-1.5 text-xs text-slate-400">{currencySymbol(cost.currency)}</span>
                     <input 
                       type="number" 
                       value={cost.amount} 
@@ -315,8 +482,31 @@ const App: React.FC = () => {
                 </button>
               </div>
               
-              {state.materials.map((mat) => (
-                <div key={mat.id} className="flex gap-2 items-center group">
+              {materialRows.map(({ item: mat, depth }) => mat.isAssembly ? (
+                <div key={mat.id} className="flex gap-2 items-center group" style={{ paddingLeft: depth * 12 }}>
+                  <input 
+                    type="text" 
+                    value={mat.name} 
+                    onChange={e => handleMaterialChange(mat.id, 'name', e.target.value)}
+                    className="flex-1 text-sm font-semibold border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                  />
+                  <div className="relative w-24">
+                    <span className="absolute left-2 top-1.5 text-xs text-slate-400">{currencySymbol(state.reportingCurrency)}</span>
+                    <input 
+                      type="number" 
+                      value={Number(rolledUpMaterialCosts[mat.id].toFixed(2))} 
+                      readOnly
+                      title="Sub-assembly total of its parts. Click 'Detailed Input' to edit."
+                      className="w-full text-sm border-slate-200 rounded pl-5 py-1 text-right outline-none bg-slate-100 text-slate-500 cursor-not-allowed"
+                    />
+                  </div>
+                  <span className="w-4 shrink-0" />
+                  <button onClick={() => removeMaterial(mat.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div key={mat.id} className="flex gap-2 items-center group" style={{ paddingLeft: depth * 12 }}>
                   <input 
                     type="text" 
                     value={mat.name} 
@@ -324,18 +514,23 @@ const App: React.FC = () => {
                     className="flex-1 text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
                   />
                   <div className="relative w-24">
-                    <span className="absolute left-2 top-1.5 text-xs text-slate-400">$</span>
+                    <span className="absolute left-2 top-1.5 text-xs text-slate-400">{currencySymbol(mat.currency)}</span>
                     <input 
                       type="number" 
                       value={mat.cost} 
-                      // If it's a calculated row, we might want to disable manual edit or just warn?
-                      // For now, we allow overwrite, but next modal save will revert it.
-                      readOnly={(mat.qtyPerUnit > 0 || mat.unitCost > 0)}
-                      title={(mat.qtyPerUnit > 0 || mat.unitCost > 0) ? "Calculated from details. Click 'Detailed Input' to edit." : "Manual Entry"}
+                      readOnly={isCalculatedMaterial(mat)}
+                      title={isCalculatedMaterial(mat) ? "Calculated from details. Click 'Detailed Input' to edit." : "Manual Entry"}
                       onChange={e => handleMaterialChange(mat.id, 'cost', parseFloat(e.target.value) || 0)}
-                      className={`w-full text-sm border-slate-200 rounded pl-5 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none ${(mat.qtyPerUnit > 0 || mat.unitCost > 0) ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'bg-slate-50'}`}
+                      className={`w-full text-sm border-slate-200 rounded pl-5 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none ${isCalculatedMaterial(mat) ? 'bg-slate-100 text-slate-500 cursor-not-allowed' : 'bg-slate-50'}`}
                     />
                   </div>
+                  <button
+                    onClick={() => toggleMaterialCostMode(mat)}
+                    title={isCalculatedMaterial(mat) ? 'Calculated from details. Click to type the amount instead.' : 'Manual amount. Click to calculate from details.'}
+                    className={`${isCalculatedMaterial(mat) ? 'text-indigo-500' : 'text-slate-300'} hover:text-indigo-700 transition-colors`}
+                  >
+                    {isCalculatedMaterial(mat) ? <Calculator className="w-4 h-4" /> : <Edit3 className="w-4 h-4" />}
+                  </button>
                   <button onClick={() => removeMaterial(mat.id)} className="text-slate-300 hover:text-red-500 transition-colors">
                     <Trash2 className="w-4 h-4" />
                   </button>
@@ -345,6 +540,20 @@ const App: React.FC = () => {
                 <Plus className="w-3 h-3" /> Add Manual Cost
               </button>
             </div>
+
+            <OperationsPanel
+              operations={state.operations}
+              batchSize={state.batchSize}
+              currencySettings={state}
+              onChange={(operations) => updateState('operations', operations)}
+            />
+
+            <SetupCostsPanel
+              setupCosts={state.setupCosts}
+              effectiveUnits={effectiveUnits}
+              currencySettings={state}
+              onChange={(setupCosts) => updateState('setupCosts', setupCosts)}
+            />
           </section>
 
           {/* Section 3: Financials */}
@@ -352,9 +561,11 @@ const App: React.FC = () => {
             <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 border-b pb-1">Financial Parameters</h2>
             <div className="space-y-4">
                <div>
-                  <label className="text-xs font-medium text-slate-600 block mb-1">Target Public Price (PVP)</label>
+                  <label className="text-xs font-medium text-slate-600 block mb-1">
+                    Target Public Price (PVP){state.tax.rate > 0 && (state.tax.priceIncludesTax ? ', incl. tax' : ', excl. tax')}
+                  </label>
                   <div className="relative">
-                    <span className="absolute left-3 top-2 text-slate-400">$</span>
+                    <span className="absolute left-3 top-2 text-slate-400">{reportingSymbol}</span>
                     <input 
                       type="number" 
                       value={state.publicPrice}
@@ -363,18 +574,42 @@ const App: React.FC = () => {
                     />
                   </div>
                </div>
-               
+
                <div className="grid grid-cols-2 gap-3">
                  <div>
-                    <label className="text-xs font-medium text-slate-600 block mb-1">Fixed Monthly Ops</label>
+                    <label className="text-xs font-medium text-slate-600 block mb-1">VAT / Sales Tax</label>
                     <div className="relative">
-                      <span className="absolute left-2 top-1.5 text-xs text-slate-400">$</span>
-                      <input 
-                        type="number" 
-                        value={state.fixedMonthlyExpenses}
-                        onChange={e => updateState('fixedMonthlyExpenses', parseFloat(e.target.value) || 0)}
-                        className="w-full text-sm border-slate-200 rounded pl-5 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={Number((state.tax.rate * 100).toFixed(2))}
+                        onChange={e => updateState('tax', { ...state.tax, rate: Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100) / 100 })}
+                        className="w-full text-sm border-slate-200 rounded px-2 py-1 pr-6 text-right focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
                       />
+                      <span className="absolute right-2 top-1.5 text-xs text-slate-400">%</span>
+                    </div>
+                 </div>
+                 <label className="flex items-center gap-2 text-xs text-slate-600 mt-5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={state.tax.priceIncludesTax}
+                      onChange={e => updateState('tax', { ...state.tax, priceIncludesTax: e.target.checked })}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    PVP includes tax
+                 </label>
+               </div>
+               
+               <div className="grid grid-cols-2 gap-3">
+                 <div>
+                    <label className="text-xs font-medium text-slate-600 block mb-1">Fixed Monthly Ops</label>
+                    <div
+                      title="Sum of the overhead lines below"
+                      className="w-full text-sm border-slate-200 rounded px-2 py-1 bg-slate-100 text-slate-500 text-right"
+                    >
+                      {formatCurrency(fixedMonthlyExpenses)}
                     </div>
                  </div>
                  <div>
@@ -394,6 +629,19 @@ const App: React.FC = () => {
             </div>
           </section>
 
+          <OverheadPanel
+            overheads={state.overheads}
+            overheadLines={overheadLines}
+            currencySettings={state}
+            onChange={(overheads) => updateState('overheads', overheads)}
+          />
+
+          <CurrencySettingsPanel
+            settings={state}
+            onReportingCurrencyChange={(code) => setState(prev => changeReportingCurrency(prev, code))}
+            onRateChange={handleExchangeRateChange}
+          />
+
           {/* Data Actions */}
           <div className="pt-6 mt-6 border-t border-slate-100 flex gap-3">
              <button
@@ -411,13 +659,108 @@ const App: React.FC = () => {
                <RotateCcw className="w-4 h-4" /> Reset
              </button>
           </div>
-        </div>
+          <div className="mt-3 flex gap-3">
+             <button
+               type="button"
+               onClick={handleExport}
+               className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-slate-500 bg-white border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+             >
+               <Download className="w-4 h-4" /> Export
+             </button>
+             <button
+               type="button"
+               onClick={() => importInputRef.current?.click()}
+               className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-slate-500 bg-white border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+             >
+               <Upload className="w-4 h-4" /> Import
+             </button>
+             <button
+               type="button"
+               onClick={handleShare}
+               className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-slate-500 bg-white border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+             >
+               <Share2 className="w-4 h-4" /> Share
+             </button>
+             <input
+               ref={importInputRef}
+               type="file"
+               accept={`${DESIGNFIN_FILE_EXTENSION},application/json`}
+               onChange={handleImportFile}
+               className="hidden"
+             />
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsPrintOpen(true)}
+            className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-slate-500 bg-white border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+          >
+            <Printer className="w-4 h-4" /> Print Costing Sheet
+          </button>
+          {importError && (
+            <div className="mt-3 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+              <AlertTriangle className="w-4 h-4 shrink-0 text-red-500" />
+              <div className="flex-1 whitespace-pre-line break-words">{importError}</div>
+              <button onClick={() => setImportError(null)} className="text-red-300 hover:text-red-600 font-bold">×</button>
+            </div>
+          )}
+          {shareNotice && (
+            <div className="mt-3 flex items-start gap-2 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-xs text-emerald-700">
+              <Share2 className="w-4 h-4 shrink-0 text-emerald-500" />
+              <div className="flex-1 break-words">{shareNotice}</div>
+              <button onClick={() => setShareNotice(null)} className="text-emerald-300 hover:text-emerald-600 font-bold">×</button>
+            </div>
+          )}
+        </fieldset>
       </aside>
 
       {/* MAIN DASHBOARD */}
-      <main className="flex-1 p-4 md:p-8 overflow-y-auto">
+      <main className="flex-1 p-4 md:p-8 overflow-y-auto print:hidden">
         <div className="max-w-6xl mx-auto space-y-6">
-          
+
+          {shared && (
+            <div className="flex flex-wrap items-center gap-3 p-4 bg-indigo-50 border border-indigo-200 rounded-xl text-sm text-indigo-800">
+              <Eye className="w-5 h-5 shrink-0 text-indigo-500" />
+              <div className="flex-1 min-w-0">
+                <span className="font-bold">{shared.name}</span> is a shared costing, open read-only.
+                Nothing you change here is saved.
+              </div>
+              <button
+                onClick={handleMakeEditableCopy}
+                className="flex items-center gap-1 text-xs bg-indigo-600 text-white px-3 py-1.5 rounded-lg hover:bg-indigo-700 font-bold transition-colors"
+              >
+                <Copy className="w-3 h-3" /> Make Editable Copy
+              </button>
+              <button onClick={() => setIsPrintOpen(true)} className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium">
+                <Printer className="w-3 h-3" /> Print
+              </button>
+              <button onClick={closeSharedLink} className="text-xs text-indigo-500 hover:text-indigo-800 font-medium">
+                Back to my projects
+              </button>
+            </div>
+          )}
+          {isSharePending && !shared && (
+            <div className="flex items-center gap-3 p-4 bg-indigo-50 border border-indigo-200 rounded-xl text-sm text-indigo-800">
+              <Eye className="w-5 h-5 shrink-0 text-indigo-500" />
+              Opening shared costing…
+            </div>
+          )}
+          {shareError && (
+            <div className="flex items-start gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              <AlertTriangle className="w-5 h-5 shrink-0 text-red-500" />
+              <div className="flex-1 whitespace-pre-line break-words">{shareError}</div>
+              <button onClick={closeSharedLink} className="text-red-300 hover:text-red-600 font-bold">×</button>
+            </div>
+          )}
+          {report.unresolvedCurrencies.length > 0 && (
+            <div className="flex items-start gap-2 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+              <AlertTriangle className="w-5 h-5 shrink-0 text-amber-500" />
+              <div className="flex-1">
+                No exchange rate for <span className="font-bold">{report.unresolvedCurrencies.join(', ')}</span>.
+                Those amounts are counted 1:1 in {state.reportingCurrency}, so the totals below are off until a rate is set.
+              </div>
+            </div>
+          )}
+
           {/* TOP CARDS */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between">
@@ -446,8 +789,17 @@ const App: React.FC = () => {
               </div>
               <div className="mt-2 text-xs text-slate-400 flex justify-between">
                 <span>Mat: {formatCurrency(materialCostPerUnit)}</span>
+                <span>Labor: {formatCurrency(laborCostPerUnit)}</span>
+                {setupCostPerUnit > 0 && <span>Setup: {formatCurrency(setupCostPerUnit)}</span>}
                 <span>Amort: {formatCurrency(amortPerUnit)}</span>
               </div>
+              {subAssemblies.some(s => s.depth === 0) && (
+                <div className="mt-1 text-[10px] text-slate-400 flex flex-wrap gap-x-3">
+                  {subAssemblies.filter(s => s.depth === 0).map(s => (
+                    <span key={s.id}>{s.name || 'Sub-assembly'}: {formatCurrency(s.costPerUnit)}</span>
+                  ))}
+                </div>
+              )}
               {/* Progress Bar for Cost vs Price */}
               <div className="absolute bottom-0 left-0 w-full h-1 bg-slate-100">
                  <div 
@@ -458,12 +810,14 @@ const App: React.FC = () => {
             </div>
 
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between">
-              <div className="text-slate-500 text-xs uppercase font-bold tracking-wide">Break-Even (Retail)</div>
+              <div className="text-slate-500 text-xs uppercase font-bold tracking-wide">Break-Even ({retailScenario?.name || 'No Channel'})</div>
               <div className="flex items-end justify-between mt-2">
                 <span className="text-3xl font-bold text-slate-800">
-                  {scenarios.find(s => s.id === 'retail')?.breakEvenUnits === Infinity 
-                    ? '∞' 
-                    : scenarios.find(s => s.id === 'retail')?.breakEvenUnits}
+                  {!retailScenario
+                    ? '—'
+                    : retailScenario.breakEvenUnits === Infinity 
+                      ? '∞' 
+                      : retailScenario.breakEvenUnits}
                 </span>
                 <Target className="text-slate-200 w-8 h-8" />
               </div>
@@ -474,7 +828,7 @@ const App: React.FC = () => {
 
             {/* ROI Card */}
             <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between">
-              <div className="text-slate-500 text-xs uppercase font-bold tracking-wide">ROI (Direct Sale)</div>
+              <div className="text-slate-500 text-xs uppercase font-bold tracking-wide">ROI ({directScenario?.name || 'No Channel'})</div>
               <div className="flex items-end justify-between mt-2">
                 <span className={`text-3xl font-bold ${directRoi >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
                   {directRoi.toFixed(1)}%
@@ -494,9 +848,13 @@ const App: React.FC = () => {
                 batchSize={state.batchSize}
                 wasteCount={state.wasteCount}
                 totalBatchMaterialCost={totalBatchMaterialCost}
+                totalBatchLaborCost={totalBatchLaborCost}
+                totalBatchSetupCost={totalBatchSetupCost}
                 amortizationPerUnit={amortPerUnit}
                 publicPrice={state.publicPrice}
+                currency={state.reportingCurrency}
                 onWasteChange={(val) => updateState('wasteCount', val)}
+                isReadOnly={isReadOnly}
               />
             </div>
 
@@ -509,7 +867,8 @@ const App: React.FC = () => {
                   <TrendingDown className="w-5 h-5 text-indigo-600" />
                   Profitability by Channel
                 </h3>
-                <div className="h-64 w-full">
+                {/* Grow with the channel list so bars never get squeezed */}
+                <div className="w-full" style={{ height: Math.max(256, scenarios.length * 40) }}>
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={scenarios} layout="vertical" margin={{ left: 40, right: 20 }}>
                       <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
@@ -537,11 +896,28 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <PriceWaterfallChart
+                scenarios={scenarios}
+                publicPrice={state.publicPrice}
+                currency={state.reportingCurrency}
+                defaultChannelId={retailScenario?.id}
+              />
+
               {/* The Survival Table */}
               <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                 <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
                   <h3 className="font-bold text-slate-800">Financial Survival Matrix</h3>
-                  <span className="text-xs text-slate-400">Monthly Fixed: {formatCurrency(state.fixedMonthlyExpenses)}</span>
+                  <div className="flex items-center gap-4">
+                    <span className="text-xs text-slate-400">Monthly Fixed: {formatCurrency(fixedMonthlyExpenses)}</span>
+                    {!isReadOnly && (
+                      <button
+                        onClick={() => setIsChannelModalOpen(true)}
+                        className="flex items-center gap-1 text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold transition-colors"
+                      >
+                        <Store className="w-3 h-3" /> Manage Channels
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm text-left">
@@ -549,12 +925,21 @@ const App: React.FC = () => {
                       <tr>
                         <th className="px-6 py-3">Channel</th>
                         <th className="px-6 py-3 text-right">Discount</th>
+                        <th className="px-6 py-3 text-right">Tax</th>
                         <th className="px-6 py-3 text-right">Net Rev</th>
+                        <th className="px-6 py-3 text-right">Selling Costs</th>
                         <th className="px-6 py-3 text-right">Profit/Unit</th>
                         <th className="px-6 py-3 text-right bg-indigo-50 text-indigo-700">BEP (Units)</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
+                      {scenarios.length === 0 && (
+                        <tr>
+                          <td colSpan={7} className="px-6 py-8 text-center text-slate-400 italic">
+                            No sales channels. Click "Manage Channels" to add one.
+                          </td>
+                        </tr>
+                      )}
                       {scenarios.map((scenario) => (
                         <tr 
                           key={scenario.id} 
@@ -583,8 +968,9 @@ const App: React.FC = () => {
                                     max="100"
                                     step="0.5"
                                     value={Number((scenario.discountPercent * 100).toFixed(2))}
+                                    disabled={isReadOnly}
                                     onChange={(e) => handleScenarioDiscountChange(scenario.id, e.target.value)}
-                                    className="w-16 text-right bg-transparent border-b border-transparent group-hover:border-slate-300 focus:border-indigo-600 focus:ring-0 px-0 py-0 text-sm font-mono text-slate-600 outline-none transition-colors"
+                                    className="w-16 text-right bg-transparent border-b border-transparent group-hover:border-slate-300 focus:border-indigo-600 focus:ring-0 px-0 py-0 text-sm font-mono text-slate-600 outline-none transition-colors disabled:opacity-60"
                                   />
                                   <Edit3 className="w-3 h-3 text-slate-300 absolute -left-4 top-1 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
                                 </div>
@@ -592,7 +978,29 @@ const App: React.FC = () => {
                              </div>
                             {scenario.commissionPercent > 0 && <span className="text-[10px] block mt-1">+ {(scenario.commissionPercent * 100).toFixed(1)}% comm</span>}
                           </td>
+                          <td className="px-6 py-3 text-right font-mono text-slate-500">
+                            {formatCurrency(scenario.taxAmount)}
+                            {state.tax.rate > 0 && (
+                              <span className="text-[10px] block mt-1">{scenario.discountBeforeTax ? 'on discounted' : 'on full price'}</span>
+                            )}
+                          </td>
                           <td className="px-6 py-3 text-right font-medium">{formatCurrency(scenario.netRevenue)}</td>
+                          <td className="px-6 py-3 text-right font-mono text-slate-500">
+                            {formatCurrency(scenario.channelCostAmount)}
+                            {scenario.channelCostAmount > 0 && (
+                              <span className="text-[10px] block mt-1 whitespace-nowrap">
+                                {([
+                                  ['fee', scenario.paymentFeeAmount + scenario.transactionFeeAmount],
+                                  ['ship', scenario.shippingAmount],
+                                  ['pack', scenario.packagingAmount],
+                                  ['returns', scenario.returnsAmount],
+                                ] as [string, number][])
+                                  .filter(([, amount]) => amount > 0)
+                                  .map(([label, amount]) => `${formatCurrency(amount)} ${label}`)
+                                  .join(' · ')}
+                              </span>
+                            )}
+                          </td>
                           <td className={`px-6 py-3 text-right font-bold ${scenario.profit > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
                             {formatCurrency(scenario.profit)}
                           </td>
@@ -606,6 +1014,28 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <OverheadBreakEvenTable
+                overheadLines={overheadLines}
+                scenarios={scenarios}
+                currency={state.reportingCurrency}
+              />
+
+              <CashFlowPanel state={state} report={report} onChange={(plan) => updateState('cashFlow', plan)} isReadOnly={isReadOnly} />
+
+              <GoalSeekPanel state={state} defaultChannelId={retailScenario?.id} onApply={(update) => setState(update)} isReadOnly={isReadOnly} />
+
+              <BatchSizeOptimizer
+                state={state}
+                currentCogs={COGS}
+                defaultChannelId={retailScenario?.id}
+                onApply={(update) => setState(update)}
+                isReadOnly={isReadOnly}
+              />
+
+              <SensitivityPanel state={state} defaultChannelId={retailScenario?.id} />
+
+              <RiskSimulationPanel state={state} onChangeRanges={(ranges) => updateState('riskRanges', ranges)} isReadOnly={isReadOnly} />
+
             </div>
           </div>
 
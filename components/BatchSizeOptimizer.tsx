@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Layers, Play } from 'lucide-react';
+import { BatchSizePoint, BatchSizeRecommendation, BatchSizeTarget, FinancialState } from '../types';
+import { applyBatchSize, batchSizeCurve, recommendBatchSize } from '../utils/batchOptimizer';
+import { currencySymbol, formatMoney } from '../utils/currency';
+
+interface Props {
+  state: FinancialState;
+  currentCogs: number;
+  defaultChannelId?: string;
+  onApply: (update: (prev: FinancialState) => FinancialState) => void;
+  isReadOnly?: boolean; // Recommends only; nothing can be applied
+}
+
+// Looks at up to four times the current run, never less than 100 units
+const MIN_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 5000;
+
+type TargetType = BatchSizeTarget['type'];
+
+interface OptimizerRun {
+  source: FinancialState;
+  target: BatchSizeTarget;
+  searchLimit: number;
+  curve: BatchSizePoint[];
+  recommendation: BatchSizeRecommendation;
+}
+
+export const BatchSizeOptimizer: React.FC<Props> = ({ state, currentCogs, defaultChannelId, onApply, isReadOnly = false }) => {
+  const [targetType, setTargetType] = useState<TargetType>('unitCost');
+  const [unitCost, setUnitCost] = useState(() => parseFloat((currentCogs * 0.9).toFixed(2)));
+  const [channelId, setChannelId] = useState(defaultChannelId || state.channels[0]?.id || '');
+  const [marginPercent, setMarginPercent] = useState(30);
+
+  // Fall back when the selected channel is deleted
+  const activeChannelId = state.channels.some(c => c.id === channelId)
+    ? channelId
+    : defaultChannelId || state.channels[0]?.id || '';
+
+  const [result, setResult] = useState<OptimizerRun | null>(null);
+
+  // Runs on demand: the scan can take thousands of kernel passes, too slow for every keystroke
+  const handleRun = () => {
+    const searchLimit = Math.min(Math.max(state.batchSize * 4, MIN_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+    const target: BatchSizeTarget = targetType === 'unitCost'
+      ? { type: 'unitCost', value: unitCost }
+      : { type: 'channelMargin', channelId: activeChannelId, value: marginPercent / 100 };
+    setResult({
+      source: state,
+      target,
+      searchLimit,
+      curve: batchSizeCurve(state, searchLimit),
+      recommendation: recommendBatchSize(state, target, searchLimit),
+    });
+  };
+
+  // Waste moves with the batch so the applied run matches the curve
+  const apply = (batchSize: number) => onApply(prev => applyBatchSize(prev, batchSize));
+
+  const currency = state.reportingCurrency;
+  const isStale = result !== null && result.source !== state;
+  const chartData = result?.curve.map(p => ({ ...p, cogs: parseFloat(p.cogs.toFixed(2)) })) || [];
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Layers className="w-5 h-5 text-indigo-600" />
+          Batch Size Optimizer
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(['unitCost', 'channelMargin'] as TargetType[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTargetType(t)}
+                className={`px-2 py-1 font-bold ${targetType === t ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                {t === 'unitCost' ? 'Unit Cost' : 'Channel Margin'}
+              </button>
+            ))}
+          </div>
+          {targetType === 'unitCost' ? (
+            <label className="flex items-center gap-1">
+              ≤ {currencySymbol(currency)}
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={unitCost}
+                onChange={e => setUnitCost(Math.max(parseFloat(e.target.value) || 0, 0))}
+                className="w-20 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+              />
+            </label>
+          ) : (
+            <>
+              <select
+                value={activeChannelId}
+                onChange={e => setChannelId(e.target.value)}
+                className="border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+              >
+                {state.channels.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                ≥
+                <input
+                  type="number"
+                  min="0"
+                  max="99"
+                  step="1"
+                  value={marginPercent}
+                  onChange={e => setMarginPercent(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 99))}
+                  className="w-14 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+                />
+                %
+              </label>
+            </>
+          )}
+          <button
+            onClick={handleRun}
+            className="flex items-center gap-1 bg-indigo-600 text-white px-3 py-1 rounded font-bold hover:bg-indigo-700"
+          >
+            <Play className="w-3 h-3" /> Run
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-2">
+        Unit COGS at each batch size with the current waste rate. Setup and per-batch labor
+        spread further as runs grow; price breaks apply to calculated materials.
+        {!result && ' Set a target, then run to find the smallest batch that meets it.'}
+        {isStale && <span className="text-amber-600 font-medium"> Inputs changed since this run — run again to refresh.</span>}
+      </p>
+
+      {result && (
+        <>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="colorBatchCogs" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#6366f1" stopOpacity={0.1}/>
+                    <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="batchSize" type="number" domain={[1, result.searchLimit]} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                <YAxis
+                  domain={['auto', 'auto']}
+                  tick={{ fontSize: 10, fill: '#94a3b8' }}
+                  tickFormatter={(val) => `${currencySymbol(currency)}${val}`}
+                  width={45}
+                />
+                <Tooltip
+                  formatter={(value: number) => [formatMoney(value, currency), 'Unit COGS']}
+                  labelFormatter={(label) => `Batch of ${label}`}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <ReferenceLine x={state.batchSize} stroke="#94a3b8" strokeDasharray="3 3" label={{ position: 'insideTopLeft', value: 'Current', fontSize: 10, fill: '#64748b' }} />
+                {result.recommendation.batchSize !== null && (
+                  <ReferenceLine x={result.recommendation.batchSize} stroke="#10b981" strokeDasharray="3 3" label={{ position: 'insideTopRight', value: 'Target', fontSize: 10, fill: '#10b981' }} />
+                )}
+                {result.target.type === 'unitCost' && <ReferenceLine y={result.target.value} stroke="#10b981" strokeDasharray="3 3" />}
+                <Area
+                  type="monotone"
+                  dataKey="cogs"
+                  stroke="#6366f1"
+                  fillOpacity={1}
+                  fill="url(#colorBatchCogs)"
+                  strokeWidth={2}
+                  activeDot={{ r: 4, strokeWidth: 0 }}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+            {result.recommendation.batchSize === null ? (
+              <span className="text-red-600">No batch up to {result.searchLimit.toLocaleString()} units meets the target.</span>
+            ) : (
+              <span className="text-slate-600">
+                Smallest batch that meets the target: <strong className="text-slate-800">{result.recommendation.batchSize.toLocaleString()} units</strong>
+                {' '}at {formatMoney(result.recommendation.cogs || 0, currency)} / unit
+                {result.recommendation.batchSize <= state.batchSize && <span className="text-emerald-600"> (current run already does)</span>}
+              </span>
+            )}
+            {!isReadOnly && result.recommendation.batchSize !== null && result.recommendation.batchSize !== state.batchSize && (
+              <button
+                onClick={() => apply(result.recommendation.batchSize!)}
+                className="text-xs bg-indigo-50 text-indigo-600 px-3 py-1 rounded hover:bg-indigo-100 font-bold transition-colors"
+              >
+                Use this batch size
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { FileUp, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+import { CurrencyCode, MaterialItem } from '../types';
+import {
+  BOM_FIELDS,
+  BomColumnMapping,
+  guessColumnMapping,
+  mapRowsToMaterials,
+  parseDelimited,
+} from '../utils/bomCsv';
+
+interface Props {
+  batchSize: number;
+  defaultCurrency: CurrencyCode;
+  onImport: (materials: MaterialItem[], mode: 'append' | 'replace') => void;
+  onCancel: () => void;
+}
+
+const EMPTY_MAPPING: BomColumnMapping = {
+  name: -1,
+  qtyPerUnit: -1,
+  bufferUnits: -1,
+  unitCost: -1,
+  currency: -1,
+  notes: -1,
+  consumptionUnit: -1,
+  purchaseUnit: -1,
+  level: -1,
+  isAssembly: -1,
+};
+
+export const BomImportPanel: React.FC<Props> = ({ batchSize, defaultCurrency, onImport, onCancel }) => {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<BomColumnMapping>(EMPTY_MAPPING);
+
+  const rows = useMemo(() => parseDelimited(text), [text]);
+  const columnCount = rows.reduce((max, r) => Math.max(max, r.cells.length), 0);
+  const headers = hasHeader && rows.length > 0
+    ? rows[0].cells
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+
+  // Re-guess the mapping whenever a different header row shows up
+  const headerKey = headers.join('\u0000');
+  useEffect(() => {
+    const guess = hasHeader ? guessColumnMapping(headers) : { ...EMPTY_MAPPING };
+    // Without a header, fall back to positional order
+    if (!hasHeader) {
+      BOM_FIELDS.forEach(({ key }, i) => { guess[key] = i < columnCount ? i : -1; });
+    }
+    setMapping(guess);
+  }, [headerKey, hasHeader]);
+
+  const missingRequired = BOM_FIELDS.filter(f => f.required && mapping[f.key] < 0);
+  const result = useMemo(
+    () => mapRowsToMaterials(dataRows, mapping, batchSize, defaultCurrency),
+    [dataRows, mapping, batchSize, defaultCurrency]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  const canImport = missingRequired.length === 0 && result.materials.length > 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-indigo-200 shadow-sm p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+          <FileUp className="w-4 h-4 text-indigo-600" /> Import Bill of Materials
+        </h3>
+        <button onClick={onCancel} className="text-slate-300 hover:text-slate-600 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="Paste rows from a spreadsheet (tab separated) or CSV text..."
+            rows={7}
+            className="w-full text-xs font-mono border border-slate-200 rounded p-2 focus:ring-1 focus:ring-indigo-500 outline-none"
+          />
+          <div className="flex items-center justify-between mt-2 text-xs text-slate-500">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+              First row is a header
+            </label>
+            <label className="text-indigo-600 hover:text-indigo-800 font-semibold cursor-pointer">
+              Choose CSV file...
+              <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-slate-500 uppercase mb-2">Column Mapping</div>
+          <div className="space-y-2">
+            {BOM_FIELDS.map(field => (
+              <div key={field.key} className="flex items-center gap-2 text-xs">
+                <span className="w-28 text-slate-600">
+                  {field.label}{field.required && <span className="text-red-500"> *</span>}
+                </span>
+                <select
+                  value={mapping[field.key]}
+                  onChange={e => setMapping({ ...mapping, [field.key]: Number(e.target.value) })}
+                  className="flex-1 border border-slate-200 rounded px-2 py-1 bg-white focus:ring-1 focus:ring-indigo-500 outline-none"
+                >
+                  <option value={-1}>— not imported —</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="mt-4 text-xs">
+          {missingRequired.length > 0 ? (
+            <div className="text-orange-600">
+              Map {missingRequired.map(f => f.label).join(', ')} to continue.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-emerald-700">
+                <CheckCircle2 className="w-4 h-4" />
+                {result.materials.length} row{result.materials.length === 1 ? '' : 's'} ready to import
+              </div>
+              {result.errors.length > 0 && (
+                <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-red-700 max-h-32 overflow-y-auto">
+                  <div className="flex items-center gap-1 font-semibold mb-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    {result.errors.length} row{result.errors.length === 1 ? '' : 's'} skipped
+                  </div>
+                  <ul className="space-y-0.5">
+                    {result.errors.map(err => (
+                      <li key={err.line}>Line {err.line}: {err.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 mt-4">
+        <button
+          disabled={!canImport}
+          onClick={() => onImport(result.materials, 'append')}
+          className="px-4 py-1.5 text-xs font-semibold text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Append Rows
+        </button>
+        <button
+          disabled={!canImport}
+          onClick={() => onImport(result.materials, 'replace')}
+          className="px-4 py-1.5 text-xs font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Replace Table
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CalendarClock } from 'lucide-react';
+import { MAX_CASH_FLOW_MONTHS } from '../constants';
+import { CashFlowPlan, FinancialReport, FinancialState } from '../types';
+import { formatMoney } from '../utils/currency';
+import { computeCashFlow, resizeCashFlowPlan } from '../utils/cashFlow';
+
+interface Props {
+  state: FinancialState;
+  report: FinancialReport;
+  onChange: (plan: CashFlowPlan) => void;
+  isReadOnly?: boolean;
+}
+
+export const CashFlowPanel: React.FC<Props> = ({ state, report, onChange, isReadOnly = false }) => {
+  const plan = state.cashFlow;
+  const cashFlow = useMemo(() => computeCashFlow(state, report), [state, report]);
+  const money = (value: number) => formatMoney(value, state.reportingCurrency);
+  const monthIndexes = Array.from({ length: plan.horizonMonths }, (_, i) => i);
+
+  const setHorizon = (months: number) => {
+    onChange(resizeCashFlowPlan(plan, Math.min(Math.max(months, 1), MAX_CASH_FLOW_MONTHS)));
+  };
+
+  const setBatches = (index: number, value: number) => {
+    onChange({ ...plan, batchesByMonth: plan.batchesByMonth.map((b, i) => (i === index ? value : b)) });
+  };
+
+  const channelMonths = (channelId: string) =>
+    plan.salesByChannel[channelId] || Array(plan.horizonMonths).fill(0);
+
+  const setSales = (channelId: string, index: number, value: number) => {
+    onChange({
+      ...plan,
+      salesByChannel: {
+        ...plan.salesByChannel,
+        [channelId]: channelMonths(channelId).map((u: number, i: number) => (i === index ? value : u)),
+      },
+    });
+  };
+
+  // Copies month 1 across the whole horizon
+  const fillBatches = () => onChange({ ...plan, batchesByMonth: Array(plan.horizonMonths).fill(plan.batchesByMonth[0] || 0) });
+  const fillSales = (channelId: string) => onChange({
+    ...plan,
+    salesByChannel: { ...plan.salesByChannel, [channelId]: Array(plan.horizonMonths).fill(channelMonths(channelId)[0] || 0) },
+  });
+
+  const chartData = cashFlow.months.map(m => ({
+    label: m.month === 0 ? 'Start' : `M${m.month}`,
+    cumulative: Number(m.cumulative.toFixed(2)),
+  }));
+
+  const cellInput = (value: number, onValue: (v: number) => void, step = '1') => (
+    <input
+      type="number"
+      min="0"
+      step={step}
+      value={value}
+      disabled={isReadOnly}
+      onChange={e => onValue(Math.max(parseFloat(e.target.value) || 0, 0))}
+      className="w-12 text-right border-slate-200 rounded px-1 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono disabled:opacity-60"
+    />
+  );
+
+  const fillButton = (onClick: () => void) => !isReadOnly && (
+    <button onClick={onClick} title="Copy month 1 to every month" className="text-[10px] text-indigo-500 hover:text-indigo-700 font-bold">
+      Fill →
+    </button>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-indigo-600" />
+          Cash Flow
+        </h3>
+        <label className="flex items-center gap-1 text-xs text-slate-500">
+          Horizon
+          <input
+            type="number"
+            min="1"
+            max={MAX_CASH_FLOW_MONTHS}
+            step="1"
+            value={plan.horizonMonths}
+            disabled={isReadOnly}
+            onChange={e => setHorizon(parseInt(e.target.value) || 1)}
+            className="w-14 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono disabled:opacity-60"
+          />
+          months
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div className="bg-slate-50 rounded-lg p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Peak Funding Need</div>
+          <div className="text-lg font-bold text-slate-800 font-mono">{money(cashFlow.peakFundingNeed)}</div>
+          <div className="text-[10px] text-slate-400">
+            {cashFlow.peakFundingNeed > 0 ? (cashFlow.peakFundingMonth === 0 ? 'Up front' : `Month ${cashFlow.peakFundingMonth}`) : 'Never below zero'}
+          </div>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Payback</div>
+          <div className={`text-lg font-bold font-mono ${cashFlow.paybackMonth === null ? 'text-red-500' : 'text-emerald-600'}`}>
+            {cashFlow.paybackMonth === null ? 'Not reached' : `Month ${cashFlow.paybackMonth}`}
+          </div>
+          <div className="text-[10px] text-slate-400">Cumulative cash back above zero</div>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Lost Sales</div>
+          <div className={`text-lg font-bold font-mono ${cashFlow.totalUnitsShort > 0 ? 'text-amber-600' : 'text-slate-800'}`}>
+            {cashFlow.totalUnitsShort.toLocaleString()} units
+          </div>
+          <div className="text-[10px] text-slate-400">Forecast with no stock to ship</div>
+        </div>
+      </div>
+
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <defs>
+              <linearGradient id="colorCash" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#6366f1" stopOpacity={0.2} />
+                <stop offset="95%" stopColor="#6366f1" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} interval="preserveStartEnd" />
+            <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <Tooltip
+              formatter={(val: number) => [money(val), 'Cumulative Cash']}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <ReferenceLine y={0} stroke="#94a3b8" />
+            <Area type="monotone" dataKey="cumulative" stroke="#6366f1" fill="url(#colorCash)" strokeWidth={2} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="text-xs text-left whitespace-nowrap">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase">
+            <tr>
+              <th className="px-3 py-2 sticky left-0 bg-slate-50">Plan</th>
+              <th className="px-1 py-2"></th>
+              {monthIndexes.map(i => (
+                <th key={i} className="px-1 py-2 text-right">M{i + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            <tr>
+              <td className="px-3 py-1 font-medium text-slate-700 sticky left-0 bg-white">Batches</td>
+              <td className="px-1 py-1">{fillButton(fillBatches)}</td>
+              {monthIndexes.map(i => (
+                <td key={i} className="px-1 py-1">{cellInput(plan.batchesByMonth[i], v => setBatches(i, v))}</td>
+              ))}
+            </tr>
+            {state.channels.map(channel => (
+              <tr key={channel.id}>
+                <td className="px-3 py-1 text-slate-600 sticky left-0 bg-white">{channel.name} units</td>
+                <td className="px-1 py-1">{fillButton(() => fillSales(channel.id))}</td>
+                {monthIndexes.map(i => (
+                  <td key={i} className="px-1 py-1">{cellInput(channelMonths(channel.id)[i], v => setSales(channel.id, i, Math.round(v)))}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-slate-50/50">
+              <td className="px-3 py-1 font-medium text-slate-700 sticky left-0 bg-slate-50">Net Cash</td>
+              <td></td>
+              {cashFlow.months.slice(1).map(m => (
+                <td key={m.month} className={`px-1 py-1 text-right font-mono ${m.net < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                  {Math.round(m.net).toLocaleString()}
+                </td>
+              ))}
+            </tr>
+            <tr className="bg-slate-50/50">
+              <td className="px-3 py-1 font-medium text-slate-700 sticky left-0 bg-slate-50">Cumulative</td>
+              <td></td>
+              {cashFlow.months.slice(1).map(m => (
+                <td key={m.month} className={`px-1 py-1 text-right font-mono ${m.cumulative < 0 ? 'text-red-500' : 'text-slate-700'}`}>
+                  {Math.round(m.cumulative).toLocaleString()}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400 mt-2">
+        Development ({money(report.totalDevCost)}) is paid up front, each batch is paid the month before its units
+        go on sale, and {money(report.fixedMonthlyExpenses)} overhead is paid every month.
+      </p>
+    </div>
+  );
+};
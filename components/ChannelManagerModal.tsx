@@ -0,0 +1,279 @@
+import React, { Fragment, useState, useEffect } from 'react';
+import { X, Plus, Trash2, Save, Store, RotateCcw } from 'lucide-react';
+import { DEFAULT_SCENARIOS, NO_CHANNEL_COSTS } from '../constants';
+import { CurrencyCode, SalesScenario } from '../types';
+import { currencySymbol } from '../utils/currency';
+import { createId } from '../utils/id';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  channels: SalesScenario[];
+  currency: CurrencyCode; // Channel cost amounts are in the reporting currency
+  onSave: (updatedChannels: SalesScenario[]) => void;
+}
+
+type PercentField = 'discountPercent' | 'commissionPercent' | 'paymentFeePercent' | 'returnRate';
+type AmountField = 'transactionFee' | 'shippingCost' | 'packagingCost';
+
+export const ChannelManagerModal: React.FC<Props> = ({
+  isOpen,
+  onClose,
+  channels,
+  currency,
+  onSave,
+}) => {
+  const [localChannels, setLocalChannels] = useState<SalesScenario[]>([]);
+
+  // Sync local state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLocalChannels(JSON.parse(JSON.stringify(channels)));
+    }
+  }, [isOpen, channels]);
+
+  const updateRow = <K extends keyof SalesScenario>(id: string, field: K, value: SalesScenario[K]) => {
+    setLocalChannels((prev) => prev.map((c) => (c.id === id ? { ...c, [field]: value } : c)));
+  };
+
+  // Inputs show whole percentages; the model stores 0 to 1
+  const updatePercent = (id: string, field: PercentField, raw: string) => {
+    const value = parseFloat(raw);
+    updateRow(id, field, isNaN(value) ? 0 : Math.min(Math.max(value, 0), 100) / 100);
+  };
+
+  const updateAmount = (id: string, field: AmountField, raw: string) => {
+    updateRow(id, field, Math.max(parseFloat(raw) || 0, 0));
+  };
+
+  const addRow = () => {
+    setLocalChannels([
+      ...localChannels,
+      {
+        id: createId(),
+        name: 'New Channel',
+        discountPercent: 0,
+        commissionPercent: 0,
+        discountBeforeTax: true,
+        ...NO_CHANNEL_COSTS,
+        description: '',
+      },
+    ]);
+  };
+
+  const removeRow = (id: string) => {
+    setLocalChannels(localChannels.filter((c) => c.id !== id));
+  };
+
+  const loadStarterTemplate = () => {
+    if (!window.confirm('Replace these channels with the six starter channels?')) return;
+    setLocalChannels(DEFAULT_SCENARIOS.map((s) => ({ ...s })));
+  };
+
+  const handleSave = () => {
+    onSave(localChannels.map((c) => ({ ...c, name: c.name.trim() || 'Untitled Channel' })));
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="bg-indigo-900 text-white px-6 py-4 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-3">
+            <Store className="w-6 h-6 text-indigo-300" />
+            <div>
+              <h2 className="text-xl font-bold">Sales Channels</h2>
+              <p className="text-xs text-indigo-200 opacity-80">
+                Every channel appears in the chart and the Survival Table
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-indigo-300 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body (Scrollable) */}
+        <div className="p-6 overflow-y-auto flex-1 bg-slate-50">
+          <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-slate-100 text-slate-500 font-semibold uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 w-56">Channel</th>
+                  <th className="px-4 py-3">Description</th>
+                  <th className="px-4 py-3 w-28 text-right">Discount %</th>
+                  <th className="px-4 py-3 w-28 text-right">Commission %</th>
+                  <th className="px-4 py-3 w-32" title="Trade terms charge tax on the discounted price; otherwise tax is on the full price">Discount vs Tax</th>
+                  <th className="px-4 py-3 w-16"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {localChannels.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-slate-400 italic">
+                      No channels. Add one or load the starter template.
+                    </td>
+                  </tr>
+                )}
+                {localChannels.map((channel) => (
+                  <Fragment key={channel.id}>
+                  <tr className="group hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        value={channel.name}
+                        onChange={(e) => updateRow(channel.id, 'name', e.target.value)}
+                        placeholder="e.g. Amazon"
+                        className="w-full border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none text-slate-700 font-medium"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="text"
+                        value={channel.description}
+                        onChange={(e) => updateRow(channel.id, 'description', e.target.value)}
+                        placeholder="e.g. Marketplace fees"
+                        className="w-full border-transparent bg-transparent rounded px-2 py-1.5 focus:bg-white focus:border-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none text-xs text-slate-500"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={Number((channel.discountPercent * 100).toFixed(2))}
+                        onChange={(e) => updatePercent(channel.id, 'discountPercent', e.target.value)}
+                        className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={Number((channel.commissionPercent * 100).toFixed(2))}
+                        onChange={(e) => updatePercent(channel.id, 'commissionPercent', e.target.value)}
+                        className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={channel.discountBeforeTax ? 'before' : 'after'}
+                        onChange={(e) => updateRow(channel.id, 'discountBeforeTax', e.target.value === 'before')}
+                        className="w-full border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none text-xs text-slate-600 bg-white"
+                      >
+                        <option value="before">Before tax</option>
+                        <option value="after">After tax</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => removeRow(channel.id)}
+                        className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                  {/* Selling costs */}
+                  <tr className="bg-slate-50/60">
+                    <td colSpan={6} className="px-4 pb-3 pt-1">
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[11px] text-slate-500">
+                        <span className="font-bold uppercase text-[10px] text-slate-400">Selling costs</span>
+                        {([
+                          ['paymentFeePercent', 'Payment fee', '%'],
+                          ['returnRate', 'Returns', '%'],
+                        ] as [PercentField, string, string][]).map(([field, label]) => (
+                          <label key={field} className="flex items-center gap-1">
+                            {label}
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.1"
+                              value={Number((channel[field] * 100).toFixed(2))}
+                              onChange={(e) => updatePercent(channel.id, field, e.target.value)}
+                              className="w-16 text-right border-slate-200 rounded px-1.5 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                            />
+                            %
+                          </label>
+                        ))}
+                        {([
+                          ['transactionFee', 'Fee / order'],
+                          ['shippingCost', 'Shipping / unit'],
+                          ['packagingCost', 'Packaging / unit'],
+                        ] as [AmountField, string][]).map(([field, label]) => (
+                          <label key={field} className="flex items-center gap-1">
+                            {label}
+                            <span className="text-slate-400">{currencySymbol(currency)}</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={channel[field]}
+                              onChange={(e) => updateAmount(channel.id, field, e.target.value)}
+                              className="w-16 text-right border-slate-200 rounded px-1.5 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                            />
+                          </label>
+                        ))}
+                        <label className="flex items-center gap-1" title="Spreads the per-order fee over the units in a typical order">
+                          Units / order
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={channel.unitsPerTransaction}
+                            onChange={(e) => updateRow(channel.id, 'unitsPerTransaction', Math.max(parseInt(e.target.value) || 1, 1))}
+                            className="w-12 text-right border-slate-200 rounded px-1.5 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                          />
+                        </label>
+                      </div>
+                    </td>
+                  </tr>
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              onClick={addRow}
+              className="flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors px-2 py-1 rounded hover:bg-indigo-50 w-fit"
+            >
+              <Plus className="w-4 h-4" /> Add Channel
+            </button>
+            <button
+              onClick={loadStarterTemplate}
+              className="flex items-center gap-2 text-xs font-semibold text-slate-500 hover:text-indigo-700 transition-colors px-2 py-1 rounded hover:bg-indigo-50"
+            >
+              <RotateCcw className="w-4 h-4" /> Load Starter Template
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-200 px-6 py-4 flex justify-end items-center gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold"
+          >
+            <Save className="w-4 h-4" /> Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
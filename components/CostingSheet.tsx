@@ -0,0 +1,207 @@
+import React from 'react';
+import { REPORT_SECTIONS } from '../constants';
+import { FinancialReport, FinancialState, ReportSection } from '../types';
+import { buildBomRows } from '../utils/costingSheet';
+import { formatMoney, toReportingCurrency } from '../utils/currency';
+import { unitLabel } from '../utils/units';
+
+interface Props {
+  projectName: string;
+  generatedAt: Date;
+  state: FinancialState;
+  report: FinancialReport;
+  sections: ReportSection[];
+}
+
+const percent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+// Plain black-on-white document for clients. Sections avoid splitting across pages where they
+// fit; long tables break between rows and repeat their header.
+export const CostingSheet: React.FC<Props> = ({ projectName, generatedAt, state, report, sections }) => {
+  const currency = state.reportingCurrency;
+  const money = (value: number) => formatMoney(value, currency);
+  const bomRows = buildBomRows(state.materials, state.batchSize, state);
+
+  const renderSection = (section: ReportSection) => {
+    switch (section) {
+      case 'development':
+        return (
+          <>
+            <table className="w-full text-xs">
+              <thead className="border-b border-slate-300 text-slate-500 uppercase text-[10px]">
+                <tr>
+                  <th className="py-1 text-left">Item</th>
+                  <th className="py-1 text-right">Amount</th>
+                  <th className="py-1 text-right">In {currency}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {state.devCosts.map(item => (
+                  <tr key={item.id} className="break-inside-avoid">
+                    <td className="py-1">{item.name}</td>
+                    <td className="py-1 text-right font-mono">{formatMoney(item.amount, item.currency)}</td>
+                    <td className="py-1 text-right font-mono">{money(toReportingCurrency(item.amount, item.currency, state))}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t border-slate-300 font-bold">
+                <tr>
+                  <td className="py-1" colSpan={2}>Total Development</td>
+                  <td className="py-1 text-right font-mono">{money(report.totalDevCost)}</td>
+                </tr>
+              </tfoot>
+            </table>
+            <p className="mt-2 text-xs text-slate-600">
+              Amortized over {state.amortizationQty.toLocaleString()} units: <strong>{money(report.amortPerUnit)} per unit</strong>
+            </p>
+          </>
+        );
+
+      case 'materials':
+        return (
+          <table className="w-full text-xs">
+            <thead className="border-b border-slate-300 text-slate-500 uppercase text-[10px]">
+              <tr>
+                <th className="py-1 text-left">Material</th>
+                <th className="py-1 text-right">Batch Qty</th>
+                <th className="py-1 text-right">Unit Cost</th>
+                <th className="py-1 text-right">Batch Cost</th>
+                <th className="py-1 text-right">In {currency}</th>
+                <th className="py-1 text-right">%</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {bomRows.map(row => (
+                <tr key={row.id} className={`break-inside-avoid ${row.isAssembly ? 'font-semibold' : ''}`}>
+                  <td className="py-1" style={{ paddingLeft: row.depth * 12 }}>{row.name}</td>
+                  <td className="py-1 text-right font-mono">{row.isCalculated ? `${row.batchQuantity.toLocaleString()} ${unitLabel(row.unit)}` : 'Manual'}</td>
+                  <td className="py-1 text-right font-mono">{row.isCalculated ? `${formatMoney(row.unitCost, row.currency)}/${unitLabel(row.unit)}` : '—'}</td>
+                  <td className="py-1 text-right font-mono">{formatMoney(row.cost, row.currency)}</td>
+                  <td className="py-1 text-right font-mono">{money(row.reportingCost)}</td>
+                  <td className="py-1 text-right font-mono">{Math.round(row.share * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-slate-300 font-bold">
+              <tr>
+                <td className="py-1" colSpan={4}>Batch of {state.batchSize.toLocaleString()} units</td>
+                <td className="py-1 text-right font-mono">{money(report.totalBatchMaterialCost)}</td>
+                <td className="py-1 text-right font-mono">100%</td>
+              </tr>
+            </tfoot>
+          </table>
+        );
+
+      case 'production':
+        return (
+          <div className="grid grid-cols-2 gap-x-8 text-xs">
+            <dl className="divide-y divide-slate-100">
+              {([
+                ['Batch Size', `${state.batchSize.toLocaleString()} units`],
+                ['Waste', `${state.wasteCount.toLocaleString()} units`],
+                ['Usable Units', report.effectiveUnits.toLocaleString()],
+                ['Yield Rate', percent(report.yieldRate)],
+                ['Cost Multiplier', `${report.costMultiplier.toFixed(2)}x`],
+              ] as [string, string][]).map(([label, value]) => (
+                <div key={label} className="flex justify-between py-1">
+                  <dt className="text-slate-500">{label}</dt>
+                  <dd className="font-mono">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <dl className="divide-y divide-slate-100">
+              {([
+                ['Material / unit', report.materialCostPerUnit],
+                ['Labor / unit', report.laborCostPerUnit],
+                ['Setup / unit', report.setupCostPerUnit],
+                ['Amortization / unit', report.amortPerUnit],
+              ] as [string, number][]).map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <div className="flex justify-between py-1">
+                    <dt className="text-slate-500">{label}</dt>
+                    <dd className="font-mono">{money(value)}</dd>
+                  </div>
+                  {label === 'Material / unit' && report.subAssemblies.map(s => (
+                    <div key={s.id} className="flex justify-between py-1 text-slate-400" style={{ paddingLeft: (s.depth + 1) * 12 }}>
+                      <dt>{s.name || 'Sub-assembly'}</dt>
+                      <dd className="font-mono">{money(s.costPerUnit)}</dd>
+                    </div>
+                  ))}
+                </React.Fragment>
+              ))}
+              <div className="flex justify-between py-1 font-bold border-t border-slate-300">
+                <dt>True Unit Cost (COGS)</dt>
+                <dd className="font-mono">{money(report.cogs)}</dd>
+              </div>
+            </dl>
+          </div>
+        );
+
+      case 'channels':
+        return (
+          <>
+            <table className="w-full text-xs">
+              <thead className="border-b border-slate-300 text-slate-500 uppercase text-[10px]">
+                <tr>
+                  <th className="py-1 text-left">Channel</th>
+                  <th className="py-1 text-right">Discount</th>
+                  <th className="py-1 text-right">Tax</th>
+                  <th className="py-1 text-right">Net Rev</th>
+                  <th className="py-1 text-right">Selling Costs</th>
+                  <th className="py-1 text-right">Profit/Unit</th>
+                  <th className="py-1 text-right">BEP (Units)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.scenarios.map(s => (
+                  <tr key={s.id} className="break-inside-avoid">
+                    <td className="py-1">
+                      {s.name}
+                      {s.description && <span className="block text-[10px] text-slate-400">{s.description}</span>}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {percent(s.discountPercent)}
+                      {s.commissionPercent > 0 && <span className="block text-[10px] text-slate-400">+ {percent(s.commissionPercent)} comm</span>}
+                    </td>
+                    <td className="py-1 text-right font-mono">{money(s.taxAmount)}</td>
+                    <td className="py-1 text-right font-mono">{money(s.netRevenue)}</td>
+                    <td className="py-1 text-right font-mono">{money(s.channelCostAmount)}</td>
+                    <td className={`py-1 text-right font-mono font-bold ${s.profit > 0 ? '' : 'text-red-700'}`}>{money(s.profit)}</td>
+                    <td className="py-1 text-right font-mono">{s.breakEvenUnits === Infinity ? 'FAIL' : s.breakEvenUnits.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-600">
+              Break-even covers {money(report.fixedMonthlyExpenses)} of fixed overhead per month.
+              {state.tax.rate > 0 && ` Tax at ${percent(state.tax.rate)}; the public price ${state.tax.priceIncludesTax ? 'includes' : 'excludes'} tax.`}
+            </p>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white text-slate-900 p-8 print:p-0">
+      <header className="flex items-end justify-between border-b-2 border-slate-800 pb-3 mb-6">
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-slate-500">Costing Sheet</div>
+          <h1 className="text-2xl font-bold">{projectName}</h1>
+        </div>
+        <div className="text-right text-xs text-slate-600">
+          <div>{generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</div>
+          <div>Public price {money(state.publicPrice)} · {currency}</div>
+        </div>
+      </header>
+
+      {REPORT_SECTIONS.filter(s => sections.includes(s.value)).map(({ value, label }) => (
+        <section key={value} className="mb-8 break-inside-avoid-page">
+          <h2 className="text-sm font-bold uppercase tracking-wider text-slate-700 border-b border-slate-200 pb-1 mb-3">
+            {label}
+          </h2>
+          {renderSection(value)}
+        </section>
+      ))}
+    </div>
+  );
+};
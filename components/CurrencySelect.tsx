@@ -0,0 +1,23 @@
+import React from 'react';
+import { CURRENCIES } from '../constants';
+import { CurrencyCode } from '../types';
+
+interface Props {
+  value: CurrencyCode;
+  onChange: (code: CurrencyCode) => void;
+  className?: string;
+  title?: string;
+}
+
+export const CurrencySelect: React.FC<Props> = ({ value, onChange, className = '', title }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    title={title}
+    className={`border-slate-200 rounded bg-transparent focus:ring-1 focus:ring-indigo-500 outline-none cursor-pointer ${className}`}
+  >
+    {CURRENCIES.map((c) => (
+      <option key={c.code} value={c.code}>{c.code}</option>
+    ))}
+  </select>
+);
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CURRENCIES } from '../constants';
+import { CurrencyCode, CurrencySettings } from '../types';
+import { CurrencySelect } from './CurrencySelect';
+
+interface Props {
+  settings: CurrencySettings;
+  onReportingCurrencyChange: (code: CurrencyCode) => void;
+  onRateChange: (code: CurrencyCode, rate: number) => void;
+}
+
+export const CurrencySettingsPanel: React.FC<Props> = ({
+  settings,
+  onReportingCurrencyChange,
+  onRateChange,
+}) => (
+  <section className="mb-8">
+    <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 border-b pb-1">Currency</h2>
+    <div className="flex items-center justify-between mb-3">
+      <label className="text-xs font-medium text-slate-600">Reporting Currency</label>
+      <CurrencySelect
+        value={settings.reportingCurrency}
+        onChange={onReportingCurrencyChange}
+        title="Price, overhead and every total are shown in this currency"
+        className="text-sm font-bold text-slate-800 px-2 py-1 bg-slate-50"
+      />
+    </div>
+    <div className="space-y-2">
+      {CURRENCIES.filter(c => c.code !== settings.reportingCurrency).map((c) => (
+        <div key={c.code} className="flex items-center gap-2 text-xs text-slate-500">
+          <span className="w-16 font-mono">1 {c.code} =</span>
+          <input
+            type="number"
+            min="0"
+            step="0.0001"
+            value={settings.exchangeRates[c.code] ?? ''}
+            onChange={e => onRateChange(c.code, parseFloat(e.target.value) || 0)}
+            className={`flex-1 text-sm border-slate-200 rounded px-2 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50
+              ${(settings.exchangeRates[c.code] ?? 0) > 0 ? '' : 'ring-1 ring-red-300'}
+            `}
+          />
+          <span className="w-8 font-mono">{settings.reportingCurrency}</span>
+        </div>
+      ))}
+    </div>
+    <p className="text-[10px] text-slate-400 mt-2">
+      Rates are entered manually and stored with this project.
+    </p>
+  </section>
+);
@@ -0,0 +1,171 @@
+import React, { useState, useMemo } from 'react';
+import { Crosshair } from 'lucide-react';
+import { FinancialState, GoalMetric, GoalSeekResult, GoalVariable } from '../types';
+import { formatMoney } from '../utils/currency';
+import { GOAL_VARIABLES, applyGoalValue, goalSeek } from '../utils/goalSeek';
+
+interface Props {
+  state: FinancialState;
+  defaultChannelId?: string;
+  onApply: (update: (prev: FinancialState) => FinancialState) => void;
+  isReadOnly?: boolean; // Solves only; nothing can be applied
+}
+
+// Fix a target for one channel and solve each variable for it, holding the others
+export const GoalSeekPanel: React.FC<Props> = ({ state, defaultChannelId, onApply, isReadOnly = false }) => {
+  const [channelId, setChannelId] = useState(defaultChannelId || state.channels[0]?.id || '');
+  const [metric, setMetric] = useState<GoalMetric>('margin');
+  const [marginPercent, setMarginPercent] = useState(20);
+  const [breakEvenUnits, setBreakEvenUnits] = useState(40);
+
+  // Fall back when the selected channel is deleted
+  const activeChannelId = state.channels.some(c => c.id === channelId)
+    ? channelId
+    : defaultChannelId || state.channels[0]?.id || '';
+
+  const results = useMemo(() => {
+    const target = {
+      channelId: activeChannelId,
+      metric,
+      value: metric === 'margin' ? marginPercent / 100 : breakEvenUnits,
+    };
+    return GOAL_VARIABLES.map(v => goalSeek(state, target, v.value));
+  }, [state, activeChannelId, metric, marginPercent, breakEvenUnits]);
+
+  const formatVariable = (variable: GoalVariable, value: number) => {
+    switch (variable) {
+      case 'publicPrice': return formatMoney(value, state.reportingCurrency);
+      case 'discount': return `${(value * 100).toFixed(1)}%`;
+      default: return `${value.toLocaleString()} units`;
+    }
+  };
+
+  const formatAchieved = (achieved: number) =>
+    metric === 'margin' ? `${(achieved * 100).toFixed(1)}% margin` : `BEP ${achieved.toLocaleString()} units`;
+
+  const apply = (result: GoalSeekResult) => {
+    if (result.value === null) return;
+    const value = result.value;
+    onApply(prev => applyGoalValue(prev, result.variable, activeChannelId, value));
+  };
+
+  if (state.channels.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Crosshair className="w-5 h-5 text-indigo-600" />
+          Goal Seek
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <select
+            value={activeChannelId}
+            onChange={e => setChannelId(e.target.value)}
+            className="border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+          >
+            {state.channels.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(['margin', 'breakEven'] as GoalMetric[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-2 py-1 font-bold ${metric === m ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                {m === 'margin' ? 'Margin' : 'Break-Even'}
+              </button>
+            ))}
+          </div>
+          {metric === 'margin' ? (
+            <label className="flex items-center gap-1">
+              ≥
+              <input
+                type="number"
+                min="0"
+                max="99"
+                step="1"
+                value={marginPercent}
+                onChange={e => setMarginPercent(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 99))}
+                className="w-14 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+              />
+              %
+            </label>
+          ) : (
+            <label className="flex items-center gap-1">
+              ≤
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={breakEvenUnits}
+                onChange={e => setBreakEvenUnits(Math.max(parseInt(e.target.value) || 1, 1))}
+                className="w-16 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+              />
+              units/mo
+            </label>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-2">
+        Each row solves one variable on its own; everything else stays as entered.
+        Margin is profit as a share of the channel's net revenue.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase">
+            <tr>
+              <th className="px-3 py-2">Solve For</th>
+              <th className="px-3 py-2 text-right">Current</th>
+              <th className="px-3 py-2 text-right">Required</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {results.map((result, i) => {
+              const { label, description } = GOAL_VARIABLES[i];
+              const isCurrent = result.value !== null && Math.abs(result.value - result.current) < 1e-9;
+              return (
+                <tr key={result.variable}>
+                  <td className="px-3 py-1.5">
+                    <div className="font-medium text-slate-700">{label}</div>
+                    <div className="text-[10px] text-slate-400">{description}</div>
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono text-slate-500">
+                    {formatVariable(result.variable, result.current)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {result.value === null ? (
+                      <span className="text-red-500 font-medium">{result.reason}</span>
+                    ) : (
+                      <>
+                        <div className="font-mono font-bold text-slate-800">{formatVariable(result.variable, result.value)}</div>
+                        {result.achieved !== null && (
+                          <div className="text-[10px] text-slate-400">{formatAchieved(result.achieved)}</div>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {!isReadOnly && result.value !== null && !isCurrent && (
+                      <button
+                        onClick={() => apply(result)}
+                        className="text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold"
+                      >
+                        Apply
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, Fragment } from 'react';
+import { X, Save, Library, Plus, Trash2, History, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { CurrencyCode, LibraryMaterial, LibraryUpdatePreview, MaterialLibrary, SavedProject } from '../types';
+import { formatMoney } from '../utils/currency';
+import { createId } from '../utils/id';
+import { isPriceStale, previewLibraryUpdate, setLibraryPrice, todayIsoDate } from '../utils/materialLibrary';
+import { unitLabel } from '../utils/units';
+import { CurrencySelect } from './CurrencySelect';
+import { UnitSelect } from './UnitSelect';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  library: MaterialLibrary;
+  projects: SavedProject[];
+  defaultCurrency: CurrencyCode;
+  onSave: (library: MaterialLibrary, updateProjectIds: string[]) => void;
+}
+
+const inputClass = 'w-full border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none';
+
+export const MaterialLibraryModal: React.FC<Props> = ({
+  isOpen,
+  onClose,
+  library,
+  projects,
+  defaultCurrency,
+  onSave,
+}) => {
+  const [local, setLocal] = useState<MaterialLibrary>(library);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Set once the user saves and some linked costings would change
+  const [preview, setPreview] = useState<LibraryUpdatePreview[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Sync local state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLocal(JSON.parse(JSON.stringify(library)));
+      setHistoryId(null);
+      setPreview(null);
+    }
+  }, [isOpen, library]);
+
+  const updateItem = (id: string, update: (item: LibraryMaterial) => LibraryMaterial) => {
+    setLocal(prev => ({ ...prev, items: prev.items.map(item => (item.id === id ? update(item) : item)) }));
+  };
+
+  const addItem = () => {
+    const item: LibraryMaterial = {
+      id: createId(),
+      name: '',
+      supplier: '',
+      unit: 'pcs',
+      unitCost: 0,
+      currency: defaultCurrency,
+      priceDate: todayIsoDate(),
+      priceHistory: [],
+      notes: '',
+    };
+    setLocal(prev => ({ ...prev, items: [...prev.items, item] }));
+  };
+
+  const removeItem = (item: LibraryMaterial) => {
+    // Linked rows keep their last price and simply stop following the catalog
+    if (window.confirm(`Remove "${item.name || 'this material'}" from the library? Costings that use it keep their current price.`)) {
+      setLocal(prev => ({ ...prev, items: prev.items.filter(i => i.id !== item.id) }));
+    }
+  };
+
+  const finish = (updateProjectIds: string[]) => {
+    onSave(local, updateProjectIds);
+    onClose();
+  };
+
+  const handleSave = () => {
+    const changes = previewLibraryUpdate(projects, local);
+    if (changes.length === 0) {
+      finish([]);
+      return;
+    }
+    setPreview(changes);
+    setSelectedIds(changes.map(c => c.projectId));
+  };
+
+  const toggleProject = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]));
+  };
+
+  if (!isOpen) return null;
+
+  const today = new Date();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="bg-indigo-900 text-white px-6 py-4 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-3">
+            <Library className="w-6 h-6 text-indigo-300" />
+            <div>
+              <h2 className="text-xl font-bold">Material Library</h2>
+              <p className="text-xs text-indigo-200 opacity-80">
+                Supplier prices shared by every costing on this device
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-indigo-300 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body (Scrollable) */}
+        <div className="p-6 overflow-y-auto flex-1 bg-slate-50">
+          {preview ? (
+            <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+              <h3 className="text-sm font-bold text-slate-700 mb-1">Update linked costings?</h3>
+              <p className="text-xs text-slate-500 mb-4">
+                These costings use library materials whose price changed. Pick the ones to update; the others keep their current prices.
+              </p>
+              <div className="space-y-3">
+                {preview.map(p => {
+                  const project = projects.find(pr => pr.id === p.projectId);
+                  const currency = project ? project.state.reportingCurrency : defaultCurrency;
+                  const delta = p.cogsAfter - p.cogsBefore;
+                  return (
+                    <label key={p.projectId} className="flex items-start gap-3 border border-slate-100 rounded p-3 cursor-pointer hover:bg-slate-50">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(p.projectId)}
+                        onChange={() => toggleProject(p.projectId)}
+                        className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between text-sm">
+                          <span className="font-semibold text-slate-800">{p.projectName}</span>
+                          <span className="font-mono text-xs text-slate-500">
+                            COGS {formatMoney(p.cogsBefore, currency)} → <strong className={delta > 0 ? 'text-red-600' : 'text-emerald-600'}>{formatMoney(p.cogsAfter, currency)}</strong>
+                          </span>
+                        </div>
+                        <ul className="mt-1 text-xs text-slate-500 space-y-0.5">
+                          {p.changes.map(c => (
+                            <li key={c.materialId} className="flex justify-between">
+                              <span>{c.name || 'Unnamed material'}</span>
+                              <span className="font-mono">
+                                {formatMoney(c.fromUnitCost, c.fromCurrency)}/{unitLabel(c.fromUnit)} → {formatMoney(c.toUnitCost, c.toCurrency)}/{unitLabel(c.toUnit)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="mb-4 flex items-center gap-2 text-xs text-slate-500">
+                Flag prices older than
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={local.staleAfterMonths}
+                  onChange={e => setLocal(prev => ({ ...prev, staleAfterMonths: Math.max(parseInt(e.target.value) || 1, 1) }))}
+                  className="w-16 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                />
+                months
+              </div>
+
+              <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-100 text-slate-500 font-semibold uppercase text-xs">
+                    <tr>
+                      <th className="px-4 py-3 w-56">Material</th>
+                      <th className="px-4 py-3 w-40">Supplier</th>
+                      <th className="px-4 py-3 w-20">Unit</th>
+                      <th className="px-4 py-3 w-32 text-right">Price</th>
+                      <th className="px-4 py-3 w-20">Currency</th>
+                      <th className="px-4 py-3 w-32">Quoted</th>
+                      <th className="px-4 py-3">Notes</th>
+                      <th className="px-4 py-3 w-16"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {local.items.length === 0 && (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-8 text-center text-slate-400 italic">
+                          The library is empty. Add materials here or save rows from the Material Manager.
+                        </td>
+                      </tr>
+                    )}
+                    {local.items.map(item => {
+                      const isStale = isPriceStale(item.priceDate, local.staleAfterMonths, today);
+                      const isHistoryOpen = historyId === item.id;
+                      return (
+                        <Fragment key={item.id}>
+                          <tr className="group hover:bg-slate-50 transition-colors">
+                            <td className="px-4 py-2">
+                              <input
+                                type="text"
+                                value={item.name}
+                                onChange={e => updateItem(item.id, i => ({ ...i, name: e.target.value }))}
+                                placeholder="e.g. Aluminum 6061"
+                                className={`${inputClass} text-slate-700 font-medium`}
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <input
+                                type="text"
+                                value={item.supplier}
+                                onChange={e => updateItem(item.id, i => ({ ...i, supplier: e.target.value }))}
+                                placeholder="Supplier"
+                                className={`${inputClass} text-slate-600`}
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <UnitSelect
+                                value={item.unit}
+                                onChange={unit => updateItem(item.id, i => ({ ...i, unit }))}
+                                className="w-full px-1 py-1.5 text-xs font-mono text-slate-600"
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={item.unitCost}
+                                onChange={e => updateItem(item.id, i => setLibraryPrice(i, Math.max(parseFloat(e.target.value) || 0, 0), todayIsoDate()))}
+                                className={`${inputClass} text-right font-mono text-slate-600`}
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <CurrencySelect
+                                value={item.currency}
+                                onChange={code => updateItem(item.id, i => ({ ...i, currency: code }))}
+                                className="w-full px-1 py-1.5 text-xs font-mono text-slate-600"
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <button
+                                onClick={() => setHistoryId(isHistoryOpen ? null : item.id)}
+                                title="Price history"
+                                className={`flex items-center gap-1 text-xs font-mono ${isStale ? 'text-amber-600' : 'text-slate-500'} hover:text-indigo-700`}
+                              >
+                                {isStale ? <AlertTriangle className="w-3 h-3" /> : <History className="w-3 h-3" />}
+                                {item.priceDate}
+                              </button>
+                            </td>
+                            <td className="px-4 py-2">
+                              <input
+                                type="text"
+                                value={item.notes}
+                                onChange={e => updateItem(item.id, i => ({ ...i, notes: e.target.value }))}
+                                placeholder="specs..."
+                                className="w-full border-transparent bg-transparent rounded px-2 py-1.5 focus:bg-white focus:border-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none text-xs text-slate-500"
+                              />
+                            </td>
+                            <td className="px-4 py-2 text-right">
+                              <button
+                                onClick={() => removeItem(item)}
+                                className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          </tr>
+                          {isHistoryOpen && (
+                            <tr className="bg-indigo-50/30">
+                              <td colSpan={8} className="px-4 py-3">
+                                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">Price History</div>
+                                <ul className="text-xs text-slate-500 space-y-0.5 max-w-xs">
+                                  <li className="flex justify-between font-bold text-indigo-800">
+                                    <span className="font-mono">{item.priceDate}</span>
+                                    <span className="font-mono">{formatMoney(item.unitCost, item.currency)}/{unitLabel(item.unit)}</span>
+                                  </li>
+                                  {[...item.priceHistory].reverse().map((point, index) => (
+                                    <li key={index} className="flex justify-between">
+                                      <span className="font-mono">{point.date}</span>
+                                      <span className="font-mono">{formatMoney(point.unitCost, item.currency)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                {item.priceHistory.length === 0 && (
+                                  <p className="mt-1 text-[10px] text-slate-400">No earlier prices recorded.</p>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <button
+                onClick={addItem}
+                className="mt-4 flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors px-2 py-1 rounded hover:bg-indigo-50 w-fit"
+              >
+                <Plus className="w-4 h-4" /> Add Library Material
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-200 px-6 py-4 flex justify-between items-center shrink-0">
+          {preview ? (
+            <>
+              <button
+                onClick={() => setPreview(null)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" /> Back
+              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => finish([])}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+                >
+                  Save Library Only
+                </button>
+                <button
+                  onClick={() => finish(selectedIds)}
+                  disabled={selectedIds.length === 0}
+                  className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" /> Save & Update {selectedIds.length} {selectedIds.length === 1 ? 'Costing' : 'Costings'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="text-slate-500 text-sm">
+                {local.items.length} {local.items.length === 1 ? 'material' : 'materials'}
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold"
+                >
+                  <Save className="w-4 h-4" /> Save Library
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,51 @@
-import React, { useState, useEffect } from 'react';
-import { X, Plus, Trash2, Save, Calculator, HelpCircle } from 'lucide-react';
-import { MaterialItem } from '../types';
+import React, { useState, useEffect, Fragment } from 'react';
+import {
+  X, Plus, Trash2, Save, Calculator, HelpCircle, FileUp, FileDown, Layers,
+  AlertTriangle, Link2, Unlink, RefreshCw, Library, Boxes, ChevronDown, ChevronRight, Edit3,
+} from 'lucide-react';
+import { CurrencySettings, LibraryMaterial, MaterialItem, MaterialLibrary, PriceTier } from '../types';
+import {
+  calculateMaterialCost,
+  costModeSwitchWarning,
+  materialBatchQuantity,
+  materialCostInReporting,
+  isCalculatedMaterial,
+  materialParentQuantities,
+  materialShare,
+  recalculateMaterials,
+  resolvePriceTier,
+  rollUpMaterialCosts,
+  setMaterialCostMode,
+  sumMaterialCosts,
+} from '../utils/costingEngine';
+import { exportMaterialsCsv } from '../utils/bomCsv';
+import { descendantIds, materialTree } from '../utils/bomTree';
+import { formatMoney } from '../utils/currency';
+import { downloadTextFile } from '../utils/download';
+import { createId } from '../utils/id';
+import {
+  canLinkMaterial,
+  createLibraryMaterial,
+  findLibraryMaterial,
+  isBehindLibrary,
+  isPriceStale,
+  linkMaterial,
+  todayIsoDate,
+} from '../utils/materialLibrary';
+import { materialUnitFactor, unitConversionFactor, unitLabel } from '../utils/units';
+import { BomImportPanel } from './BomImportPanel';
+import { CurrencySelect } from './CurrencySelect';
+import { UnitSelect } from './UnitSelect';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   materials: MaterialItem[];
   batchSize: number;
-  onSave: (updatedMaterials: MaterialItem[]) => void;
+  currencySettings: CurrencySettings;
+  library: MaterialLibrary;
+  // Library entries created with "Save to library" are handed over on save, never on cancel
+  onSave: (updatedMaterials: MaterialItem[], newLibraryEntries: LibraryMaterial[]) => void;
 }
 
 export const MaterialManagerModal: React.FC<Props> = ({
@@ -15,72 +53,210 @@ export const MaterialManagerModal: React.FC<Props> = ({
   onClose,
   materials,
   batchSize,
+  currencySettings,
+  library: savedLibrary,
   onSave,
 }) => {
   const [localMaterials, setLocalMaterials] = useState<MaterialItem[]>([]);
+  const [newLibraryEntries, setNewLibraryEntries] = useState<LibraryMaterial[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [tierEditorId, setTierEditorId] = useState<string | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
 
   // Sync local state when modal opens
   useEffect(() => {
     if (isOpen) {
       setLocalMaterials(JSON.parse(JSON.stringify(materials)));
+      setNewLibraryEntries([]);
+      setIsImporting(false);
+      setTierEditorId(null);
+      setCollapsedIds(new Set());
     }
   }, [isOpen, materials]);
 
-  const updateRow = (id: string, field: keyof MaterialItem, value: string | number) => {
-    setLocalMaterials((prev) =>
-      prev.map((item) => {
+  // Entries saved from this session can be linked and shown before they reach the store
+  const library: MaterialLibrary = { ...savedLibrary, items: [...savedLibrary.items, ...newLibraryEntries] };
+
+  // How many parents each row is multiplied by: the batch, or its sub-assembly's built quantity
+  const parentQuantities = materialParentQuantities(localMaterials, batchSize);
+
+  const updateRow = (id: string, field: keyof MaterialItem, value: string | number | PriceTier[] | null) => {
+    setLocalMaterials((prev) => {
+      const next = prev.map((item) => {
         if (item.id !== id) return item;
 
         const updatedItem = { ...item, [field]: value };
+        // A typed price is a fresh quote
+        if (field === 'unitCost') updatedItem.priceDate = todayIsoDate();
         
         // Auto-calculate Total Cost whenever inputs change
-        // Formula: ((Qty * BatchSize) + Buffer) * UnitCost
+        // Formula: ((Qty * ParentQuantity) + Buffer) * UnitFactor * UnitCost, UnitCost from the active price tier
         if (
+            isCalculatedMaterial(updatedItem) && !updatedItem.isAssembly && (
             field === 'qtyPerUnit' || 
             field === 'bufferUnits' || 
-            field === 'unitCost'
+            field === 'unitCost' ||
+            field === 'priceTiers' ||
+            field === 'consumptionUnit' ||
+            field === 'purchaseUnit')
         ) {
-            const qty = field === 'qtyPerUnit' ? Number(value) : item.qtyPerUnit;
-            const buff = field === 'bufferUnits' ? Number(value) : item.bufferUnits;
-            const uCost = field === 'unitCost' ? Number(value) : item.unitCost;
-            
-            updatedItem.cost = ((qty * batchSize) + buff) * uCost;
+            updatedItem.cost = calculateMaterialCost(
+              updatedItem.qtyPerUnit,
+              updatedItem.bufferUnits,
+              updatedItem.unitCost,
+              materialParentQuantities(prev, batchSize)[id],
+              updatedItem.priceTiers,
+              materialUnitFactor(updatedItem)
+            );
         }
 
         return updatedItem;
-      })
-    );
+      });
+      // Moving a row or resizing a sub-assembly changes how many of its parts the batch needs
+      const edited = next.find(m => m.id === id);
+      return field === 'parentId' || edited?.isAssembly ? recalculateMaterials(next, batchSize) : next;
+    });
+  };
+
+  // Calculated rows are re-quoted from their details, so confirm before a typed amount is lost
+  const toggleCostMode = (item: MaterialItem) => {
+    const costMode = isCalculatedMaterial(item) ? 'manual' : 'calculated';
+    const next = setMaterialCostMode(localMaterials, item.id, costMode, batchSize);
+    const warning = costModeSwitchWarning(item, next);
+    if (warning && !window.confirm(warning)) return;
+    setLocalMaterials(next);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const updateTier = (item: MaterialItem, index: number, field: keyof PriceTier, raw: string) => {
+    const value = Math.max(parseFloat(raw) || 0, 0);
+    updateRow(item.id, 'priceTiers', item.priceTiers.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const addTier = (item: MaterialItem) => {
+    // Suggest the next break above the current highest one
+    const highest = item.priceTiers.reduce((max, t) => Math.max(max, t.minQty), 0);
+    const quantity = materialBatchQuantity(item.qtyPerUnit, item.bufferUnits, parentQuantities[item.id], materialUnitFactor(item));
+    const minQty = highest > 0 ? highest * 2 : Math.max(Math.ceil(quantity), 1);
+    updateRow(item.id, 'priceTiers', [...item.priceTiers, { minQty, unitCost: item.unitCost }]);
+  };
+
+  const removeTier = (item: MaterialItem, index: number) => {
+    updateRow(item.id, 'priceTiers', item.priceTiers.filter((_, i) => i !== index));
   };
 
-  const addRow = () => {
-    const newId = Date.now().toString();
+  const addRow = (parentId: string | null = null, isAssembly = false) => {
+    if (parentId) setCollapsedIds(prev => new Set([...prev].filter(id => id !== parentId)));
     setLocalMaterials([
       ...localMaterials,
       {
-        id: newId,
+        id: createId(),
         name: '',
-        qtyPerUnit: 0,
+        // A sub-assembly is built once per parent unless changed
+        qtyPerUnit: isAssembly ? 1 : 0,
         bufferUnits: 0,
         unitCost: 0,
+        priceTiers: [],
+        consumptionUnit: 'pcs',
+        purchaseUnit: 'pcs',
         cost: 0,
+        // Priced from Qty and Unit Cost, like imported rows
+        costMode: 'calculated',
+        currency: currencySettings.reportingCurrency,
         notes: '',
+        libraryId: null,
+        priceDate: null,
+        parentId,
+        isAssembly,
       },
     ]);
   };
 
+  const linkRow = (id: string, libraryId: string) => {
+    const entry = findLibraryMaterial(library, libraryId);
+    if (!entry) return;
+    setLocalMaterials(prev => prev.map(m => (m.id === id ? linkMaterial(m, entry, parentQuantities[m.id]) : m)));
+  };
+
+  const unlinkRow = (id: string) => {
+    setLocalMaterials(prev => prev.map(m => (m.id === id ? { ...m, libraryId: null } : m)));
+  };
+
+  const saveToLibrary = (item: MaterialItem) => {
+    const entry = createLibraryMaterial(item, todayIsoDate());
+    setNewLibraryEntries(prev => [...prev, entry]);
+    setLocalMaterials(prev => prev.map(m => (m.id === item.id ? { ...m, libraryId: entry.id, priceDate: entry.priceDate } : m)));
+  };
+
+  // Removing a sub-assembly removes everything nested in it
   const removeRow = (id: string) => {
-    setLocalMaterials(localMaterials.filter((m) => m.id !== id));
+    const removed = descendantIds(localMaterials, id);
+    if (removed.size > 0 && !window.confirm(`Remove this sub-assembly and the ${removed.size} ${removed.size === 1 ? 'row' : 'rows'} inside it?`)) return;
+    removed.add(id);
+    setLocalMaterials(localMaterials.filter((m) => !removed.has(m.id)));
+  };
+
+  const handleImport = (imported: MaterialItem[], mode: 'append' | 'replace') => {
+    setLocalMaterials(mode === 'replace' ? imported : [...localMaterials, ...imported]);
+    setIsImporting(false);
+  };
+
+  const handleExportCsv = () => {
+    downloadTextFile('bill-of-materials.csv', exportMaterialsCsv(localMaterials, currencySettings), 'text/csv');
   };
 
   const handleSave = () => {
-    onSave(localMaterials);
+    // Store breaks in ascending order so the file reads like a supplier quote
+    onSave(
+      localMaterials.map((m) => ({ ...m, priceTiers: [...m.priceTiers].sort((a, b) => a.minQty - b.minQty) })),
+      newLibraryEntries
+    );
     onClose();
   };
 
-  const totalBatchCost = localMaterials.reduce((sum, m) => sum + m.cost, 0);
+  // Totals and shares are compared in the reporting currency
+  const totalBatchCost = sumMaterialCosts(localMaterials, currencySettings);
+  const rolledUp = rollUpMaterialCosts(localMaterials, currencySettings);
+  // Rows whose price cannot be converted from what they consume; saving is blocked until fixed
+  const unitMismatches = localMaterials.filter(m => !m.isAssembly && unitConversionFactor(m.consumptionUnit, m.purchaseUnit) === null);
+  const assemblies = localMaterials.filter(m => m.isAssembly);
 
-  const formatCurrency = (val: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(val);
+  // Tree order, skipping rows inside collapsed sub-assemblies
+  const hiddenIds = new Set<string>();
+  const visibleRows = materialTree(localMaterials).filter(({ item }) => {
+    if (item.parentId && (collapsedIds.has(item.parentId) || hiddenIds.has(item.parentId))) {
+      hiddenIds.add(item.id);
+      return false;
+    }
+    return true;
+  });
+
+  // "Part of" picker; a row cannot move under itself or anything nested in it
+  const renderParentSelect = (item: MaterialItem) => {
+    const excluded = descendantIds(localMaterials, item.id).add(item.id);
+    const options = assemblies.filter(a => !excluded.has(a.id));
+    if (options.length === 0 && item.parentId === null) return null;
+    return (
+      <select
+        value={item.parentId ?? ''}
+        onChange={(e) => updateRow(item.id, 'parentId', e.target.value || null)}
+        title="Sub-assembly this row is part of"
+        className="mt-1 w-full border-slate-200 rounded px-1 py-0.5 text-[10px] text-slate-500 bg-transparent outline-none focus:ring-1 focus:ring-indigo-500"
+      >
+        <option value="">Part of: finished product</option>
+        {options.map(a => (
+          <option key={a.id} value={a.id}>Part of: {a.name || 'Unnamed sub-assembly'}</option>
+        ))}
+      </select>
+    );
+  };
 
   if (!isOpen) return null;
 
@@ -106,6 +282,15 @@ export const MaterialManagerModal: React.FC<Props> = ({
 
         {/* Body (Scrollable) */}
         <div className="p-6 overflow-y-auto flex-1 bg-slate-50">
+          {isImporting && (
+            <BomImportPanel
+              batchSize={batchSize}
+              defaultCurrency={currencySettings.reportingCurrency}
+              onImport={handleImport}
+              onCancel={() => setIsImporting(false)}
+            />
+          )}
+
           <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
             <table className="w-full text-sm text-left">
               <thead className="bg-slate-100 text-slate-500 font-semibold uppercase text-xs">
@@ -114,7 +299,7 @@ export const MaterialManagerModal: React.FC<Props> = ({
                   <th className="px-4 py-3 w-32 text-right">
                     <div className="flex items-center justify-end gap-1">
                       Qty/Product
-                      <span title="Amount of material used for 1 single product" className="cursor-help"><HelpCircle className="w-3 h-3"/></span>
+                      <span title="Amount used for 1 single product, or for 1 of the sub-assembly it is part of" className="cursor-help"><HelpCircle className="w-3 h-3"/></span>
                     </div>
                   </th>
                   <th className="px-4 py-3 w-24 text-right">
@@ -123,7 +308,8 @@ export const MaterialManagerModal: React.FC<Props> = ({
                       <span title="Extra units added to the total batch for waste/safety" className="cursor-help"><HelpCircle className="w-3 h-3"/></span>
                     </div>
                   </th>
-                  <th className="px-4 py-3 w-32 text-right">Unit Cost ($)</th>
+                  <th className="px-4 py-3 w-32 text-right">Unit Cost</th>
+                  <th className="px-4 py-3 w-20">Currency</th>
                   <th className="px-4 py-3 w-32 text-right bg-indigo-50 text-indigo-800">Total Cost</th>
                   <th className="px-4 py-3 w-20 text-right text-slate-400">%</th>
                   <th className="px-4 py-3">Notes</th>
@@ -133,14 +319,113 @@ export const MaterialManagerModal: React.FC<Props> = ({
               <tbody className="divide-y divide-slate-100">
                 {localMaterials.length === 0 && (
                    <tr>
-                       <td colSpan={8} className="px-4 py-8 text-center text-slate-400 italic">
+                       <td colSpan={9} className="px-4 py-8 text-center text-slate-400 italic">
                            No materials added. Click "Add Material" to start.
                        </td>
                    </tr>
                 )}
-                {localMaterials.map((item) => (
-                  <tr key={item.id} className="group hover:bg-slate-50 transition-colors">
-                    <td className="px-4 py-2">
+                {visibleRows.map(({ item, depth }) => {
+                  const indent = { paddingLeft: 16 + depth * 20 };
+                  if (item.isAssembly) {
+                    const isCollapsed = collapsedIds.has(item.id);
+                    const builds = materialBatchQuantity(item.qtyPerUnit, item.bufferUnits, parentQuantities[item.id]);
+                    return (
+                      <tr key={item.id} className="group bg-slate-50/80 hover:bg-slate-100 transition-colors">
+                        <td className="py-2 pr-4" style={indent}>
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => toggleCollapsed(item.id)}
+                              title={isCollapsed ? 'Show parts' : 'Hide parts'}
+                              className="text-slate-400 hover:text-indigo-700"
+                            >
+                              {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </button>
+                            <Boxes className="w-4 h-4 shrink-0 text-indigo-500" />
+                            <input
+                              type="text"
+                              value={item.name}
+                              onChange={(e) => updateRow(item.id, 'name', e.target.value)}
+                              placeholder="e.g. Frame"
+                              className="w-full border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none text-slate-800 font-bold"
+                            />
+                          </div>
+                          {renderParentSelect(item)}
+                          <button
+                            onClick={() => addRow(item.id)}
+                            className="mt-1 flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800"
+                          >
+                            <Plus className="w-3 h-3" /> Add Part
+                          </button>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={item.qtyPerUnit}
+                            onChange={(e) => updateRow(item.id, 'qtyPerUnit', parseFloat(e.target.value) || 0)}
+                            className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                          />
+                          <div className="mt-1 text-right text-[10px] font-mono text-slate-400">{unitLabel('pcs')}</div>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={item.bufferUnits}
+                            onChange={(e) => updateRow(item.id, 'bufferUnits', parseFloat(e.target.value) || 0)}
+                            title="Extra sub-assemblies built for waste; their parts are added too"
+                            className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                          />
+                        </td>
+                        <td colSpan={2} className="px-4 py-2 text-right text-xs text-slate-500">
+                          Builds <strong className="text-slate-700">{builds.toLocaleString()}</strong>
+                          {builds > 0 && <> @ {formatMoney(rolledUp[item.id] / builds, currencySettings.reportingCurrency)}</>}
+                        </td>
+                        <td className="px-4 py-2 text-right font-bold text-indigo-700 bg-indigo-50/50">
+                          {formatMoney(rolledUp[item.id], currencySettings.reportingCurrency)}
+                        </td>
+                        <td className="px-4 py-2 text-right text-xs text-slate-400">
+                          {Math.round(materialShare(rolledUp[item.id], totalBatchCost) * 100)}%
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="text"
+                            value={item.notes || ''}
+                            onChange={(e) => updateRow(item.id, 'notes', e.target.value)}
+                            placeholder="specs..."
+                            className="w-full border-transparent bg-transparent rounded px-2 py-1.5 focus:bg-white focus:border-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none text-xs text-slate-500"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => removeRow(item.id)}
+                            className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  const unitFactor = unitConversionFactor(item.consumptionUnit, item.purchaseUnit);
+                  const quantity = materialBatchQuantity(item.qtyPerUnit, item.bufferUnits, parentQuantities[item.id], unitFactor ?? 1);
+                  const purchaseLabel = unitLabel(item.purchaseUnit);
+                  const tier = resolvePriceTier(item.unitCost, item.priceTiers, quantity);
+                  const hasTiers = item.priceTiers.length > 0;
+                  const isTierEditorOpen = tierEditorId === item.id;
+                  const linked = findLibraryMaterial(library, item.libraryId);
+                  const isStale = isPriceStale(item.priceDate, library.staleAfterMonths);
+                  const isCalculated = isCalculatedMaterial(item);
+                  // Details of a manual row are kept for reference and do not drive its cost
+                  const detailTone = isCalculated ? 'text-slate-600' : 'text-slate-400 bg-slate-50';
+
+                  return (
+                  <Fragment key={item.id}>
+                  <tr className="group hover:bg-slate-50 transition-colors">
+                    <td className="py-2 pr-4" style={indent}>
                       <input
                         type="text"
                         value={item.name}
@@ -148,6 +433,55 @@ export const MaterialManagerModal: React.FC<Props> = ({
                         placeholder="e.g. Aluminum Tube"
                         className="w-full border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none text-slate-700 font-medium"
                       />
+                      {linked ? (
+                        <div className="mt-1 flex items-center gap-2 text-[10px] font-bold text-indigo-600">
+                          <span className="flex items-center gap-1 truncate" title={`Linked to "${linked.name}" in the material library`}>
+                            <Link2 className="w-3 h-3 shrink-0" /> {linked.supplier || 'Library'}
+                          </span>
+                          {!canLinkMaterial(item, linked) ? (
+                            <span className="text-red-600" title={`The library sells this by ${unitLabel(linked.unit)}, which ${unitLabel(item.consumptionUnit)} cannot be converted to`}>
+                              Unit no longer matches
+                            </span>
+                          ) : isBehindLibrary(item, linked) && (
+                            <button
+                              onClick={() => linkRow(item.id, linked.id)}
+                              title="The library price changed since this row was priced"
+                              className="flex items-center gap-1 text-amber-600 hover:text-amber-800"
+                            >
+                              <RefreshCw className="w-3 h-3" /> Use {formatMoney(linked.unitCost, linked.currency)}/{unitLabel(linked.unit)}
+                            </button>
+                          )}
+                          <button onClick={() => unlinkRow(item.id)} title="Stop following the library price" className="text-slate-400 hover:text-red-500">
+                            <Unlink className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="mt-1 flex items-center gap-2 text-[10px]">
+                          {library.items.length > 0 && (
+                            <select
+                              value=""
+                              onChange={(e) => linkRow(item.id, e.target.value)}
+                              className="flex-1 min-w-0 border-slate-200 rounded px-1 py-0.5 text-slate-500 bg-transparent outline-none focus:ring-1 focus:ring-indigo-500"
+                            >
+                              <option value="">Link to library…</option>
+                              {library.items.map(entry => (
+                                <option key={entry.id} value={entry.id} disabled={!canLinkMaterial(item, entry)}>
+                                  {entry.name}{entry.supplier ? ` (${entry.supplier})` : ''}
+                                  {!canLinkMaterial(item, entry) && ` — sold by ${unitLabel(entry.unit)}`}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            onClick={() => saveToLibrary(item)}
+                            disabled={!item.name.trim()}
+                            className="flex items-center gap-1 font-bold text-slate-400 hover:text-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            <Library className="w-3 h-3" /> Save to library
+                          </button>
+                        </div>
+                      )}
+                      {renderParentSelect(item)}
                     </td>
                     <td className="px-4 py-2">
                       <input
@@ -156,7 +490,13 @@ export const MaterialManagerModal: React.FC<Props> = ({
                         step="0.01"
                         value={item.qtyPerUnit}
                         onChange={(e) => updateRow(item.id, 'qtyPerUnit', parseFloat(e.target.value) || 0)}
-                        className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                        className={`w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono ${detailTone}`}
+                      />
+                      <UnitSelect
+                        value={item.consumptionUnit}
+                        onChange={(unit) => updateRow(item.id, 'consumptionUnit', unit)}
+                        title="Unit the product consumes this material in"
+                        className="mt-1 w-full px-1 py-0.5 text-[10px] font-mono text-slate-500 text-right"
                       />
                     </td>
                     <td className="px-4 py-2">
@@ -166,8 +506,9 @@ export const MaterialManagerModal: React.FC<Props> = ({
                         step="1"
                         value={item.bufferUnits}
                         onChange={(e) => updateRow(item.id, 'bufferUnits', parseFloat(e.target.value) || 0)}
-                        className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                        className={`w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono ${detailTone}`}
                       />
+                      <div className="mt-1 text-right text-[10px] font-mono text-slate-400">{unitLabel(item.consumptionUnit)}</div>
                     </td>
                     <td className="px-4 py-2">
                       <input
@@ -176,14 +517,71 @@ export const MaterialManagerModal: React.FC<Props> = ({
                         step="0.01"
                         value={item.unitCost}
                         onChange={(e) => updateRow(item.id, 'unitCost', parseFloat(e.target.value) || 0)}
-                        className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                        className={`w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono ${detailTone}`}
+                      />
+                      <div className="mt-1 flex items-center justify-end gap-1 text-[10px] font-mono text-slate-400">
+                        per
+                        <UnitSelect
+                          value={item.purchaseUnit}
+                          onChange={(unit) => updateRow(item.id, 'purchaseUnit', unit)}
+                          compatibleWith={item.consumptionUnit}
+                          title="Unit the supplier prices this material in"
+                          className={`px-1 py-0.5 ${unitFactor === null ? 'text-red-600 border-red-300' : 'text-slate-500'}`}
+                        />
+                      </div>
+                      {unitFactor === null && (
+                        <div className="mt-1 text-right text-[10px] font-bold text-red-600">
+                          {purchaseLabel} can't be converted from {unitLabel(item.consumptionUnit)}
+                        </div>
+                      )}
+                      {isStale && (
+                        <div
+                          title={`Price quoted on ${item.priceDate}, more than ${library.staleAfterMonths} months ago`}
+                          className="mt-1 flex items-center justify-end gap-1 text-[10px] font-bold text-amber-600"
+                        >
+                          <AlertTriangle className="w-3 h-3" /> {item.priceDate}
+                        </div>
+                      )}
+                      <button
+                        onClick={() => setTierEditorId(isTierEditorOpen ? null : item.id)}
+                        title="Volume price breaks"
+                        className={`mt-1 w-full flex items-center justify-end gap-1 text-[10px] font-bold ${hasTiers ? 'text-indigo-600' : 'text-slate-400'} hover:text-indigo-800`}
+                      >
+                        <Layers className="w-3 h-3" />
+                        {hasTiers ? `@ ${formatMoney(tier.unitCost, item.currency)}` : 'Tiers'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2">
+                      <CurrencySelect
+                        value={item.currency}
+                        onChange={(code) => updateRow(item.id, 'currency', code)}
+                        className="w-full px-1 py-1.5 text-xs font-mono text-slate-600"
                       />
                     </td>
                     <td className="px-4 py-2 text-right font-bold text-indigo-700 bg-indigo-50/50">
-                      {formatCurrency(item.cost)}
+                      {isCalculated ? (
+                        formatMoney(item.cost, item.currency)
+                      ) : (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.cost}
+                          onChange={(e) => updateRow(item.id, 'cost', parseFloat(e.target.value) || 0)}
+                          title="Manual batch total"
+                          className="w-full text-right border-slate-200 rounded px-2 py-1.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-indigo-700 bg-white"
+                        />
+                      )}
+                      <button
+                        onClick={() => toggleCostMode(item)}
+                        title={isCalculated ? 'Type the batch total instead' : 'Calculate the batch total from quantity and unit cost'}
+                        className="mt-1 w-full flex items-center justify-end gap-1 text-[10px] font-bold text-slate-400 hover:text-indigo-700"
+                      >
+                        {isCalculated ? <><Calculator className="w-3 h-3" /> Calculated</> : <><Edit3 className="w-3 h-3" /> Manual</>}
+                      </button>
                     </td>
                     <td className="px-4 py-2 text-right text-xs text-slate-400">
-                      {totalBatchCost > 0 ? Math.round((item.cost / totalBatchCost) * 100) : 0}%
+                      {Math.round(materialShare(materialCostInReporting(item, currencySettings), totalBatchCost) * 100)}%
                     </td>
                     <td className="px-4 py-2">
                       <input
@@ -203,25 +601,129 @@ export const MaterialManagerModal: React.FC<Props> = ({
                       </button>
                     </td>
                   </tr>
-                ))}
+                  {isTierEditorOpen && (
+                    <tr className="bg-indigo-50/30">
+                      <td colSpan={9} className="px-4 py-3">
+                        <div className="flex flex-wrap items-start justify-between gap-4">
+                          <div className="space-y-1.5">
+                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                              Volume Price Breaks
+                            </div>
+                            <div className={`flex items-center gap-2 text-xs px-2 py-1 rounded ${tier.tierIndex === -1 ? 'bg-indigo-100 text-indigo-800 font-bold' : 'text-slate-500'}`}>
+                              <span className="w-40">Base price</span>
+                              <span className="font-mono">{formatMoney(item.unitCost, item.currency)}</span>
+                            </div>
+                            {item.priceTiers.map((t, index) => (
+                              <div
+                                key={index}
+                                className={`flex items-center gap-2 text-xs px-2 py-1 rounded ${tier.tierIndex === index ? 'bg-indigo-100 text-indigo-800 font-bold' : 'text-slate-500'}`}
+                              >
+                                <span className="flex items-center gap-1 w-40">
+                                  From
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={t.minQty}
+                                    onChange={(e) => updateTier(item, index, 'minQty', e.target.value)}
+                                    className="w-20 text-right border-slate-200 rounded px-1 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                                  />
+                                  {purchaseLabel}
+                                </span>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={t.unitCost}
+                                  onChange={(e) => updateTier(item, index, 'unitCost', e.target.value)}
+                                  className="w-24 text-right border-slate-200 rounded px-1 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                                />
+                                <button
+                                  onClick={() => removeTier(item, index)}
+                                  className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => addTier(item)}
+                              className="text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold flex items-center gap-1"
+                            >
+                              <Plus className="w-3 h-3" /> Add Break
+                            </button>
+                          </div>
+                          <div className="text-xs text-slate-500 text-right space-y-1">
+                            <div>
+                              Batch needs <strong className="text-slate-700">{quantity.toLocaleString()} {purchaseLabel}</strong>
+                            </div>
+                            <div>
+                              Active price: <strong className="text-indigo-700">{formatMoney(tier.unitCost, item.currency)}</strong>
+                            </div>
+                            {tier.nextBreak ? (
+                              <div className="text-emerald-600">
+                                {tier.unitsToNextBreak.toLocaleString()} more {purchaseLabel} to reach {formatMoney(tier.nextBreak.unitCost, item.currency)} at {tier.nextBreak.minQty.toLocaleString()}
+                              </div>
+                            ) : hasTiers && (
+                              <div className="text-slate-400">Best price break reached</div>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
           
-          <button
-            onClick={addRow}
-            className="mt-4 flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors px-2 py-1 rounded hover:bg-indigo-50 w-fit"
-          >
-            <Plus className="w-4 h-4" /> Add Material Row
-          </button>
+          <div className="mt-4 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => addRow()}
+                className="flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors px-2 py-1 rounded hover:bg-indigo-50 w-fit"
+              >
+                <Plus className="w-4 h-4" /> Add Material Row
+              </button>
+              <button
+                onClick={() => addRow(null, true)}
+                className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-indigo-700 transition-colors px-2 py-1 rounded hover:bg-indigo-50 w-fit"
+              >
+                <Boxes className="w-4 h-4" /> Add Sub-Assembly
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsImporting(true)}
+                className="flex items-center gap-2 text-xs font-semibold text-slate-500 hover:text-indigo-700 transition-colors px-2 py-1 rounded hover:bg-indigo-50"
+              >
+                <FileUp className="w-4 h-4" /> Import CSV
+              </button>
+              <button
+                onClick={handleExportCsv}
+                disabled={localMaterials.length === 0}
+                className="flex items-center gap-2 text-xs font-semibold text-slate-500 hover:text-indigo-700 transition-colors px-2 py-1 rounded hover:bg-indigo-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <FileDown className="w-4 h-4" /> Export CSV
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
         <div className="bg-white border-t border-slate-200 px-6 py-4 flex justify-between items-center shrink-0">
           <div className="text-slate-500 text-sm">
-            Total Batch Cost: <span className="text-slate-900 font-bold text-lg ml-2">{formatCurrency(totalBatchCost)}</span>
+            Total Batch Cost: <span className="text-slate-900 font-bold text-lg ml-2">{formatMoney(totalBatchCost, currencySettings.reportingCurrency)}</span>
           </div>
-          <div className="flex gap-3">
+          <div className="flex items-center gap-3">
+            {unitMismatches.length > 0 && (
+              <span className="flex items-center gap-1 text-xs font-bold text-red-600">
+                <AlertTriangle className="w-4 h-4" />
+                Fix the units on {unitMismatches.length} {unitMismatches.length === 1 ? 'row' : 'rows'} to save
+              </span>
+            )}
             <button
               onClick={onClose}
               className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
@@ -230,7 +732,8 @@ export const MaterialManagerModal: React.FC<Props> = ({
             </button>
             <button
               onClick={handleSave}
-              className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold"
+              disabled={unitMismatches.length > 0}
+              className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Save className="w-4 h-4" /> Save Changes
             </button>
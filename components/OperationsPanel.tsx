@@ -0,0 +1,105 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CurrencySettings, OperationItem } from '../types';
+import { calculateOperationCost, sumOperationCosts } from '../utils/costingEngine';
+import { formatMoney } from '../utils/currency';
+import { createId } from '../utils/id';
+import { CurrencySelect } from './CurrencySelect';
+
+interface Props {
+  operations: OperationItem[];
+  batchSize: number;
+  currencySettings: CurrencySettings;
+  onChange: (operations: OperationItem[]) => void;
+}
+
+const NUMBER_FIELDS: { field: 'minutesPerUnit' | 'setupMinutes' | 'hourlyRate'; label: string; title: string }[] = [
+  { field: 'minutesPerUnit', label: 'Min/Unit', title: 'Run time for 1 product unit' },
+  { field: 'setupMinutes', label: 'Setup Min', title: 'Charged once per batch' },
+  { field: 'hourlyRate', label: 'Rate/h', title: 'Labor or machine cost per hour' },
+];
+
+export const OperationsPanel: React.FC<Props> = ({
+  operations,
+  batchSize,
+  currencySettings,
+  onChange,
+}) => {
+  const updateRow = <K extends keyof OperationItem>(id: string, field: K, value: OperationItem[K]) => {
+    onChange(operations.map(op => (op.id === id ? { ...op, [field]: value } : op)));
+  };
+
+  const addRow = () => {
+    onChange([
+      ...operations,
+      {
+        id: createId(),
+        name: 'New Operation',
+        minutesPerUnit: 0,
+        setupMinutes: 0,
+        hourlyRate: 0,
+        currency: currencySettings.reportingCurrency,
+      },
+    ]);
+  };
+
+  const removeRow = (id: string) => {
+    onChange(operations.filter(op => op.id !== id));
+  };
+
+  const totalBatchLaborCost = sumOperationCosts(operations, batchSize, currencySettings);
+
+  return (
+    <div className="space-y-3 mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-medium text-slate-600">Labor &amp; Machine Time</label>
+        <span className="text-[10px] text-slate-400">
+          Batch: {formatMoney(totalBatchLaborCost, currencySettings.reportingCurrency)}
+        </span>
+      </div>
+
+      {operations.map((op) => (
+        <div key={op.id} className="p-2 rounded border border-slate-100 bg-slate-50/50 space-y-2">
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              value={op.name}
+              onChange={e => updateRow(op.id, 'name', e.target.value)}
+              placeholder="e.g. TIG Welding"
+              className="flex-1 min-w-0 text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+            />
+            <CurrencySelect
+              value={op.currency}
+              onChange={(code) => updateRow(op.id, 'currency', code)}
+              className="w-14 text-[10px] font-mono text-slate-500 py-1"
+            />
+            <button onClick={() => removeRow(op.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {NUMBER_FIELDS.map(({ field, label, title }) => (
+              <div key={field} title={title}>
+                <label className="text-[10px] text-slate-400 block">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={op[field]}
+                  onChange={e => updateRow(op.id, field, Math.max(parseFloat(e.target.value) || 0, 0))}
+                  className="w-full text-sm border-slate-200 rounded px-2 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="text-[10px] text-indigo-500 text-right">
+            {formatMoney(calculateOperationCost(op.minutesPerUnit, op.setupMinutes, op.hourlyRate, batchSize), op.currency)} / batch
+          </div>
+        </div>
+      ))}
+      <button onClick={addRow} className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium">
+        <Plus className="w-3 h-3" /> Add Operation
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { CurrencyCode, OverheadLine, ScenarioResult } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface Props {
+  overheadLines: OverheadLine[];
+  scenarios: ScenarioResult[];
+  currency: CurrencyCode;
+}
+
+const formatUnits = (units: number) => (units === Infinity ? '∞' : units.toFixed(1));
+
+// How many units per month each overhead line alone costs in every channel
+export const OverheadBreakEvenTable: React.FC<Props> = ({ overheadLines, scenarios, currency }) => {
+  if (overheadLines.length === 0 || scenarios.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-bold text-slate-800">Break-Even by Overhead Line</h3>
+        <p className="text-xs text-slate-400 mt-1">Units per month needed to cover each line, per channel</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase text-xs">
+            <tr>
+              <th className="px-6 py-3">Overhead</th>
+              <th className="px-6 py-3 text-right">Monthly</th>
+              <th className="px-6 py-3 text-right">Share</th>
+              {scenarios.map(s => (
+                <th key={s.id} className="px-4 py-3 text-right whitespace-nowrap">{s.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {overheadLines.map(line => (
+              <tr key={line.id} className="hover:bg-slate-50 transition-colors">
+                <td className="px-6 py-3 font-medium">{line.name}</td>
+                <td className="px-6 py-3 text-right">{formatMoney(line.monthlyAmount, currency)}</td>
+                <td className="px-6 py-3 text-right text-slate-400">{(line.share * 100).toFixed(0)}%</td>
+                {scenarios.map(s => (
+                  <td
+                    key={s.id}
+                    className={`px-4 py-3 text-right font-mono ${s.isProfitable ? 'text-slate-600' : 'text-red-600'}`}
+                  >
+                    {formatUnits(s.breakEvenByOverhead[line.id] ?? 0)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-indigo-50 text-indigo-700 font-bold">
+            <tr>
+              <td className="px-6 py-3" colSpan={3}>BEP (Units)</td>
+              {scenarios.map(s => (
+                <td key={s.id} className="px-4 py-3 text-right font-mono">
+                  {s.breakEvenUnits === Infinity ? 'FAIL' : s.breakEvenUnits}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
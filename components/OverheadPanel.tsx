@@ -0,0 +1,105 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { OVERHEAD_FREQUENCIES } from '../constants';
+import { CurrencySettings, OverheadFrequency, OverheadItem, OverheadLine } from '../types';
+import { currencySymbol, formatMoney } from '../utils/currency';
+import { createId } from '../utils/id';
+import { CurrencySelect } from './CurrencySelect';
+
+interface Props {
+  overheads: OverheadItem[];
+  overheadLines: OverheadLine[]; // Normalized figures from the kernel, same order as `overheads`
+  currencySettings: CurrencySettings;
+  onChange: (overheads: OverheadItem[]) => void;
+  title?: string;
+}
+
+export const OverheadPanel: React.FC<Props> = ({
+  overheads,
+  overheadLines,
+  currencySettings,
+  onChange,
+  title = 'Fixed Overhead',
+}) => {
+  const updateRow = <K extends keyof OverheadItem>(id: string, field: K, value: OverheadItem[K]) => {
+    onChange(overheads.map(item => (item.id === id ? { ...item, [field]: value } : item)));
+  };
+
+  const addRow = () => {
+    onChange([
+      ...overheads,
+      {
+        id: createId(),
+        name: 'New Overhead',
+        amount: 0,
+        frequency: 'monthly',
+        currency: currencySettings.reportingCurrency,
+      },
+    ]);
+  };
+
+  const removeRow = (id: string) => {
+    onChange(overheads.filter(item => item.id !== id));
+  };
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 border-b pb-1">{title}</h2>
+      <div className="space-y-3">
+        {overheads.map((item) => {
+          const line = overheadLines.find(l => l.id === item.id);
+          return (
+            <div key={item.id} className="space-y-1">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={e => updateRow(item.id, 'name', e.target.value)}
+                  placeholder="e.g. Studio Rent"
+                  className="flex-1 min-w-0 text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                />
+                <div className="relative w-24">
+                  <span className="absolute left-2 top-1.5 text-xs text-slate-400">{currencySymbol(item.currency)}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={item.amount}
+                    onChange={e => updateRow(item.id, 'amount', Math.max(parseFloat(e.target.value) || 0, 0))}
+                    className="w-full text-sm border-slate-200 rounded pl-5 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                  />
+                </div>
+                <button onClick={() => removeRow(item.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex gap-2 items-center text-[10px] text-slate-400">
+                <select
+                  value={item.frequency}
+                  onChange={e => updateRow(item.id, 'frequency', e.target.value as OverheadFrequency)}
+                  className="border-slate-200 rounded bg-transparent focus:ring-1 focus:ring-indigo-500 outline-none cursor-pointer text-slate-500 py-0.5"
+                >
+                  {OVERHEAD_FREQUENCIES.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                  ))}
+                </select>
+                <CurrencySelect
+                  value={item.currency}
+                  onChange={(code) => updateRow(item.id, 'currency', code)}
+                  className="w-14 font-mono text-slate-500 py-0.5"
+                />
+                <span className="flex-1 text-right">
+                  {item.frequency !== 'monthly' || item.currency !== currencySettings.reportingCurrency
+                    ? `= ${formatMoney(line?.monthlyAmount || 0, currencySettings.reportingCurrency)} / mo`
+                    : ''}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+        <button onClick={addRow} className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium">
+          <Plus className="w-3 h-3" /> Add Overhead Line
+        </button>
+      </div>
+    </section>
+  );
+};
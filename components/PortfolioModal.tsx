@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, LayoutGrid, Trash2, AlertTriangle } from 'lucide-react';
+import { ALLOCATION_RULES } from '../constants';
+import { AllocationRule, CurrencyCode, Portfolio, PortfolioItem, SavedProject } from '../types';
+import { computeOverheadLines } from '../utils/costingEngine';
+import { formatMoney, rebaseExchangeRates } from '../utils/currency';
+import { computePortfolio, createPortfolioItem } from '../utils/portfolio';
+import { CurrencySettingsPanel } from './CurrencySettingsPanel';
+import { OverheadPanel } from './OverheadPanel';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolio: Portfolio;
+  projects: SavedProject[];
+  onSave: (portfolio: Portfolio) => void;
+}
+
+const formatUnits = (units: number) => (units === Infinity ? '∞' : units.toLocaleString());
+
+export const PortfolioModal: React.FC<Props> = ({
+  isOpen,
+  onClose,
+  portfolio,
+  projects,
+  onSave,
+}) => {
+  const [local, setLocal] = useState<Portfolio>(portfolio);
+
+  // Sync local state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLocal(JSON.parse(JSON.stringify(portfolio)));
+    }
+  }, [isOpen, portfolio]);
+
+  const report = useMemo(() => computePortfolio(local, projects), [local, projects]);
+  const sharedLines = useMemo(() => computeOverheadLines(local.sharedOverheads, local), [local]);
+
+  const updateItem = (projectId: string, update: (item: PortfolioItem) => PortfolioItem) => {
+    setLocal(prev => ({
+      ...prev,
+      items: prev.items.map(item => (item.projectId === projectId ? update(item) : item)),
+    }));
+  };
+
+  const setPlannedUnits = (projectId: string, channelId: string, raw: string) => {
+    const units = Math.max(parseInt(raw) || 0, 0);
+    updateItem(projectId, item => ({ ...item, plannedUnits: { ...item.plannedUnits, [channelId]: units } }));
+  };
+
+  const setManualShare = (projectId: string, raw: string) => {
+    const value = parseFloat(raw);
+    const manualShare = isNaN(value) ? 0 : Math.min(Math.max(value, 0), 100) / 100;
+    updateItem(projectId, item => ({ ...item, manualShare }));
+  };
+
+  const addProduct = (projectId: string) => {
+    if (!projectId) return;
+    setLocal(prev => ({ ...prev, items: [...prev.items, createPortfolioItem(projectId)] }));
+  };
+
+  const removeProduct = (projectId: string) => {
+    setLocal(prev => ({ ...prev, items: prev.items.filter(item => item.projectId !== projectId) }));
+  };
+
+  // Overhead lines keep their own currency, so only the rates need rebasing
+  const changeCurrency = (code: CurrencyCode) => {
+    setLocal(prev => ({ ...prev, reportingCurrency: code, exchangeRates: rebaseExchangeRates(prev.exchangeRates, code) }));
+  };
+
+  const handleSave = () => {
+    onSave(local);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const money = (value: number) => formatMoney(value, local.reportingCurrency);
+  const availableProjects = projects.filter(p => !local.items.some(item => item.projectId === p.id));
+  const isManual = local.allocationRule === 'manual';
+  const allocationGap = Math.abs(report.allocationTotal - 1) > 0.0001 && report.products.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="bg-indigo-900 text-white px-6 py-4 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-3">
+            <LayoutGrid className="w-6 h-6 text-indigo-300" />
+            <div>
+              <h2 className="text-xl font-bold">Product Portfolio</h2>
+              <p className="text-xs text-indigo-200 opacity-80">
+                Shared overhead and a blended break-even for the planned monthly sales mix
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-indigo-300 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body (Scrollable) */}
+        <div className="p-6 overflow-y-auto flex-1 bg-slate-50">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+
+            {/* Settings */}
+            <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+              <section className="mb-8">
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 border-b pb-1">Overhead Allocation</h2>
+                <select
+                  value={local.allocationRule}
+                  onChange={e => setLocal(prev => ({ ...prev, allocationRule: e.target.value as AllocationRule }))}
+                  className="w-full text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+                >
+                  {ALLOCATION_RULES.map(rule => (
+                    <option key={rule.value} value={rule.value}>{rule.label}</option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2">
+                  {ALLOCATION_RULES.find(r => r.value === local.allocationRule)?.description}
+                </p>
+              </section>
+              <CurrencySettingsPanel
+                settings={local}
+                onReportingCurrencyChange={changeCurrency}
+                onRateChange={(code, rate) => setLocal(prev => ({ ...prev, exchangeRates: { ...prev.exchangeRates, [code]: rate } }))}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-4">
+              <OverheadPanel
+                title="Shared Overhead"
+                overheads={local.sharedOverheads}
+                overheadLines={sharedLines}
+                currencySettings={local}
+                onChange={(sharedOverheads) => setLocal(prev => ({ ...prev, sharedOverheads }))}
+              />
+              <div className="text-xs text-slate-500 flex justify-between border-t pt-3">
+                <span>Shared per month</span>
+                <span className="font-bold text-slate-800">{money(report.sharedOverhead)}</span>
+              </div>
+            </div>
+
+            {/* Blended result */}
+            <div className={`rounded-lg border shadow-sm p-4 flex flex-col gap-3 ${report.profit >= 0 ? 'bg-white border-slate-200' : 'bg-red-50 border-red-200'}`}>
+              <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider border-b pb-1">Blended Break-Even</h2>
+              <div>
+                <div className="text-3xl font-bold text-slate-800">
+                  {report.breakEvenUnits === Infinity ? 'FAIL' : report.breakEvenUnits.toLocaleString()}
+                </div>
+                <div className="text-xs text-slate-400">units/month at the planned mix</div>
+              </div>
+              <div className="text-xs text-slate-500 space-y-1">
+                <div className="flex justify-between"><span>Planned</span><span className="font-mono">{report.plannedUnits.toLocaleString()} units</span></div>
+                <div className="flex justify-between"><span>Blended margin/unit</span><span className="font-mono">{money(report.blendedMargin)}</span></div>
+                <div className="flex justify-between"><span>Fixed costs/month</span><span className="font-mono">{money(report.totalFixed)}</span></div>
+                <div className={`flex justify-between font-bold ${report.profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                  <span>Monthly profit</span><span className="font-mono">{money(report.profit)}</span>
+                </div>
+              </div>
+              {isManual && allocationGap && (
+                <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded text-[11px] text-amber-800">
+                  <AlertTriangle className="w-4 h-4 shrink-0 text-amber-500" />
+                  Manual shares add up to {(report.allocationTotal * 100).toFixed(1)}%, not 100%.
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Products and their planned mix */}
+          <div className="mt-6 space-y-4">
+            {report.products.map(product => {
+              const item = local.items.find(i => i.projectId === product.projectId)!;
+              return (
+                <div key={product.projectId} className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+                  <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex items-center justify-between gap-4">
+                    <span className="font-bold text-slate-800">{product.name}</span>
+                    <div className="flex items-center gap-4 text-xs text-slate-500">
+                      {isManual ? (
+                        <label className="flex items-center gap-1">
+                          Share
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            value={Number((item.manualShare * 100).toFixed(2))}
+                            onChange={e => setManualShare(product.projectId, e.target.value)}
+                            className="w-16 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none font-mono"
+                          />
+                          %
+                        </label>
+                      ) : (
+                        <span>Share {(product.allocationShare * 100).toFixed(1)}%</span>
+                      )}
+                      <button
+                        onClick={() => removeProduct(product.projectId)}
+                        className="text-slate-300 hover:text-red-500 transition-colors p-1"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-slate-500 font-semibold uppercase text-xs">
+                      <tr>
+                        <th className="px-4 py-2">Channel</th>
+                        <th className="px-4 py-2 text-right">Net Rev</th>
+                        <th className="px-4 py-2 text-right">Margin/Unit</th>
+                        <th className="px-4 py-2 w-36 text-right">Units/Month</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {product.channels.map(channel => (
+                        <tr key={channel.channelId} className={channel.grossMargin > 0 ? '' : 'text-red-600'}>
+                          <td className="px-4 py-1.5">{channel.name}</td>
+                          <td className="px-4 py-1.5 text-right font-mono">{money(channel.netRevenue)}</td>
+                          <td className="px-4 py-1.5 text-right font-mono">{money(channel.grossMargin)}</td>
+                          <td className="px-4 py-1.5 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={item.plannedUnits[channel.channelId] || 0}
+                              onChange={e => setPlannedUnits(product.projectId, channel.channelId, e.target.value)}
+                              className="w-24 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none font-mono text-slate-600"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+
+            {availableProjects.length > 0 && (
+              <select
+                value=""
+                onChange={e => addProduct(e.target.value)}
+                className="text-sm font-semibold text-indigo-600 border-slate-200 rounded px-2 py-1 bg-white focus:ring-1 focus:ring-indigo-500 outline-none cursor-pointer"
+              >
+                <option value="">+ Add product to portfolio…</option>
+                {availableProjects.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Summary */}
+          {report.products.length > 0 && (
+            <div className="mt-6 bg-white rounded-lg border border-slate-200 shadow-sm overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-100 text-slate-500 font-semibold uppercase text-xs">
+                  <tr>
+                    <th className="px-4 py-3">Product</th>
+                    <th className="px-4 py-3 text-right">Units</th>
+                    <th className="px-4 py-3 text-right">Revenue</th>
+                    <th className="px-4 py-3 text-right">Contribution</th>
+                    <th className="px-4 py-3 text-right">Own Overhead</th>
+                    <th className="px-4 py-3 text-right">Shared Overhead</th>
+                    <th className="px-4 py-3 text-right">Profit</th>
+                    <th className="px-4 py-3 text-right bg-indigo-50 text-indigo-700">BEP (Units)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.products.map(p => (
+                    <tr key={p.projectId}>
+                      <td className="px-4 py-2 font-medium">{p.name}</td>
+                      <td className="px-4 py-2 text-right font-mono">{p.plannedUnits.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right">{money(p.revenue)}</td>
+                      <td className="px-4 py-2 text-right">{money(p.contribution)}</td>
+                      <td className="px-4 py-2 text-right text-slate-500">{money(p.ownOverhead)}</td>
+                      <td className="px-4 py-2 text-right text-slate-500">{money(p.allocatedOverhead)}</td>
+                      <td className={`px-4 py-2 text-right font-bold ${p.profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{money(p.profit)}</td>
+                      <td className="px-4 py-2 text-right font-mono font-bold bg-indigo-50 text-indigo-700">{formatUnits(p.breakEvenUnits)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-slate-50 font-bold text-slate-800">
+                  <tr>
+                    <td className="px-4 py-3">Portfolio</td>
+                    <td className="px-4 py-3 text-right font-mono">{report.plannedUnits.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right">{money(report.revenue)}</td>
+                    <td className="px-4 py-3 text-right">{money(report.contribution)}</td>
+                    <td className="px-4 py-3 text-right" colSpan={2}>{money(report.totalFixed)}</td>
+                    <td className={`px-4 py-3 text-right ${report.profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{money(report.profit)}</td>
+                    <td className="px-4 py-3 text-right font-mono bg-indigo-50 text-indigo-700">{formatUnits(report.breakEvenUnits)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          {report.products.length === 0 && (
+            <p className="mt-4 text-sm text-slate-400 italic">
+              Add saved products to build the portfolio.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-white border-t border-slate-200 px-6 py-4 flex justify-end items-center gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-bold"
+          >
+            <Save className="w-4 h-4" /> Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { CurrencyCode, ScenarioResult } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface Props {
+  scenarios: ScenarioResult[];
+  publicPrice: number;
+  currency: CurrencyCode;
+  defaultChannelId?: string;
+}
+
+type StepKind = 'total' | 'deduction' | 'result';
+
+interface WaterfallStep {
+  label: string;
+  amount: number; // Signed: deductions are negative
+  range: [number, number]; // Where the floating bar sits
+  kind: StepKind;
+}
+
+// Each deduction floats from the running total down by its amount; price and profit
+// are anchored at zero.
+const buildSteps = (scenario: ScenarioResult, publicPrice: number): WaterfallStep[] => {
+  const deductions: [string, number][] = [
+    ['Discount', scenario.discountAmount],
+    // Tax only comes out of the price when the price includes it
+    ['Tax', publicPrice - scenario.discountAmount - scenario.netRevenue],
+    ['Royalty', scenario.royaltyAmount],
+    ['Commission', scenario.commissionAmount],
+    ['Fees', scenario.paymentFeeAmount + scenario.transactionFeeAmount],
+    ['Shipping', scenario.shippingAmount],
+    ['Packaging', scenario.packagingAmount],
+    ['Returns', scenario.returnsAmount],
+    ['Material', scenario.materialCost],
+    ['Labor', scenario.laborCost],
+    ['Setup', scenario.setupCost],
+    ['Waste Impact', scenario.wasteImpact],
+    ['Amortization', scenario.amortization],
+  ];
+
+  const steps: WaterfallStep[] = [{ label: 'Public Price', amount: publicPrice, range: [0, publicPrice], kind: 'total' }];
+  let running = publicPrice;
+  deductions
+    .filter(([, amount]) => Math.abs(amount) > 1e-9) // Hide steps that do not apply, e.g. no labor
+    .forEach(([label, amount]) => {
+      steps.push({ label, amount: -amount, range: [running - amount, running], kind: 'deduction' });
+      running -= amount;
+    });
+  steps.push({ label: 'Profit', amount: scenario.profit, range: [Math.min(0, scenario.profit), Math.max(0, scenario.profit)], kind: 'result' });
+  return steps;
+};
+
+const stepColor = (step: WaterfallStep) => {
+  if (step.kind === 'total') return '#6366f1';
+  if (step.kind === 'result') return step.amount > 0 ? '#10b981' : '#ef4444';
+  return '#f97316';
+};
+
+export const PriceWaterfallChart: React.FC<Props> = ({ scenarios, publicPrice, currency, defaultChannelId }) => {
+  const [channelId, setChannelId] = useState(defaultChannelId || scenarios[0]?.id || '');
+
+  // Fall back when the selected channel is deleted
+  const scenario = scenarios.find(s => s.id === channelId)
+    || scenarios.find(s => s.id === defaultChannelId)
+    || scenarios[0];
+  if (!scenario) return null;
+
+  const steps = buildSteps(scenario, publicPrice);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-indigo-600" />
+          Price Waterfall
+        </h3>
+        <select
+          value={scenario.id}
+          onChange={e => setChannelId(e.target.value)}
+          className="text-xs text-slate-500 border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+        >
+          {scenarios.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={steps} margin={{ left: 0, right: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} interval={0} />
+            <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <Tooltip
+              formatter={(_: unknown, __: unknown, item: { payload?: WaterfallStep }) =>
+                [formatMoney(item.payload?.amount || 0, currency), item.payload?.label]}
+              cursor={{ fill: 'transparent' }}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <ReferenceLine y={0} stroke="#cbd5e1" />
+            <Bar dataKey="range" radius={2} barSize={28}>
+              {steps.map((step, index) => (
+                <Cell key={`cell-${index}`} fill={stepColor(step)} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-xs text-slate-400 mt-2">
+        {formatMoney(publicPrice, currency)} list price keeps {formatMoney(scenario.profit, currency)} per unit
+        in {scenario.name} ({publicPrice > 0 ? ((scenario.profit / publicPrice) * 100).toFixed(1) : '0.0'}% of list).
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { X, Printer } from 'lucide-react';
+import { REPORT_SECTIONS } from '../constants';
+import { FinancialReport, FinancialState, ReportSection } from '../types';
+import { CostingSheet } from './CostingSheet';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  projectName: string;
+  state: FinancialState;
+  report: FinancialReport;
+}
+
+// The app shell hides itself when printing, so only the sheet below reaches paper.
+// "Save as PDF" in the browser's print dialog produces the PDF.
+export const PrintReportModal: React.FC<Props> = ({ isOpen, onClose, projectName, state, report }) => {
+  const [sections, setSections] = useState<ReportSection[]>(REPORT_SECTIONS.map(s => s.value));
+
+  if (!isOpen) return null;
+
+  const toggleSection = (section: ReportSection) => {
+    setSections(prev => (prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]));
+  };
+
+  const sheet = (
+    <CostingSheet projectName={projectName} generatedAt={new Date()} state={state} report={report} sections={sections} />
+  );
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm print:hidden">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <Printer className="w-5 h-5 text-indigo-600" />
+                Costing Sheet
+              </h2>
+              <p className="text-xs text-slate-500">Pick the sections to include, then print or save as PDF.</p>
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap gap-4 text-xs text-slate-600">
+            {REPORT_SECTIONS.map(s => (
+              <label key={s.value} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sections.includes(s.value)}
+                  onChange={() => toggleSection(s.value)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {s.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto bg-slate-100 p-6">
+            <div className="max-w-3xl mx-auto shadow-sm">{sheet}</div>
+          </div>
+
+          <div className="px-6 py-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800 transition-colors">
+              Close
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={sections.length === 0}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50"
+            >
+              <Printer className="w-4 h-4" /> Print / Save PDF
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="hidden print:block w-full">{sheet}</div>
+    </>
+  );
+};
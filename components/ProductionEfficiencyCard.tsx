@@ -1,33 +1,48 @@
 import React, { useMemo } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { AlertTriangle, TrendingUp, AlertOctagon } from 'lucide-react';
+import { CurrencyCode } from '../types';
+import { computeProductionMetrics } from '../utils/costingEngine';
+import { currencySymbol, formatMoney } from '../utils/currency';
 
 interface Props {
   batchSize: number;
   wasteCount: number;
   totalBatchMaterialCost: number;
+  totalBatchLaborCost: number;
+  totalBatchSetupCost: number;
   amortizationPerUnit: number;
   publicPrice: number;
+  currency: CurrencyCode;
   onWasteChange: (val: number) => void;
+  isReadOnly?: boolean;
 }
 
 export const ProductionEfficiencyCard: React.FC<Props> = ({
   batchSize,
   wasteCount,
   totalBatchMaterialCost,
+  totalBatchLaborCost,
+  totalBatchSetupCost,
   amortizationPerUnit,
   publicPrice,
+  currency,
   onWasteChange,
+  isReadOnly = false,
 }) => {
   // 1. State Logic
-  const yieldRate = batchSize > 0 ? (batchSize - wasteCount) / batchSize : 0;
-  const effectiveUnits = batchSize - wasteCount;
-  const currentUnitMatCost = effectiveUnits > 0 ? totalBatchMaterialCost / effectiveUnits : 0;
-  const currentTotalUnitCost = currentUnitMatCost + amortizationPerUnit;
+  const {
+    yieldRate,
+    effectiveUnits,
+    materialCostPerUnit: currentUnitMatCost,
+    laborCostPerUnit: currentUnitLaborCost,
+    setupCostPerUnit: currentUnitSetupCost,
+    costMultiplier: costIncreaseFactor,
+  } = computeProductionMetrics(batchSize, wasteCount, totalBatchMaterialCost, totalBatchLaborCost, totalBatchSetupCost);
+  const currentTotalUnitCost = currentUnitMatCost + currentUnitLaborCost + currentUnitSetupCost + amortizationPerUnit;
   
   // Prevent divide by zero / infinite cost visual
   const maxWaste = Math.max(0, batchSize - 1);
-  const costIncreaseFactor = yieldRate > 0 ? (1 / yieldRate) : 0;
 
   // 2. Panic State
   const isUnprofitable = currentTotalUnitCost > publicPrice;
@@ -37,9 +52,14 @@ export const ProductionEfficiencyCard: React.FC<Props> = ({
     const data = [];
     // Generate points from 0 waste up to batchSize - 1
     for (let i = 0; i < batchSize; i++) {
-      const eff = batchSize - i;
-      const matCost = totalBatchMaterialCost / eff;
-      const total = matCost + amortizationPerUnit;
+      const { materialCostPerUnit, laborCostPerUnit, setupCostPerUnit } = computeProductionMetrics(
+        batchSize,
+        i,
+        totalBatchMaterialCost,
+        totalBatchLaborCost,
+        totalBatchSetupCost
+      );
+      const total = materialCostPerUnit + laborCostPerUnit + setupCostPerUnit + amortizationPerUnit;
       
       data.push({
         waste: i,
@@ -48,7 +68,7 @@ export const ProductionEfficiencyCard: React.FC<Props> = ({
       });
     }
     return data;
-  }, [batchSize, totalBatchMaterialCost, amortizationPerUnit, publicPrice]);
+  }, [batchSize, totalBatchMaterialCost, totalBatchLaborCost, totalBatchSetupCost, amortizationPerUnit, publicPrice]);
 
   // Determine styles based on yield/profitability
   const cardBg = isUnprofitable ? 'bg-red-50 border-red-200' : 'bg-white border-slate-200';
@@ -108,8 +128,9 @@ export const ProductionEfficiencyCard: React.FC<Props> = ({
           max={maxWaste}
           step={1}
           value={wasteCount}
+          disabled={isReadOnly}
           onChange={(e) => onWasteChange(parseInt(e.target.value))}
-          className={`w-full h-2 rounded-lg appearance-none cursor-pointer bg-slate-200 ${sliderColor}`}
+          className={`w-full h-2 rounded-lg appearance-none cursor-pointer bg-slate-200 disabled:cursor-not-allowed disabled:opacity-60 ${sliderColor}`}
         />
         <div className="flex justify-between text-xs text-slate-400 mt-1">
           <span>0 (Perfect)</span>
@@ -124,7 +145,7 @@ export const ProductionEfficiencyCard: React.FC<Props> = ({
           <div>
             <h4 className="font-bold text-red-800 text-sm">Critical Warning</h4>
             <p className="text-xs text-red-700 mt-1">
-              Production cost (${currentTotalUnitCost.toFixed(2)}) exceeds sale price (${publicPrice.toFixed(2)}). 
+              Production cost ({formatMoney(currentTotalUnitCost, currency)}) exceeds sale price ({formatMoney(publicPrice, currency)}). 
               You are paying to sell this product. Reduce waste or increase prices.
             </p>
           </div>
@@ -151,11 +172,11 @@ export const ProductionEfficiencyCard: React.FC<Props> = ({
               hide={false} 
               domain={['auto', 'auto']} 
               tick={{fontSize: 10, fill: '#94a3b8'}}
-              tickFormatter={(val) => `$${val}`}
+              tickFormatter={(val) => `${currencySymbol(currency)}${val}`}
               width={35}
             />
             <Tooltip 
-              formatter={(value: number) => [`$${value.toFixed(2)}`, 'Unit Cost']}
+              formatter={(value: number) => [formatMoney(value, currency), 'Unit Cost']}
               labelFormatter={(label) => `Waste: ${label} units`}
               contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
             />
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FolderOpen, FilePlus, Copy, Pencil, Trash2, Check, X, LayoutGrid, Library } from 'lucide-react';
+import { SavedProject } from '../types';
+
+interface Props {
+  projects: SavedProject[];
+  activeProjectId: string;
+  lastSavedAt: string | null;
+  saveFailed: boolean; // The latest autosave could not write to browser storage
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onOpenPortfolio: () => void;
+  onOpenLibrary: () => void;
+}
+
+export const ProjectSwitcher: React.FC<Props> = ({
+  projects,
+  activeProjectId,
+  lastSavedAt,
+  saveFailed,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onOpenPortfolio,
+  onOpenLibrary,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: SavedProject) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (project: SavedProject) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center justify-between mb-4 border-b pb-1">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Projects</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onOpenPortfolio}
+            title="Combine products with shared overhead"
+            className="flex items-center gap-1 text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold transition-colors"
+          >
+            <LayoutGrid className="w-3 h-3" /> Portfolio
+          </button>
+          <button
+            onClick={onOpenLibrary}
+            title="Shared materials and supplier prices"
+            className="flex items-center gap-1 text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold transition-colors"
+          >
+            <Library className="w-3 h-3" /> Library
+          </button>
+          <button
+            onClick={() => onCreate(`Product ${projects.length + 1}`)}
+            className="flex items-center gap-1 text-[10px] bg-indigo-50 text-indigo-600 px-2 py-1 rounded hover:bg-indigo-100 font-bold transition-colors"
+          >
+            <FilePlus className="w-3 h-3" /> New
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {projects.map((project) => {
+          const isActive = project.id === activeProjectId;
+          const isEditing = project.id === editingId;
+
+          return (
+            <li
+              key={project.id}
+              className={`group flex items-center gap-2 rounded px-2 py-1.5 text-sm transition-colors
+                ${isActive ? 'bg-indigo-50 text-indigo-900 font-semibold' : 'text-slate-600 hover:bg-slate-50'}
+              `}
+            >
+              <FolderOpen className={`w-4 h-4 shrink-0 ${isActive ? 'text-indigo-500' : 'text-slate-300'}`} />
+              {isEditing ? (
+                <>
+                  <input
+                    autoFocus
+                    type="text"
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 text-sm border-slate-200 rounded px-1 py-0.5 focus:ring-1 focus:ring-indigo-500 outline-none bg-white"
+                  />
+                  <button onClick={commitRename} className="text-emerald-500 hover:text-emerald-700" title="Save name">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-300 hover:text-slate-500" title="Cancel">
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSwitch(project.id)}
+                    className="flex-1 min-w-0 text-left truncate"
+                    title={project.name}
+                  >
+                    {project.name}
+                  </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => startRename(project)} className="text-slate-300 hover:text-indigo-600" title="Rename">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="text-slate-300 hover:text-indigo-600" title="Duplicate">
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => handleDelete(project)} className="text-slate-300 hover:text-red-500" title="Delete">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {saveFailed ? (
+        <div className="text-[10px] text-red-600 text-right mt-2 font-medium">
+          Not saved: browser storage is full or turned off. Export a file to keep your changes.
+        </div>
+      ) : (
+        <div className="text-[10px] text-slate-400 text-right mt-2">
+          {lastSavedAt
+            ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}`
+            : 'Changes are saved in this browser'}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices, Plus, Play, Trash2 } from 'lucide-react';
+import { FinancialState, RiskRange, SimulationReport } from '../types';
+import { formatMoney } from '../utils/currency';
+import {
+  DEFAULT_SIMULATION_RUNS,
+  DEFAULT_SIMULATION_SEED,
+  riskTargetLabel,
+  riskTargetValue,
+  riskTargets,
+  runSimulation,
+} from '../utils/simulation';
+
+interface Props {
+  state: FinancialState;
+  onChangeRanges: (ranges: RiskRange[]) => void;
+  isReadOnly?: boolean; // Ranges can still be run, just not edited
+}
+
+const MAX_RUNS = 20000;
+
+// Monte Carlo over min / most likely / max ranges. Runs on demand because a few thousand
+// kernel passes are too slow to repeat on every keystroke.
+export const RiskSimulationPanel: React.FC<Props> = ({ state, onChangeRanges, isReadOnly = false }) => {
+  const [runs, setRuns] = useState(DEFAULT_SIMULATION_RUNS);
+  const [seed, setSeed] = useState(DEFAULT_SIMULATION_SEED);
+  const [result, setResult] = useState<{ source: FinancialState; report: SimulationReport } | null>(null);
+
+  const ranges = state.riskRanges;
+  const unusedTargets = riskTargets(state).filter(t => !ranges.some(r => r.target === t));
+
+  const addRange = () => {
+    const target = unusedTargets[0];
+    if (!target) return;
+    // Start from the current value ±10% so the new row is valid straight away
+    const value = riskTargetValue(state, target) || 0;
+    onChangeRanges([...ranges, { target, min: value * 0.9, mostLikely: value, max: value * 1.1 }]);
+  };
+
+  const updateRange = (index: number, field: keyof Omit<RiskRange, 'target'>, value: number) => {
+    onChangeRanges(ranges.map((r, i) => {
+      if (i !== index) return r;
+      const next = { ...r, [field]: Math.max(value, 0) };
+      // Keep min <= mostLikely <= max by pushing the neighbours along
+      if (field === 'min') { next.mostLikely = Math.max(next.mostLikely, next.min); next.max = Math.max(next.max, next.mostLikely); }
+      if (field === 'mostLikely') { next.min = Math.min(next.min, next.mostLikely); next.max = Math.max(next.max, next.mostLikely); }
+      if (field === 'max') { next.mostLikely = Math.min(next.mostLikely, next.max); next.min = Math.min(next.min, next.mostLikely); }
+      return next;
+    }));
+  };
+
+  const changeTarget = (index: number, target: string) => {
+    const value = riskTargetValue(state, target) || 0;
+    onChangeRanges(ranges.map((r, i) => (i === index ? { target, min: value * 0.9, mostLikely: value, max: value * 1.1 } : r)));
+  };
+
+  const removeRange = (index: number) => {
+    onChangeRanges(ranges.filter((_, i) => i !== index));
+  };
+
+  const handleRun = () => {
+    setResult({ source: state, report: runSimulation(state, { runs, seed }) });
+  };
+
+  const report = result?.report;
+  const isStale = result !== null && result.source !== state;
+  const money = (value: number) => formatMoney(value, state.reportingCurrency);
+  const chartData = report?.cogs.histogram.map(bin => ({
+    label: money((bin.from + bin.to) / 2),
+    count: bin.count,
+  })) || [];
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Dices className="w-5 h-5 text-indigo-600" />
+          Risk Simulation
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <label className="flex items-center gap-1">
+            Runs
+            <input
+              type="number"
+              min="100"
+              max={MAX_RUNS}
+              step="100"
+              value={runs}
+              onChange={e => setRuns(Math.min(Math.max(parseInt(e.target.value) || 100, 100), MAX_RUNS))}
+              className="w-20 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Seed
+            <input
+              type="number"
+              value={seed}
+              onChange={e => setSeed(parseInt(e.target.value) || 0)}
+              className="w-16 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+            />
+          </label>
+          <button
+            onClick={handleRun}
+            className="flex items-center gap-1 bg-indigo-600 text-white px-3 py-1 rounded font-bold hover:bg-indigo-700"
+          >
+            <Play className="w-3 h-3" /> Run
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-xs text-left mb-2">
+        <thead className="bg-slate-50 text-slate-500 font-semibold uppercase">
+          <tr>
+            <th className="px-3 py-2">Input</th>
+            <th className="px-3 py-2 text-right">Min</th>
+            <th className="px-3 py-2 text-right">Most Likely</th>
+            <th className="px-3 py-2 text-right">Max</th>
+            <th className="px-3 py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {ranges.map((range, index) => {
+            const exists = riskTargetValue(state, range.target) !== null;
+            return (
+              <tr key={range.target} className={exists ? '' : 'opacity-50'}>
+                <td className="px-3 py-1.5">
+                  <select
+                    value={range.target}
+                    disabled={isReadOnly}
+                    onChange={e => changeTarget(index, e.target.value)}
+                    className="border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 disabled:opacity-60"
+                  >
+                    {[range.target, ...unusedTargets].map(t => (
+                      <option key={t} value={t}>{riskTargetLabel(state, t)}</option>
+                    ))}
+                  </select>
+                  {!exists && <span className="ml-2 text-[10px] text-amber-600">Input removed — ignored</span>}
+                </td>
+                {(['min', 'mostLikely', 'max'] as const).map(field => (
+                  <td key={field} className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={Number(range[field].toFixed(2))}
+                      disabled={isReadOnly}
+                      onChange={e => updateRange(index, field, parseFloat(e.target.value) || 0)}
+                      className="w-20 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono disabled:opacity-60"
+                    />
+                  </td>
+                ))}
+                <td className="px-3 py-1.5 text-right">
+                  {!isReadOnly && (
+                    <button onClick={() => removeRange(index)} className="text-slate-300 hover:text-red-500 transition-colors">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {!isReadOnly && unusedTargets.length > 0 && (
+        <button onClick={addRange} className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium mb-4">
+          <Plus className="w-3 h-3" /> Add Range
+        </button>
+      )}
+
+      {!report && (
+        <p className="text-xs text-slate-400">
+          Add ranges for uncertain inputs, then run to see the spread of unit cost and channel profit.
+        </p>
+      )}
+
+      {report && (
+        <>
+          <p className="text-xs text-slate-400 mb-2">
+            {report.runs.toLocaleString()} runs, seed {report.seed}.
+            {isStale && <span className="text-amber-600 font-medium"> Inputs changed since this run — run again to refresh.</span>}
+          </p>
+
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {([['P10', report.cogs.p10], ['P50', report.cogs.p50], ['P90', report.cogs.p90]] as const).map(([label, value]) => (
+              <div key={label} className="bg-slate-50 rounded-lg p-3">
+                <div className="text-[10px] font-bold text-slate-400 uppercase">COGS {label}</div>
+                <div className="text-lg font-bold text-slate-800 font-mono">{money(value)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ left: 0, right: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} interval="preserveStartEnd" />
+                <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} allowDecimals={false} />
+                <Tooltip
+                  formatter={(val: number) => [`${val} runs`, 'COGS']}
+                  cursor={{ fill: 'transparent' }}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="count" fill="#6366f1" radius={[2, 2, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-slate-50 text-slate-500 font-semibold uppercase">
+                <tr>
+                  <th className="px-3 py-2">Channel</th>
+                  <th className="px-3 py-2 text-right">Profit P10</th>
+                  <th className="px-3 py-2 text-right">Profit P50</th>
+                  <th className="px-3 py-2 text-right">Profit P90</th>
+                  <th className="px-3 py-2 text-right">P(Unprofitable)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.channels.map(channel => (
+                  <tr key={channel.channelId}>
+                    <td className="px-3 py-1.5 font-medium text-slate-700">{channel.name}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{money(channel.profit.p10)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{money(channel.profit.p50)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{money(channel.profit.p90)}</td>
+                    <td className={`px-3 py-1.5 text-right font-mono font-bold ${channel.probabilityUnprofitable > 0.2 ? 'text-red-500' : channel.probabilityUnprofitable > 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
+                      {(channel.probabilityUnprofitable * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
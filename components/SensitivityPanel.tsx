@@ -0,0 +1,142 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { Activity } from 'lucide-react';
+import { FinancialState } from '../types';
+import { formatMoney } from '../utils/currency';
+import { computeSensitivity } from '../utils/sensitivity';
+
+interface Props {
+  state: FinancialState;
+  defaultChannelId?: string;
+}
+
+type Metric = 'profit' | 'breakEven';
+
+const formatUnits = (units: number) => (units === Infinity ? '∞' : units.toLocaleString());
+
+// Tornado chart: each bar shows how far the channel moves from its base when one input
+// goes down (left colour) or up (right colour) by the chosen step.
+export const SensitivityPanel: React.FC<Props> = ({ state, defaultChannelId }) => {
+  const [channelId, setChannelId] = useState(defaultChannelId || state.channels[0]?.id || '');
+  const [stepPercent, setStepPercent] = useState(10);
+  const [metric, setMetric] = useState<Metric>('profit');
+
+  // Fall back when the selected channel is deleted
+  const activeChannelId = state.channels.some(c => c.id === channelId)
+    ? channelId
+    : defaultChannelId || state.channels[0]?.id || '';
+
+  const report = useMemo(
+    () => computeSensitivity(state, activeChannelId, stepPercent / 100),
+    [state, activeChannelId, stepPercent]
+  );
+
+  // Bars are deltas from the base; an unreachable break-even has no finite delta to draw
+  const delta = (value: number, base: number) =>
+    Number.isFinite(value) && Number.isFinite(base) ? Number((value - base).toFixed(2)) : null;
+  const chartData = report.rows.map(row => ({
+    label: row.label,
+    low: metric === 'profit' ? delta(row.lowProfit, report.baseProfit) : delta(row.lowBreakEven, report.baseBreakEven),
+    high: metric === 'profit' ? delta(row.highProfit, report.baseProfit) : delta(row.highBreakEven, report.baseBreakEven),
+  }));
+
+  const formatValue = (value: number) =>
+    metric === 'profit' ? formatMoney(value, state.reportingCurrency) : `${value > 0 ? '+' : ''}${value} units`;
+
+  if (state.channels.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Activity className="w-5 h-5 text-indigo-600" />
+          Sensitivity
+        </h3>
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <select
+            value={activeChannelId}
+            onChange={e => setChannelId(e.target.value)}
+            className="border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+          >
+            {state.channels.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            ±
+            <input
+              type="number"
+              min="1"
+              max="90"
+              step="1"
+              value={stepPercent}
+              onChange={e => setStepPercent(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 90))}
+              className="w-14 text-right border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50 font-mono"
+            />
+            %
+          </label>
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(['profit', 'breakEven'] as Metric[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-2 py-1 font-bold ${metric === m ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                {m === 'profit' ? 'Profit' : 'Break-Even'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400 mb-2">
+        Base: {formatMoney(report.baseProfit, state.reportingCurrency)} profit/unit,
+        break-even {formatUnits(report.baseBreakEven)} units/month. Ranked by profit swing.
+      </p>
+
+      <div className="w-full" style={{ height: Math.max(200, chartData.length * 36) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 40, right: 20 }} barGap={-14}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+            <XAxis type="number" tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <YAxis dataKey="label" type="category" tick={{ fontSize: 11, fill: '#64748b' }} width={120} interval={0} />
+            <Tooltip
+              formatter={(val: number) => formatValue(val)}
+              cursor={{ fill: 'transparent' }}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <ReferenceLine x={0} stroke="#94a3b8" />
+            <Bar dataKey="low" name={`Input −${stepPercent}%`} fill="#f97316" barSize={14} radius={2} />
+            <Bar dataKey="high" name={`Input +${stepPercent}%`} fill="#6366f1" barSize={14} radius={2} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase">
+            <tr>
+              <th className="px-3 py-2">Input</th>
+              <th className="px-3 py-2 text-right">Profit −{stepPercent}%</th>
+              <th className="px-3 py-2 text-right">Profit +{stepPercent}%</th>
+              <th className="px-3 py-2 text-right">BEP −{stepPercent}%</th>
+              <th className="px-3 py-2 text-right">BEP +{stepPercent}%</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {report.rows.map(row => (
+              <tr key={row.id}>
+                <td className="px-3 py-1.5 font-medium text-slate-700">{row.label}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{formatMoney(row.lowProfit, state.reportingCurrency)}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{formatMoney(row.highProfit, state.reportingCurrency)}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{formatUnits(row.lowBreakEven)}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{formatUnits(row.highBreakEven)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
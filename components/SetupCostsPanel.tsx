@@ -0,0 +1,85 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CostItem, CurrencySettings } from '../types';
+import { currencySymbol, formatMoney, toReportingCurrency } from '../utils/currency';
+import { createId } from '../utils/id';
+import { CurrencySelect } from './CurrencySelect';
+
+interface Props {
+  setupCosts: CostItem[];
+  effectiveUnits: number;
+  currencySettings: CurrencySettings;
+  onChange: (setupCosts: CostItem[]) => void;
+}
+
+// Fixed costs paid again for every batch (tool changeover, first-article QA, cleaning)
+export const SetupCostsPanel: React.FC<Props> = ({
+  setupCosts,
+  effectiveUnits,
+  currencySettings,
+  onChange,
+}) => {
+  const updateRow = <K extends keyof CostItem>(id: string, field: K, value: CostItem[K]) => {
+    onChange(setupCosts.map(item => (item.id === id ? { ...item, [field]: value } : item)));
+  };
+
+  const addRow = () => {
+    onChange([
+      ...setupCosts,
+      { id: createId(), name: 'New Setup Cost', amount: 0, currency: currencySettings.reportingCurrency },
+    ]);
+  };
+
+  const removeRow = (id: string) => {
+    onChange(setupCosts.filter(item => item.id !== id));
+  };
+
+  const totalBatchSetupCost = setupCosts.reduce(
+    (acc, item) => acc + toReportingCurrency(item.amount, item.currency, currencySettings),
+    0
+  );
+
+  return (
+    <div className="space-y-3 mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs font-medium text-slate-600">Setup Costs per Batch</label>
+        <span className="text-[10px] text-slate-400">
+          {formatMoney(effectiveUnits > 0 ? totalBatchSetupCost / effectiveUnits : 0, currencySettings.reportingCurrency)} / unit
+        </span>
+      </div>
+
+      {setupCosts.map((item) => (
+        <div key={item.id} className="flex gap-2 items-center">
+          <input
+            type="text"
+            value={item.name}
+            onChange={e => updateRow(item.id, 'name', e.target.value)}
+            placeholder="e.g. Tool Changeover"
+            className="flex-1 min-w-0 text-sm border-slate-200 rounded px-2 py-1 focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+          />
+          <div className="relative w-24">
+            <span className="absolute left-2 top-1.5 text-xs text-slate-400">{currencySymbol(item.currency)}</span>
+            <input
+              type="number"
+              min="0"
+              value={item.amount}
+              onChange={e => updateRow(item.id, 'amount', Math.max(parseFloat(e.target.value) || 0, 0))}
+              className="w-full text-sm border-slate-200 rounded pl-5 py-1 text-right focus:ring-1 focus:ring-indigo-500 outline-none bg-slate-50"
+            />
+          </div>
+          <CurrencySelect
+            value={item.currency}
+            onChange={(code) => updateRow(item.id, 'currency', code)}
+            className="w-14 text-[10px] font-mono text-slate-500 py-1"
+          />
+          <button onClick={() => removeRow(item.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button onClick={addRow} className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium">
+        <Plus className="w-3 h-3" /> Add Setup Cost
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface Props {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  className?: string;
+}
+
+export const UndoRedoButtons: React.FC<Props> = ({ canUndo, canRedo, onUndo, onRedo, className = '' }) => (
+  <div className={`flex items-center gap-1 ${className}`}>
+    <button
+      type="button"
+      onClick={onUndo}
+      disabled={!canUndo}
+      title="Undo (Ctrl+Z)"
+      className="p-1.5 rounded transition-colors hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+    >
+      <Undo2 className="w-4 h-4" />
+    </button>
+    <button
+      type="button"
+      onClick={onRedo}
+      disabled={!canRedo}
+      title="Redo (Ctrl+Shift+Z)"
+      className="p-1.5 rounded transition-colors hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+    >
+      <Redo2 className="w-4 h-4" />
+    </button>
+  </div>
+);
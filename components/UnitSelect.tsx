@@ -0,0 +1,31 @@
+import React from 'react';
+import { MEASURE_UNITS } from '../constants';
+import { MeasureUnit } from '../types';
+import { areUnitsCompatible } from '../utils/units';
+
+interface Props {
+  value: MeasureUnit;
+  onChange: (unit: MeasureUnit) => void;
+  compatibleWith?: MeasureUnit; // Disables units that cannot be converted to/from this one
+  className?: string;
+  title?: string;
+}
+
+export const UnitSelect: React.FC<Props> = ({ value, onChange, compatibleWith, className = '', title }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as MeasureUnit)}
+    title={title}
+    className={`border-slate-200 rounded bg-transparent focus:ring-1 focus:ring-indigo-500 outline-none cursor-pointer ${className}`}
+  >
+    {MEASURE_UNITS.map((u) => (
+      <option
+        key={u.value}
+        value={u.value}
+        disabled={compatibleWith !== undefined && !areUnitsCompatible(compatibleWith, u.value)}
+      >
+        {u.label}
+      </option>
+    ))}
+  </select>
+);
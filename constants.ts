@@ -1,4 +1,82 @@
-import { SalesScenario, FinancialState } from './types';
+import {
+  SalesScenario,
+  FinancialState,
+  CurrencyInfo,
+  OverheadFrequency,
+  AllocationRule,
+  ReportSection,
+  MeasureUnit,
+  MeasureDimension,
+} from './types';
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', name: 'US Dollar', locale: 'en-US' },
+  { code: 'EUR', name: 'Euro', locale: 'es-ES' },
+  { code: 'MXN', name: 'Mexican Peso', locale: 'es-MX' },
+  { code: 'GBP', name: 'British Pound', locale: 'en-GB' },
+  { code: 'CAD', name: 'Canadian Dollar', locale: 'en-CA' },
+];
+
+// Starting point only: 1 unit of each currency expressed in USD. Users edit these per project.
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  MXN: 0.055,
+  GBP: 1.27,
+  CAD: 0.73,
+};
+
+export const OVERHEAD_FREQUENCIES: { value: OverheadFrequency; label: string; months: number }[] = [
+  { value: 'monthly', label: 'Monthly', months: 1 },
+  { value: 'quarterly', label: 'Quarterly', months: 3 },
+  { value: 'annual', label: 'Annual', months: 12 },
+];
+
+// `toBase` converts one unit into its dimension's base unit (kg, m, m², L, pcs)
+export const MEASURE_UNITS: { value: MeasureUnit; label: string; dimension: MeasureDimension; toBase: number }[] = [
+  { value: 'pcs', label: 'pcs', dimension: 'count', toBase: 1 },
+  { value: 'g', label: 'g', dimension: 'mass', toBase: 0.001 },
+  { value: 'kg', label: 'kg', dimension: 'mass', toBase: 1 },
+  { value: 'mm', label: 'mm', dimension: 'length', toBase: 0.001 },
+  { value: 'm', label: 'm', dimension: 'length', toBase: 1 },
+  { value: 'm2', label: 'm²', dimension: 'area', toBase: 1 },
+  { value: 'L', label: 'L', dimension: 'volume', toBase: 1 },
+];
+
+// Library prices older than this are flagged as stale unless the user picks another limit
+export const DEFAULT_STALE_AFTER_MONTHS = 6;
+
+// Printable costing sheet, in print order
+export const REPORT_SECTIONS: { value: ReportSection; label: string }[] = [
+  { value: 'development', label: 'Development & Amortization' },
+  { value: 'materials', label: 'Material BOM' },
+  { value: 'production', label: 'Yield & Unit Cost' },
+  { value: 'channels', label: 'Channel Survival Table' },
+];
+
+// How a portfolio splits shared overhead across its products
+export const ALLOCATION_RULES: { value: AllocationRule; label: string; description: string }[] = [
+  { value: 'revenue', label: 'Revenue Share', description: 'Products that bring in more money carry more overhead' },
+  { value: 'units', label: 'Unit Share', description: 'Every unit sold carries the same overhead' },
+  { value: 'manual', label: 'Manual %', description: 'Set each product\'s share yourself' },
+];
+
+// Cash-flow projection horizon limits, in months
+export const DEFAULT_CASH_FLOW_MONTHS = 12;
+export const MAX_CASH_FLOW_MONTHS = 60;
+
+// Channel cost fields for a channel with no variable selling costs
+export const NO_CHANNEL_COSTS: Pick<
+  SalesScenario,
+  'paymentFeePercent' | 'transactionFee' | 'unitsPerTransaction' | 'shippingCost' | 'packagingCost' | 'returnRate'
+> = {
+  paymentFeePercent: 0,
+  transactionFee: 0,
+  unitsPerTransaction: 1,
+  shippingCost: 0,
+  packagingCost: 0,
+  returnRate: 0,
+};
 
 export const DEFAULT_SCENARIOS: SalesScenario[] = [
   { 
@@ -6,20 +84,27 @@ export const DEFAULT_SCENARIOS: SalesScenario[] = [
     name: 'Direct Sale', 
     discountPercent: 0, 
     commissionPercent: 0,
+    discountBeforeTax: false,
+    ...NO_CHANNEL_COSTS,
     description: 'Direct to consumer (Website)'
   },
   { 
     id: 'card', 
     name: 'Card Sale', 
-    discountPercent: 0.035, 
+    discountPercent: 0, 
     commissionPercent: 0,
-    description: 'Processing fees included'
+    discountBeforeTax: false,
+    ...NO_CHANNEL_COSTS,
+    paymentFeePercent: 0.035,
+    description: 'Card processing fee'
   },
   { 
     id: 'specifier', 
     name: 'Architect/Specifier', 
     discountPercent: 0.15, 
     commissionPercent: 0,
+    discountBeforeTax: true,
+    ...NO_CHANNEL_COSTS,
     description: 'Trade discount'
   },
   { 
@@ -27,6 +112,8 @@ export const DEFAULT_SCENARIOS: SalesScenario[] = [
     name: 'Retail Store', 
     discountPercent: 0.50, 
     commissionPercent: 0,
+    discountBeforeTax: true,
+    ...NO_CHANNEL_COSTS,
     description: 'Standard wholesale'
   },
   { 
@@ -34,6 +121,8 @@ export const DEFAULT_SCENARIOS: SalesScenario[] = [
     name: 'Distributor', 
     discountPercent: 0.60, 
     commissionPercent: 0,
+    discountBeforeTax: true,
+    ...NO_CHANNEL_COSTS,
     description: 'Volume partner'
   },
   { 
@@ -41,30 +130,48 @@ export const DEFAULT_SCENARIOS: SalesScenario[] = [
     name: 'Sales Agent', 
     discountPercent: 0.50, 
     commissionPercent: 0.025,
+    discountBeforeTax: true,
+    ...NO_CHANNEL_COSTS,
     description: 'Wholesale + Commission'
   },
 ];
 
 export const INITIAL_STATE: FinancialState = {
   devCosts: [
-    { id: '1', name: 'Industrial Design', amount: 5000 },
-    { id: '2', name: 'Prototyping', amount: 1200 },
-    { id: '3', name: 'Tooling', amount: 3500 },
+    { id: '1', name: 'Industrial Design', amount: 5000, currency: 'USD' },
+    { id: '2', name: 'Prototyping', amount: 1200, currency: 'USD' },
+    { id: '3', name: 'Tooling', amount: 3500, currency: 'USD' },
   ],
   amortizationQty: 1000,
   batchSize: 50,
   wasteCount: 2,
   materials: [
     // Initializing with simplified values implies 0 quantity logic, treated as manual lump sum override initially
-    { id: '1', name: 'Aluminum 6061', cost: 250, qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, notes: 'Manual entry' },
-    { id: '2', name: 'Packaging', cost: 50, qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, notes: 'Manual entry' },
-    { id: '3', name: 'Powder Coating', cost: 150, qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, notes: 'Manual entry' },
+    { id: '1', name: 'Aluminum 6061', cost: 250, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, currency: 'USD', priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', notes: 'Manual entry', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    { id: '2', name: 'Packaging', cost: 50, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, currency: 'USD', priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', notes: 'Manual entry', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    { id: '3', name: 'Powder Coating', cost: 150, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, currency: 'USD', priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', notes: 'Manual entry', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
   ],
+  operations: [],
+  setupCosts: [],
   publicPrice: 85.00,
-  fixedMonthlyExpenses: 2500,
+  tax: { rate: 0, priceIncludesTax: true },
+  overheads: [
+    { id: '1', name: 'Studio Rent', amount: 1500, frequency: 'monthly', currency: 'USD' },
+    { id: '2', name: 'Software Licenses', amount: 1200, frequency: 'quarterly', currency: 'USD' },
+    { id: '3', name: 'Insurance', amount: 1200, frequency: 'annual', currency: 'USD' },
+    { id: '4', name: 'Marketing', amount: 500, frequency: 'monthly', currency: 'USD' },
+  ],
   designerRoyaltyPercent: 0.05,
-  customScenarios: DEFAULT_SCENARIOS.map(s => ({
-    id: s.id,
-    discountPercent: s.discountPercent
-  }))
+  channels: DEFAULT_SCENARIOS.map(s => ({ ...s })),
+  riskRanges: [],
+  cashFlow: {
+    horizonMonths: DEFAULT_CASH_FLOW_MONTHS,
+    batchesByMonth: Array(DEFAULT_CASH_FLOW_MONTHS).fill(2),
+    salesByChannel: {
+      direct: Array(DEFAULT_CASH_FLOW_MONTHS).fill(40),
+      retail: Array(DEFAULT_CASH_FLOW_MONTHS).fill(40),
+    },
+  },
+  reportingCurrency: 'USD',
+  exchangeRates: { ...DEFAULT_EXCHANGE_RATES },
 };
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback, useRef, SetStateAction } from 'react';
+import { INITIAL_STATE } from '../constants';
+import { FinancialState, MaterialLibrary, Portfolio, ProjectStore, SavedProject } from '../types';
+import {
+  createDefaultStore,
+  createProject,
+  loadProjectStore,
+  saveProjectStore,
+} from '../utils/projectStorage';
+import {
+  UndoHistory,
+  changeGroup,
+  createHistory,
+  recordChange,
+  redo as redoHistory,
+  undo as undoHistory,
+} from '../utils/history';
+import { prunePortfolio } from '../utils/portfolio';
+import { applyLibraryPrices } from '../utils/materialLibrary';
+
+const AUTOSAVE_DELAY_MS = 400;
+
+const findActive = (store: ProjectStore): SavedProject =>
+  store.projects.find(p => p.id === store.activeProjectId) || store.projects[0];
+
+const withProjectState = (store: ProjectStore, id: string, state: FinancialState): ProjectStore => ({
+  ...store,
+  projects: store.projects.map(p =>
+    p.id === id ? { ...p, state, updatedAt: new Date().toISOString() } : p
+  ),
+});
+
+export const useProjects = () => {
+  const [store, setStore] = useState<ProjectStore>(loadProjectStore);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  // Latest store, updated eagerly so several edits in one event build on each other
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  // Undo stacks live in memory only, one per project
+  const historiesRef = useRef<Record<string, UndoHistory<FinancialState>>>({});
+  const historyFor = (id: string) => historiesRef.current[id] || createHistory<FinancialState>();
+
+  const commit = useCallback((update: (prev: ProjectStore) => ProjectStore) => {
+    const next = update(storeRef.current);
+    storeRef.current = next;
+    setStore(next);
+  }, []);
+
+  // Autosave: debounce so a burst of keystrokes results in a single write
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const saved = saveProjectStore(store);
+      setSaveFailed(!saved);
+      if (saved) setLastSavedAt(new Date().toISOString());
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [store]);
+
+  const activeProject = findActive(store);
+  const activeHistory = historyFor(activeProject.id);
+
+  // Drop-in replacement for useState's setter, scoped to the active project and recorded for undo
+  const setState = useCallback((action: SetStateAction<FinancialState>) => {
+    commit(prev => {
+      const project = findActive(prev);
+      const next = typeof action === 'function' ? action(project.state) : action;
+      if (next === project.state) return prev;
+
+      historiesRef.current[project.id] = recordChange(
+        historyFor(project.id),
+        project.state,
+        changeGroup(project.state, next),
+        Date.now()
+      );
+      return withProjectState(prev, project.id, next);
+    });
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    commit(prev => {
+      const project = findActive(prev);
+      const step = undoHistory(historyFor(project.id), project.state);
+      if (!step) return prev;
+      historiesRef.current[project.id] = step.history;
+      return withProjectState(prev, project.id, step.value);
+    });
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    commit(prev => {
+      const project = findActive(prev);
+      const step = redoHistory(historyFor(project.id), project.state);
+      if (!step) return prev;
+      historiesRef.current[project.id] = step.history;
+      return withProjectState(prev, project.id, step.value);
+    });
+  }, [commit]);
+
+  const switchProject = useCallback((id: string) => {
+    commit(prev => prev.projects.some(p => p.id === id) ? { ...prev, activeProjectId: id } : prev);
+  }, [commit]);
+
+  const addProject = useCallback((name: string, state: FinancialState = INITIAL_STATE) => {
+    const project = createProject(name, state);
+    commit(prev => ({ ...prev, activeProjectId: project.id, projects: [...prev.projects, project] }));
+    return project.id;
+  }, [commit]);
+
+  const renameProject = useCallback((id: string, name: string) => {
+    commit(prev => ({
+      ...prev,
+      projects: prev.projects.map(p => p.id === id ? { ...p, name, updatedAt: new Date().toISOString() } : p),
+    }));
+  }, [commit]);
+
+  const duplicateProject = useCallback((id: string) => {
+    commit(prev => {
+      const source = prev.projects.find(p => p.id === id);
+      if (!source) return prev;
+      const copy = createProject(`${source.name} (copy)`, JSON.parse(JSON.stringify(source.state)));
+      return { ...prev, activeProjectId: copy.id, projects: [...prev.projects, copy] };
+    });
+  }, [commit]);
+
+  const deleteProject = useCallback((id: string) => {
+    delete historiesRef.current[id];
+    commit(prev => {
+      const remaining = prev.projects.filter(p => p.id !== id);
+      const portfolio = prunePortfolio(prev.portfolio, remaining.map(p => p.id));
+      // Never leave the workspace empty
+      if (remaining.length === 0) return { ...createDefaultStore(), portfolio, materialLibrary: prev.materialLibrary };
+      const activeProjectId = prev.activeProjectId === id ? remaining[0].id : prev.activeProjectId;
+      return { ...prev, activeProjectId, projects: remaining, portfolio };
+    });
+  }, [commit]);
+
+  // Portfolio edits are not part of any project's undo history
+  const setPortfolio = useCallback((portfolio: Portfolio) => {
+    commit(prev => ({ ...prev, portfolio }));
+  }, [commit]);
+
+  // Saves the catalog and pulls its prices into the chosen projects, each undoable on its own
+  const setMaterialLibrary = useCallback((materialLibrary: MaterialLibrary, updateProjectIds: string[] = []) => {
+    commit(prev => {
+      let next: ProjectStore = { ...prev, materialLibrary };
+      prev.projects.forEach(project => {
+        if (!updateProjectIds.includes(project.id)) return;
+        const state = applyLibraryPrices(project.state, materialLibrary);
+        if (state === project.state) return;
+        historiesRef.current[project.id] = recordChange(
+          historyFor(project.id),
+          project.state,
+          changeGroup(project.state, state),
+          Date.now()
+        );
+        next = withProjectState(next, project.id, state);
+      });
+      return next;
+    });
+  }, [commit]);
+
+  return {
+    state: activeProject.state,
+    setState,
+    undo,
+    redo,
+    canUndo: activeHistory.past.length > 0,
+    canRedo: activeHistory.future.length > 0,
+    projects: store.projects,
+    activeProjectId: activeProject.id,
+    lastSavedAt,
+    saveFailed,
+    switchProject,
+    addProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    portfolio: store.portfolio,
+    setPortfolio,
+    materialLibrary: store.materialLibrary,
+    setMaterialLibrary,
+  };
+};
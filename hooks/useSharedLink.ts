@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SharedCosting } from '../types';
+import { isShareHash, parseShareHash } from '../utils/shareLink';
+
+// Watches the URL fragment for a `#share=` link and decodes it. While `shared` is set the
+// dashboard shows that costing read-only instead of the active project; while
+// `isSharePending` is set one is still decoding and nothing may be edited either.
+export const useSharedLink = () => {
+  const [shared, setShared] = useState<SharedCosting | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [isSharePending, setIsSharePending] = useState(() => isShareHash(window.location.hash));
+
+  useEffect(() => {
+    // Decoding is async; only the latest fragment may win
+    let latest = 0;
+
+    const load = () => {
+      const request = ++latest;
+      const { hash } = window.location;
+      setShareError(null);
+      if (!isShareHash(hash)) {
+        setShared(null);
+        setIsSharePending(false);
+        return;
+      }
+
+      setIsSharePending(true);
+      parseShareHash(hash).then(
+        (result) => {
+          if (request !== latest) return;
+          setShared(result);
+          setIsSharePending(false);
+        },
+        (err) => {
+          if (request !== latest) return;
+          setShared(null);
+          setIsSharePending(false);
+          setShareError(err instanceof Error ? err.message : 'Could not open this share link.');
+        }
+      );
+    };
+
+    load();
+    window.addEventListener('hashchange', load);
+    return () => {
+      latest = -1;
+      window.removeEventListener('hashchange', load);
+    };
+  }, []);
+
+  // Drops the fragment without adding a history entry, back to the user's own projects
+  const closeSharedLink = useCallback(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setShared(null);
+    setIsSharePending(false);
+    setShareError(null);
+  }, []);
+
+  return { shared, isSharePending, shareError, closeSharedLink };
+};
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+
+// Free-text inputs keep the browser's own undo; number fields go through the project history,
+// since native undo on controlled numeric inputs is unreliable
+const FREE_TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password'];
+
+// Fields where the browser's own undo should take the keystroke
+const isFreeTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && FREE_TEXT_INPUT_TYPES.includes(target.type);
+};
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, except inside a free-text field.
+// Disabled while a modal edits its own local copy, so shortcuts never rewrite the model behind it.
+export const useUndoShortcuts = (onUndo: () => void, onRedo: () => void, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isFreeTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) onRedo();
+        else onUndo();
+      } else if (key === 'y' && !e.metaKey) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo, enabled]);
+};
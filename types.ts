@@ -1,19 +1,104 @@
+// ISO 4217 code, e.g. 'USD', 'EUR', 'MXN'
+export type CurrencyCode = string;
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  locale: string; // Used for number formatting
+}
+
 export interface CostItem {
   id: string;
   name: string;
   amount: number;
+  currency: CurrencyCode;
 }
 
+// Supplier price break: `unitCost` applies once the batch needs at least `minQty` units
+export interface PriceTier {
+  minQty: number;
+  unitCost: number;
+}
+
+// Which price applies to a material for a given batch quantity
+export interface ActivePriceTier {
+  unitCost: number;
+  tierIndex: number; // Index into priceTiers, -1 for the base unitCost
+  nextBreak: PriceTier | null;
+  unitsToNextBreak: number; // 0 when no cheaper break remains
+}
+
+// Units a material is consumed or bought in; see MEASURE_UNITS for conversions
+export type MeasureUnit = 'pcs' | 'g' | 'kg' | 'mm' | 'm' | 'm2' | 'L';
+export type MeasureDimension = 'count' | 'mass' | 'length' | 'area' | 'volume';
+
+// 'calculated': cost is derived from the detail fields below. 'manual': cost is a typed lump sum
+// and the detail fields are kept for reference only.
+export type MaterialCostMode = 'manual' | 'calculated';
+
 export interface MaterialItem {
   id: string;
   name: string;
   cost: number; // The Calculated Total Batch Cost (Source of Truth for Financial Kernel)
+  costMode: MaterialCostMode;
   
   // Detailed Calculation Fields
-  qtyPerUnit: number; // How much material per 1 product unit
-  bufferUnits: number; // Extra material added to the batch (waste/safety)
-  unitCost: number; // Cost per 1 unit of material
+  qtyPerUnit: number; // How much material per 1 product unit, in consumptionUnit
+  bufferUnits: number; // Extra material added to the batch (waste/safety), in consumptionUnit
+  unitCost: number; // Cost per 1 purchaseUnit of material (base price, below the first tier)
+  priceTiers: PriceTier[]; // Volume breaks, picked by the total batch quantity in purchaseUnit
+  consumptionUnit: MeasureUnit;
+  purchaseUnit: MeasureUnit; // Must measure the same thing as consumptionUnit (e.g. g and kg)
+  currency: CurrencyCode; // Currency of unitCost and cost
   notes: string;
+
+  libraryId: string | null; // Material library entry the price comes from; null for one-off rows
+  priceDate: string | null; // ISO date (YYYY-MM-DD) unitCost was quoted, null if unknown
+
+  // Nesting: a sub-assembly's qtyPerUnit is per parent (per product at the top level) and its
+  // bufferUnits are extra assemblies built, whose parts are bought too. Its own cost stays 0;
+  // the batch cost lives on the parts and rolls up.
+  parentId: string | null; // Sub-assembly this row is part of; null at the top level
+  isAssembly: boolean;
+}
+
+export type OverheadFrequency = 'monthly' | 'quarterly' | 'annual';
+
+// Fixed running cost (rent, software, salaries). Normalized to a monthly figure for break-even.
+export interface OverheadItem {
+  id: string;
+  name: string;
+  amount: number; // Per `frequency` period
+  frequency: OverheadFrequency;
+  currency: CurrencyCode;
+}
+
+// Labor or machine step. Its batch cost is derived, never stored:
+// ((MinutesPerUnit * BatchSize) + SetupMinutes) / 60 * HourlyRate
+export interface OperationItem {
+  id: string;
+  name: string;
+  minutesPerUnit: number; // Run time for 1 product unit
+  setupMinutes: number; // Once per batch (fixturing, machine setup)
+  hourlyRate: number;
+  currency: CurrencyCode; // Currency of hourlyRate
+}
+
+// Triangular distribution for one uncertain input, used by the risk simulation.
+// `target` names the input: 'publicPrice', 'wasteCount' or 'material:<id>' (unit price,
+// or the lump sum for manual rows).
+export interface RiskRange {
+  target: string;
+  min: number;
+  mostLikely: number;
+  max: number;
+}
+
+// Every month list holds exactly horizonMonths entries, month 1 first
+export interface CashFlowPlan {
+  horizonMonths: number;
+  batchesByMonth: number[]; // Batches whose units are ready to sell each month; each is paid the month before
+  salesByChannel: Record<string, number[]>; // Channel id -> units sold each month; missing means none
 }
 
 export interface SalesScenario {
@@ -21,23 +106,64 @@ export interface SalesScenario {
   name: string;
   discountPercent: number; // 0 to 1
   commissionPercent: number; // 0 to 1
+  // true: tax is charged on the discounted price (trade terms).
+  // false: tax is charged on the full price and the discount comes off the tax-inclusive total.
+  discountBeforeTax: boolean;
+
+  // Variable costs of selling through the channel, per unit in reportingCurrency unless noted
+  paymentFeePercent: number; // 0 to 1 of what the customer pays, e.g. card processing
+  transactionFee: number; // Fixed fee per order
+  unitsPerTransaction: number; // Units in a typical order; spreads transactionFee
+  shippingCost: number;
+  packagingCost: number;
+  returnRate: number; // 0 to 1 of units returned or damaged and replaced
+
   description: string;
 }
 
+export interface TaxSettings {
+  rate: number; // 0 to 1, e.g. 0.21 for 21% VAT
+  priceIncludesTax: boolean; // Whether publicPrice is the tax-inclusive shelf price
+}
+
+// Per-unit cost of goods split for the price waterfall; material and labor are what a
+// perfect batch would cost, wasteImpact is the extra spread over the units that survive.
+export interface UnitCostBreakdown {
+  material: number;
+  labor: number;
+  setup: number;
+  wasteImpact: number;
+  amortization: number;
+}
+
 export interface ScenarioResult extends SalesScenario {
+  // Price waterfall, per unit: publicPrice minus every step below equals profit
+  // (taxAmount only counts when publicPrice includes tax)
+  discountAmount: number;
+  taxAmount: number; // Tax collected and passed on per unit
+  paymentFeeAmount: number;
+  transactionFeeAmount: number; // transactionFee spread over unitsPerTransaction
+  shippingAmount: number;
+  packagingAmount: number;
+  returnsAmount: number; // Replacing returned units: returnRate of COGS, shipping and packaging
+  channelCostAmount: number; // Sum of the five channel costs above
+  royaltyAmount: number;
+  commissionAmount: number;
+  materialCost: number;
+  laborCost: number;
+  setupCost: number;
+  wasteImpact: number;
+  amortization: number;
+
   netRevenue: number;
   grossMargin: number;
   profit: number;
   breakEvenUnits: number;
+  breakEvenByOverhead: Record<string, number>; // Overhead id -> units/month that line alone requires
   isProfitable: boolean;
   roi: number;
 }
 
-export interface ScenarioConfig {
-  id: string;
-  discountPercent: number;
-}
-
 export interface FinancialState {
   // Module A: Development
   devCosts: CostItem[];
@@ -47,12 +173,332 @@ export interface FinancialState {
   batchSize: number;
   wasteCount: number;
   materials: MaterialItem[];
+  operations: OperationItem[];
+  setupCosts: CostItem[]; // Paid once per batch: machine setup, jigs, first-article QC
 
   // Module C: Commercialization
   publicPrice: number;
-  fixedMonthlyExpenses: number;
+  tax: TaxSettings;
+  overheads: OverheadItem[];
   designerRoyaltyPercent: number;
 
-  // Customization
-  customScenarios: ScenarioConfig[];
-}
\ No newline at end of file
+  // Sales channels (user-editable; DEFAULT_SCENARIOS is the starter template)
+  channels: SalesScenario[];
+
+  // Uncertainty for the risk simulation; empty means every input is a point estimate
+  riskRanges: RiskRange[];
+
+  // Month-by-month production and sales plan for the cash-flow projection
+  cashFlow: CashFlowPlan;
+
+  // Currency: all report figures are expressed in reportingCurrency
+  reportingCurrency: CurrencyCode;
+  exchangeRates: Record<CurrencyCode, number>; // Value of 1 unit of each currency in reportingCurrency
+}
+
+export type CurrencySettings = Pick<FinancialState, 'reportingCurrency' | 'exchangeRates'>;
+
+export interface ProductionMetrics {
+  effectiveUnits: number; // Sellable units left after waste
+  yieldRate: number; // 0 to 1
+  costMultiplier: number; // 1 / yieldRate, 0 when nothing is usable
+  materialCostPerUnit: number;
+  laborCostPerUnit: number;
+  setupCostPerUnit: number;
+}
+
+// A sub-assembly's rolled-up parts, for the COGS breakdown
+export interface SubAssemblyCost {
+  id: string;
+  name: string;
+  depth: number; // 0 for assemblies the product uses directly
+  batchCost: number; // Every part below it, in reportingCurrency
+  costPerUnit: number; // batchCost per sellable unit, like materialCostPerUnit
+  share: number; // 0 to 1 of totalBatchMaterialCost
+}
+
+export interface OverheadLine {
+  id: string;
+  name: string;
+  monthlyAmount: number; // In reportingCurrency
+  share: number; // 0 to 1 of total monthly overhead
+}
+
+export interface FinancialReport extends ProductionMetrics {
+  // Module A
+  totalDevCost: number;
+  amortPerUnit: number;
+
+  // Module B
+  totalBatchMaterialCost: number; // In reportingCurrency
+  totalBatchLaborCost: number; // In reportingCurrency
+  totalBatchSetupCost: number; // In reportingCurrency
+  subAssemblies: SubAssemblyCost[]; // Tree order; already included in materialCostPerUnit
+  cogs: number; // Materials + Labor + Setup + Amortization per sellable unit
+
+  // Module C
+  fixedMonthlyExpenses: number; // Sum of overheads per month, in reportingCurrency
+  overheadLines: OverheadLine[];
+  scenarios: ScenarioResult[];
+
+  unresolvedCurrencies: CurrencyCode[]; // Used by some row but without a rate; counted 1:1 in the totals above
+}
+
+// --- SENSITIVITY ---
+
+export interface SensitivityRow {
+  id: string;
+  label: string;
+  lowProfit: number; // Channel profit/unit with the input moved down by the step
+  highProfit: number; // ... and moved up
+  lowBreakEven: number;
+  highBreakEven: number;
+  swing: number; // |highProfit - lowProfit|, used for ranking
+}
+
+export interface SensitivityReport {
+  channelId: string;
+  stepPercent: number; // 0 to 1
+  baseProfit: number;
+  baseBreakEven: number;
+  rows: SensitivityRow[]; // Largest swing first
+}
+
+// --- RISK SIMULATION ---
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface DistributionSummary {
+  min: number;
+  max: number;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: HistogramBin[];
+}
+
+export interface ChannelRiskResult {
+  channelId: string;
+  name: string;
+  profit: DistributionSummary; // Per unit
+  probabilityUnprofitable: number; // 0 to 1
+}
+
+export interface SimulationReport {
+  runs: number;
+  seed: number;
+  cogs: DistributionSummary;
+  channels: ChannelRiskResult[];
+}
+
+// --- CASH FLOW ---
+
+export interface CashFlowMonth {
+  month: number; // 0 is the up-front development spend, 1..horizonMonths follow
+  devCost: number;
+  productionCost: number;
+  revenue: number; // Cash kept per sale after discount, royalty and commission
+  overhead: number;
+  net: number;
+  cumulative: number;
+  unitsProduced: number;
+  unitsSold: number;
+  unitsShort: number; // Forecast sales that had no stock to ship
+  inventory: number; // Units on hand at month end
+}
+
+export interface CashFlowReport {
+  months: CashFlowMonth[];
+  peakFundingNeed: number; // Deepest the cumulative cash goes below zero, as a positive amount
+  peakFundingMonth: number;
+  paybackMonth: number | null; // First month the cumulative cash is back at zero or above
+  totalUnitsShort: number;
+}
+
+// --- BATCH SIZE ---
+
+export interface BatchSizePoint {
+  batchSize: number;
+  cogs: number; // Per sellable unit at the current waste rate
+  setupCostPerUnit: number;
+}
+
+export type BatchSizeTarget =
+  | { type: 'unitCost'; value: number } // COGS at or below value
+  | { type: 'channelMargin'; channelId: string; value: number }; // Margin 0 to 1 of the channel's net revenue
+
+export interface BatchSizeRecommendation {
+  batchSize: number | null; // Smallest batch that meets the target, null if none up to the search limit
+  cogs: number | null;
+}
+
+// --- GOAL SEEK ---
+
+export type GoalMetric = 'margin' | 'breakEven';
+export type GoalVariable = 'publicPrice' | 'wasteCount' | 'discount' | 'amortizationQty';
+
+export interface GoalSeekTarget {
+  channelId: string;
+  metric: GoalMetric;
+  value: number; // Margin as 0 to 1 of the channel's net revenue, or break-even units/month
+}
+
+export interface GoalSeekResult {
+  variable: GoalVariable;
+  current: number; // Value of the variable in the current state
+  value: number | null; // null when no value of the variable meets the target
+  achieved: number | null; // The metric at `value`
+  reason?: string; // Why there is no solution
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  state: FinancialState;
+  updatedAt: string; // ISO timestamp of the last edit
+}
+
+// --- PORTFOLIO ---
+// Several saved projects sold side by side, sharing studio overhead.
+
+export type AllocationRule = 'revenue' | 'units' | 'manual';
+
+export interface PortfolioItem {
+  projectId: string;
+  manualShare: number; // 0 to 1, used when allocationRule is 'manual'
+  plannedUnits: Record<string, number>; // Channel id -> planned units per month
+}
+
+export interface Portfolio extends CurrencySettings {
+  sharedOverheads: OverheadItem[];
+  allocationRule: AllocationRule;
+  items: PortfolioItem[];
+}
+
+export interface PortfolioChannelResult {
+  channelId: string;
+  name: string;
+  plannedUnits: number;
+  netRevenue: number; // Per unit, in the portfolio reporting currency
+  grossMargin: number; // Per unit, in the portfolio reporting currency
+}
+
+export interface PortfolioProductResult {
+  projectId: string;
+  name: string;
+  channels: PortfolioChannelResult[];
+  plannedUnits: number;
+  revenue: number; // Per month at the planned mix
+  contribution: number; // Gross margin per month at the planned mix
+  ownOverhead: number; // The product's own overhead lines, per month
+  allocationShare: number; // 0 to 1 of shared overhead
+  allocatedOverhead: number;
+  profit: number; // Contribution - own - allocated overhead
+  breakEvenUnits: number; // Units/month of this product's mix covering own + allocated overhead
+}
+
+export interface PortfolioReport {
+  products: PortfolioProductResult[];
+  sharedOverhead: number;
+  totalFixed: number; // Shared + every product's own overhead
+  allocationTotal: number; // Sum of allocation shares; below 1 leaves overhead unassigned
+  plannedUnits: number;
+  revenue: number;
+  contribution: number;
+  blendedMargin: number; // Contribution per unit of the planned mix
+  breakEvenUnits: number; // Total units/month at the planned mix, Infinity when the mix loses money
+  profit: number;
+}
+
+// --- MATERIAL LIBRARY ---
+// Catalog of purchased materials shared by every project. Rows link to an entry by id
+// and copy its price, so a costing keeps working if the entry is later removed.
+
+export interface PricePoint {
+  date: string; // ISO date (YYYY-MM-DD)
+  unitCost: number;
+}
+
+export interface LibraryMaterial {
+  id: string;
+  name: string;
+  supplier: string;
+  unit: MeasureUnit; // Unit of measure the price is quoted per
+  unitCost: number; // Current price
+  currency: CurrencyCode;
+  priceDate: string; // ISO date of the current price
+  priceHistory: PricePoint[]; // Earlier prices, oldest first
+  notes: string;
+}
+
+export interface MaterialLibrary {
+  items: LibraryMaterial[];
+  staleAfterMonths: number; // Prices older than this are flagged in the Material Manager
+}
+
+// A linked row whose library price differs from the one it was last given
+export interface LibraryPriceChange {
+  materialId: string;
+  name: string;
+  fromUnitCost: number;
+  toUnitCost: number;
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  fromUnit: MeasureUnit;
+  toUnit: MeasureUnit;
+}
+
+export interface LibraryUpdatePreview {
+  projectId: string;
+  projectName: string;
+  changes: LibraryPriceChange[];
+  cogsBefore: number; // In the project's reporting currency
+  cogsAfter: number;
+}
+
+export interface ProjectStore {
+  schemaVersion: number; // Version of every project's FinancialState
+  activeProjectId: string;
+  projects: SavedProject[];
+  portfolio: Portfolio;
+  materialLibrary: MaterialLibrary;
+}
+
+// Envelope for .designfin.json exports
+export interface DesignFinFile {
+  format: 'designfin';
+  schemaVersion: number;
+  exportedAt: string;
+  name: string;
+  state: FinancialState;
+}
+
+// --- COSTING SHEET ---
+
+export type ReportSection = 'development' | 'materials' | 'production' | 'channels';
+
+export interface BomReportRow {
+  id: string;
+  name: string;
+  depth: number; // Nesting level in the sub-assembly tree, 0 at the top
+  isAssembly: boolean; // true: cost columns are the rolled-up parts
+  isCalculated: boolean; // false: `cost` is a manual lump sum and the quantity fields are blank
+  batchQuantity: number; // (qtyPerUnit * batchSize) + bufferUnits, converted to `unit`
+  unit: MeasureUnit; // The row's purchase unit
+  unitCost: number; // Per `unit` after price breaks, in `currency`
+  cost: number; // Batch cost in `currency`
+  currency: CurrencyCode;
+  reportingCost: number; // Batch cost in reportingCurrency
+  share: number; // 0 to 1 of the batch material total
+}
+
+// A costing opened from a share link; shown read-only until copied into a project
+export interface SharedCosting {
+  name: string;
+  state: FinancialState;
+}
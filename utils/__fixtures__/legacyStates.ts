@@ -0,0 +1,154 @@
+// Frozen payloads as older releases wrote them. Never edit these: add a new one per schema version.
+
+// v0: unversioned, before customScenarios existed
+export const V0_STATE = {
+  devCosts: [
+    { id: '1', name: 'Industrial Design', amount: 5000 },
+    { id: '2', name: 'Tooling', amount: 3500 },
+  ],
+  amortizationQty: 1000,
+  batchSize: 50,
+  wasteCount: 2,
+  materials: [
+    { id: '1', name: 'Aluminum 6061', cost: 250, qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, notes: 'Manual entry' },
+    { id: '2', name: 'Tube', cost: 0, qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, notes: '' },
+  ],
+  publicPrice: 85,
+  fixedMonthlyExpenses: 2500,
+  designerRoyaltyPercent: 0.05,
+};
+
+// v1: single-currency, discount overrides on the fixed channel list
+export const V1_STATE = {
+  ...V0_STATE,
+  customScenarios: [
+    { id: 'direct', discountPercent: 0 },
+    { id: 'card', discountPercent: 0.035 },
+    { id: 'specifier', discountPercent: 0.15 },
+    { id: 'retail', discountPercent: 0.4 },
+    { id: 'distributor', discountPercent: 0.6 },
+    { id: 'agent', discountPercent: 0.5 },
+  ],
+};
+
+// v2: multi-currency
+export const V2_STATE = {
+  ...V1_STATE,
+  devCosts: V1_STATE.devCosts.map(c => ({ ...c, currency: 'USD' })),
+  materials: V1_STATE.materials.map(m => ({ ...m, currency: 'EUR' })),
+  reportingCurrency: 'USD',
+  exchangeRates: { USD: 1, EUR: 1.1, MXN: 0.05, GBP: 1.27, CAD: 0.73 },
+};
+
+// v3: channels stored in full
+export const V3_STATE = {
+  devCosts: V2_STATE.devCosts,
+  amortizationQty: 1000,
+  batchSize: 50,
+  wasteCount: 2,
+  materials: [
+    { id: '1', name: 'Aluminum 6061', cost: 250, qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, currency: 'USD', notes: 'Manual entry' },
+    { id: '2', name: 'Tube', cost: 105, qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, currency: 'USD', notes: '' },
+  ],
+  publicPrice: 85,
+  fixedMonthlyExpenses: 2500,
+  designerRoyaltyPercent: 0.05,
+  channels: [
+    { id: 'direct', name: 'Direct', discountPercent: 0, commissionPercent: 0, description: 'Own store' },
+    { id: 'amazon', name: 'Amazon', discountPercent: 0.15, commissionPercent: 0.08, description: 'Marketplace' },
+  ],
+  reportingCurrency: 'USD',
+  exchangeRates: { USD: 1, EUR: 1.1 },
+};
+
+// v4: volume price breaks on materials
+export const V4_STATE = {
+  ...V3_STATE,
+  materials: [
+    { ...V3_STATE.materials[0], priceTiers: [] },
+    { ...V3_STATE.materials[1], priceTiers: [{ minQty: 100, unitCost: 2.5 }] },
+  ],
+};
+
+// v5: labor operations, single fixedMonthlyExpenses figure
+export const V5_STATE = {
+  ...V4_STATE,
+  operations: [
+    { id: 'weld', name: 'Welding', minutesPerUnit: 12, setupMinutes: 45, hourlyRate: 30, currency: 'EUR' },
+  ],
+  reportingCurrency: 'EUR',
+  exchangeRates: { USD: 0.9, EUR: 1 },
+};
+
+// v6: itemized overheads, no risk ranges
+const { fixedMonthlyExpenses: _fixedMonthlyExpenses, ...V5_REST } = V5_STATE;
+export const V6_STATE = {
+  ...V5_REST,
+  overheads: [
+    { id: 'rent', name: 'Studio Rent', amount: 1500, frequency: 'monthly', currency: 'EUR' },
+    { id: 'insurance', name: 'Insurance', amount: 1200, frequency: 'annual', currency: 'USD' },
+  ],
+};
+
+// v7: risk ranges, no cash-flow plan
+export const V7_STATE = {
+  ...V6_STATE,
+  riskRanges: [{ target: 'publicPrice', min: 70, mostLikely: 85, max: 95 }],
+};
+
+// v8: cash-flow plan, prices treated as tax-free
+export const V8_STATE = {
+  ...V7_STATE,
+  cashFlow: { horizonMonths: 2, batchesByMonth: [1, 1], salesByChannel: { amazon: [10, 20] } },
+};
+
+// v9: tax settings; card fees still modelled as a discount
+export const V9_STATE = {
+  ...V8_STATE,
+  tax: { rate: 0.21, priceIncludesTax: true },
+  channels: [
+    { ...V8_STATE.channels[0], discountBeforeTax: false },
+    { ...V8_STATE.channels[1], discountBeforeTax: true },
+    { id: 'card', name: 'Card Sale', discountPercent: 0.035, commissionPercent: 0, discountBeforeTax: false, description: 'Processing fees included' },
+  ],
+};
+
+// v10: channel selling costs, no per-batch setup costs
+export const V10_STATE = {
+  ...V9_STATE,
+  channels: V9_STATE.channels.map(c => ({
+    ...c,
+    paymentFeePercent: 0,
+    transactionFee: 0,
+    unitsPerTransaction: 1,
+    shippingCost: 4.5,
+    packagingCost: 0,
+    returnRate: 0.02,
+  })),
+};
+
+// v11: per-batch setup costs, materials not yet linked to a library
+export const V11_STATE = {
+  ...V10_STATE,
+  setupCosts: [{ id: 'jig', name: 'Jig setup', amount: 120, currency: 'USD' }],
+};
+
+// v12: library links, but quantities and prices still have no unit
+export const V12_STATE = {
+  ...V11_STATE,
+  materials: V11_STATE.materials.map(m => ({ ...m, libraryId: null, priceDate: '2025-02-01' })),
+};
+
+export const V13_STATE = {
+  ...V12_STATE,
+  materials: V12_STATE.materials.map(m => ({ ...m, consumptionUnit: 'g', purchaseUnit: 'kg' })),
+};
+
+export const V14_STATE = {
+  ...V13_STATE,
+  materials: V13_STATE.materials.map(m => ({ ...m, parentId: null, isAssembly: false })),
+};
+
+// Share link for V9_STATE named 'Pendant Lamp', as produced while the schema was at v9
+export const V9_SHARE_HASH =
+  '#share=1.f6bd09db.fVTLbtswEPwVYc-EIclVmvDWOC0QIEZdO2kPgQ8MtbaIUKTCR1zH8L8XpGxJcZweudLOzD5md2B5hTX7jcYKrYBeEVCsRqAwQ1Uy5ZI7VjdAwDrmEOgOSnydaOss0McdiBIoZNAl3arSW2cEk8kNWrFWQIDV2isHtEjTlAD3xqDiW6DwsLiBPTmA5D3IvdZSqPUgdVycS13GH4wTb8wJrX65LdAskjwxx6uFeMPASmDDrMNJC5UTqJnDIPF8Cd-kr4XydXKRXoQw1zakBZwXt52heVDCAQ0sfrVqnza-vRJuEv_-KJaA0g4tUJgy5ZlMUDmzBQKNERzvBZqgZnm2Hf4JOx1ZWrzXkZ_oKIY6xv_Rccq9g1p0PRyC5KNivwzNbvyTFHwWkoBeFgTKOGI0c71lMmriGHqcjoJKXjGlcNjlUhjkrq_s5vguheVhPD1CqLeuhQ1bOYyWaLkRjYvLCj83KrFOGxxgXONKG7xnf4GumLTYtZTV7E2rwaCP74_so6w4L2CUXp5qmDLzjK6RjH-iwhnfi-DMlL2ECTNlsmASz6tIx5_I-LzaU3UzozlaK9Q6WSHaRCgufYlldI_BJthHrSf9knx_mAMB_Bumt8Y5i8uyi7tD09EViT_QbE9AN2ii8QYT3qAclPcHZdkaOTjKoe22NssJWHS-mbYfgH4pCFTaG7mdx0Mzfu-hwBok61c0FbJywGlCTzrOhfOl0Mm8DR4PSBYPyMrgiz8A1lq5SgYHnrIcRyWU9YapONbuvPWhDjo_hWYqOBzOHiwj7PM8dLYtwDGzRgf0nbdiu4B-TQnU2ro78Yxy2zquDoO-KgISZ7b6IfUmTKfSRrxpNQ012fYmhAuI9nobY0AfM5ItCVgmQ3DSWjOkHlxBH7OU5OlyvyfgAskOTJxDOsqzw6W4bXfH9lu93_8D';
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState } from '../types';
+import { applyBatchSize, batchSizeCurve, recommendBatchSize } from './batchOptimizer';
+
+// COGS = 10 material + 100 setup / batch; no waste, no amortization
+const state: FinancialState = {
+  ...INITIAL_STATE,
+  devCosts: [],
+  batchSize: 10,
+  wasteCount: 0,
+  materials: [
+    { id: 'tube', name: 'Tube', cost: 100, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 10, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+  ],
+  operations: [],
+  setupCosts: [{ id: 'jig', name: 'Jig setup', amount: 100, currency: 'USD' }],
+  publicPrice: 100,
+  designerRoyaltyPercent: 0,
+  channels: [{ id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' }],
+  riskRanges: [],
+};
+
+describe('applyBatchSize', () => {
+  it('re-quotes calculated materials and keeps the waste rate', () => {
+    const next = applyBatchSize({ ...state, wasteCount: 1 }, 30);
+    expect(next.materials[0].cost).toBe(300);
+    expect(next.wasteCount).toBe(3);
+  });
+
+  it('always leaves one sellable unit', () => {
+    expect(applyBatchSize({ ...state, wasteCount: 6 }, 1).wasteCount).toBe(0);
+  });
+});
+
+describe('batchSizeCurve', () => {
+  it('spreads setup over larger batches', () => {
+    const [first, , , , fifth] = batchSizeCurve(state, 5);
+    expect(first).toEqual({ batchSize: 1, cogs: 110, setupCostPerUnit: 100 });
+    expect(fifth).toEqual({ batchSize: 5, cogs: 30, setupCostPerUnit: 20 });
+  });
+
+  it('samples long ranges', () => {
+    const points = batchSizeCurve(state, 1000, 100);
+    expect(points).toHaveLength(100);
+    expect(points[1].batchSize).toBe(11);
+  });
+});
+
+describe('recommendBatchSize', () => {
+  it('finds the smallest batch that reaches a unit cost', () => {
+    // 10 + 100 / b <= 15  =>  b >= 20
+    expect(recommendBatchSize(state, { type: 'unitCost', value: 15 }, 500)).toEqual({ batchSize: 20, cogs: 15 });
+  });
+
+  it('finds the smallest batch that reaches a channel margin', () => {
+    // 1 - (10 + 100 / b) / 50 >= 0.7  =>  b >= 20
+    expect(recommendBatchSize(state, { type: 'channelMargin', channelId: 'retail', value: 0.7 }, 500).batchSize).toBe(20);
+  });
+
+  it('returns null when no batch up to the limit is enough', () => {
+    expect(recommendBatchSize(state, { type: 'unitCost', value: 10 }, 500)).toEqual({ batchSize: null, cogs: null });
+    expect(recommendBatchSize(state, { type: 'channelMargin', channelId: 'gone', value: 0.1 }, 500).batchSize).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { BatchSizePoint, BatchSizeRecommendation, BatchSizeTarget, FinancialState } from '../types';
+import { computeFinancials, recalculateMaterials } from './costingEngine';
+
+// Keeps the current waste rate: a 10% scrap batch stays at 10% when it grows or shrinks.
+// At least one unit per batch is always sellable.
+const wasteAt = (state: FinancialState, batchSize: number): number => {
+  const rate = state.batchSize > 0 ? state.wasteCount / state.batchSize : 0;
+  return Math.min(Math.round(batchSize * rate), batchSize - 1);
+};
+
+// Returns a copy of the state run at another batch size, with calculated materials
+// re-quoted (so price breaks apply) and waste scaled to the same rate
+export const applyBatchSize = (state: FinancialState, batchSize: number): FinancialState => ({
+  ...state,
+  batchSize,
+  wasteCount: wasteAt(state, batchSize),
+  materials: recalculateMaterials(state.materials, batchSize),
+});
+
+export const batchSizeCurve = (state: FinancialState, maxBatch: number, maxPoints = 200): BatchSizePoint[] => {
+  const step = Math.max(1, Math.ceil(maxBatch / maxPoints));
+  const points: BatchSizePoint[] = [];
+  for (let batchSize = 1; batchSize <= maxBatch; batchSize += step) {
+    const report = computeFinancials(applyBatchSize(state, batchSize));
+    points.push({ batchSize, cogs: report.cogs, setupCostPerUnit: report.setupCostPerUnit });
+  }
+  return points;
+};
+
+// Price breaks can make unit cost rise again past a tier edge, so every size is
+// checked in turn rather than bisected
+export const recommendBatchSize = (
+  state: FinancialState,
+  target: BatchSizeTarget,
+  maxBatch: number
+): BatchSizeRecommendation => {
+  for (let batchSize = 1; batchSize <= maxBatch; batchSize++) {
+    const report = computeFinancials(applyBatchSize(state, batchSize));
+    if (target.type === 'unitCost') {
+      if (report.cogs <= target.value) return { batchSize, cogs: report.cogs };
+      continue;
+    }
+    const channel = report.scenarios.find(s => s.id === target.channelId);
+    if (!channel) break;
+    if (channel.netRevenue > 0 && channel.profit / channel.netRevenue >= target.value - 1e-9) {
+      return { batchSize, cogs: report.cogs };
+    }
+  }
+  return { batchSize: null, cogs: null };
+};
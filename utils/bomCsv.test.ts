@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { MaterialItem } from '../types';
+import {
+  exportMaterialsCsv,
+  guessColumnMapping,
+  mapRowsToMaterials,
+  parseDelimited,
+  parseNumberCell,
+} from './bomCsv';
+
+describe('parseDelimited', () => {
+  it('parses CSV with quoted fields and escaped quotes', () => {
+    const rows = parseDelimited('name,notes\n"Tube, 20mm","say ""hi"""\n');
+    expect(rows).toEqual([
+      { line: 1, cells: ['name', 'notes'] },
+      { line: 2, cells: ['Tube, 20mm', 'say "hi"'] },
+    ]);
+  });
+
+  it('detects tab separated text pasted from a spreadsheet', () => {
+    expect(parseDelimited('a\tb\r\n1\t2').map(r => r.cells)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('skips blank lines but keeps source line numbers', () => {
+    expect(parseDelimited('a,b\n\n1,2').map(r => r.line)).toEqual([1, 3]);
+  });
+});
+
+describe('parseNumberCell', () => {
+  it.each([
+    ['4.20', 4.2],
+    ['$1,200.50', 1200.5],
+    ['1.200,50', 1200.5],
+    ['4,20', 4.2],
+    ['1,200', 1200],
+    [' 3 ', 3],
+  ])('reads %s', (raw, expected) => {
+    expect(parseNumberCell(raw)).toBe(expected);
+  });
+
+  it('returns null for text', () => {
+    expect(parseNumberCell('n/a')).toBeNull();
+    expect(parseNumberCell('')).toBeNull();
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common header names', () => {
+    expect(guessColumnMapping(['Material', 'Quantity', 'Price', 'Comments'])).toEqual({
+      name: 0,
+      qtyPerUnit: 1,
+      bufferUnits: -1,
+      unitCost: 2,
+      currency: -1,
+      notes: 3,
+      consumptionUnit: -1,
+      purchaseUnit: -1,
+      level: -1,
+      isAssembly: -1,
+    });
+  });
+
+  it('tells the consumption unit from the purchase unit', () => {
+    expect(guessColumnMapping(['Name', 'Unit', 'Purchase Unit', 'Unit Cost'])).toMatchObject({
+      consumptionUnit: 1,
+      purchaseUnit: 2,
+      unitCost: 3,
+    });
+  });
+});
+
+describe('mapRowsToMaterials', () => {
+  const mapping = {
+    name: 0, qtyPerUnit: 1, bufferUnits: 2, unitCost: 3, currency: -1, notes: 4, consumptionUnit: -1, purchaseUnit: -1, level: -1, isAssembly: -1,
+  };
+
+  it('computes batch cost for valid rows', () => {
+    const { materials, errors } = mapRowsToMaterials(
+      [{ line: 2, cells: ['Tube', '2', '5', '3', '20mm'] }],
+      mapping,
+      10,
+      'USD'
+    );
+    expect(errors).toEqual([]);
+    expect(materials[0]).toMatchObject({ name: 'Tube', qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, cost: 75, notes: '20mm' });
+  });
+
+  it('reads an optional currency column', () => {
+    const { materials, errors } = mapRowsToMaterials(
+      [
+        { line: 2, cells: ['Tube', '1', '', '3', 'eur'] },
+        { line: 3, cells: ['Bolt', '1', '', '3', 'XYZ'] },
+      ],
+      { ...mapping, currency: 4, notes: -1 },
+      10,
+      'USD'
+    );
+    expect(materials[0].currency).toBe('EUR');
+    expect(errors).toEqual([{ line: 3, message: 'Currency "XYZ" is not supported' }]);
+  });
+
+  it('converts grams per product into a price per kilogram', () => {
+    const { materials, errors } = mapRowsToMaterials(
+      [
+        { line: 2, cells: ['Resin', '250', '', '8', '', 'g', 'kg'] },
+        { line: 3, cells: ['Tube', '1', '', '3', '', 'm', 'kg'] },
+        { line: 4, cells: ['Bolt', '1', '', '3', '', 'gallons', ''] },
+      ],
+      { ...mapping, notes: -1, consumptionUnit: 5, purchaseUnit: 6 },
+      10,
+      'USD'
+    );
+    expect(materials).toHaveLength(1);
+    expect(materials[0]).toMatchObject({ consumptionUnit: 'g', purchaseUnit: 'kg', cost: 20 });
+    expect(errors).toEqual([
+      { line: 3, message: 'Purchase Unit kg cannot be converted from m' },
+      { line: 4, message: 'Unit "gallons" is not supported' },
+    ]);
+  });
+
+  it('reports bad rows by line instead of zeroing them', () => {
+    const { materials, errors } = mapRowsToMaterials(
+      [
+        { line: 2, cells: ['Tube', 'two', '', '3'] },
+        { line: 3, cells: ['', '1', '', '-1'] },
+        { line: 4, cells: ['Paint', '1', '', '2'] },
+      ],
+      mapping,
+      10,
+      'USD'
+    );
+
+    expect(materials.map(m => m.name)).toEqual(['Paint']);
+    expect(errors).toEqual([
+      { line: 2, message: 'Qty/Product "two" is not a number' },
+      { line: 3, message: 'Material Name is empty; Unit Cost cannot be negative' },
+    ]);
+  });
+
+  it('nests rows under the sub-assembly one level up and quotes them for its builds', () => {
+    const { materials, errors } = mapRowsToMaterials(
+      [
+        { line: 2, cells: ['Arm', '2', '1', '0', '', '0', 'yes'] },
+        { line: 3, cells: ['Screw', '3', '0', '1', '', '1', ''] },
+        { line: 4, cells: ['Bolt', '4', '0', '1', '', '1', 'maybe'] },
+        { line: 5, cells: ['Nut', '1', '0', '1', '', '3', 'no'] },
+        { line: 6, cells: ['Base', '1', '0', '2', '', '', ''] },
+        { line: 7, cells: ['Washer', '1', '0', '1', '', '1', ''] },
+      ],
+      { ...mapping, notes: -1, level: 5, isAssembly: 6 },
+      10,
+      'USD'
+    );
+    const [arm, screw, base] = materials;
+    expect(arm).toMatchObject({ isAssembly: true, parentId: null, cost: 0 });
+    // 2 arms per product plus 1 spare make 21 builds, each taking 3 screws
+    expect(screw).toMatchObject({ parentId: arm.id, isAssembly: false, cost: 63 });
+    expect(base).toMatchObject({ parentId: null, cost: 20 });
+    expect(errors).toEqual([
+      { line: 4, message: 'Sub-assembly "maybe" is not yes or no' },
+      { line: 5, message: 'Level 3 has no sub-assembly above it' },
+      { line: 7, message: 'Level 1 has no sub-assembly above it' },
+    ]);
+  });
+});
+
+describe('exportMaterialsCsv', () => {
+  const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1 } };
+
+  it('includes computed cost and share columns', () => {
+    const materials: MaterialItem[] = [
+      { id: '1', name: 'Tube, 20mm', cost: 75, costMode: 'calculated', qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+      { id: '2', name: 'Paint', cost: 25, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: 'matte', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    ];
+    expect(exportMaterialsCsv(materials, settings).split('\n')).toEqual([
+      'Material Name,Qty/Product,Buffer,Unit Cost,Currency,Total Cost,%,Notes,Unit,Purchase Unit,Level,Sub-assembly',
+      '"Tube, 20mm",2,5,3,USD,75.00,75.0,,pcs,pcs,0,',
+      'Paint,0,0,0,USD,25.00,25.0,matte,pcs,pcs,0,',
+    ]);
+  });
+
+  it('round-trips through the importer', () => {
+    const materials: MaterialItem[] = [
+      { id: '1', name: 'Tube', cost: 0.075, costMode: 'calculated', qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, priceTiers: [], consumptionUnit: 'mm', purchaseUnit: 'm', currency: 'EUR', notes: 'x', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    ];
+    const [header, ...rows] = parseDelimited(exportMaterialsCsv(materials, settings));
+    const { materials: imported } = mapRowsToMaterials(rows, guessColumnMapping(header.cells), 10, 'USD');
+    expect(imported[0]).toMatchObject({ name: 'Tube', qtyPerUnit: 2, bufferUnits: 5, unitCost: 3, currency: 'EUR', notes: 'x' });
+    expect(imported[0]).toMatchObject({ consumptionUnit: 'mm', purchaseUnit: 'm' });
+    expect(imported[0].cost).toBeCloseTo(0.075);
+  });
+
+  it('quotes text that a spreadsheet would run as a formula', () => {
+    const materials: MaterialItem[] = [
+      { id: '1', name: '=HYPERLINK("http://x")', cost: -5, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '@SUM(A1)', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    ];
+    const csv = exportMaterialsCsv(materials, settings);
+    expect(csv.split('\n')[1]).toBe(`"'=HYPERLINK(""http://x"")",0,0,0,USD,-5.00,0.0,'@SUM(A1),pcs,pcs,0,`);
+
+    const [header, ...rows] = parseDelimited(csv);
+    const { materials: imported } = mapRowsToMaterials(rows, guessColumnMapping(header.cells), 10, 'USD');
+    expect(imported[0]).toMatchObject({ name: '=HYPERLINK("http://x")', notes: '@SUM(A1)' });
+  });
+
+  it('keeps sub-assemblies and their parts through a round trip', () => {
+    const part = (overrides: Partial<MaterialItem>): MaterialItem => ({
+      id: 'x', name: '', cost: 0, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 1, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs',
+      currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false, ...overrides,
+    });
+    const materials = [
+      part({ id: 'screw', name: 'Screw', qtyPerUnit: 3, parentId: 'arm', cost: 63 }),
+      part({ id: 'arm', name: 'Arm', qtyPerUnit: 2, bufferUnits: 1, unitCost: 0, isAssembly: true }),
+      part({ id: 'base', name: 'Base', unitCost: 2, cost: 20 }),
+    ];
+    const csv = exportMaterialsCsv(materials, settings);
+    expect(csv.split('\n')[1]).toBe('Arm,2,1,0,USD,63.00,75.9,,pcs,pcs,0,yes');
+
+    const [header, ...rows] = parseDelimited(csv);
+    const { materials: imported, errors } = mapRowsToMaterials(rows, guessColumnMapping(header.cells), 10, 'USD');
+    expect(errors).toEqual([]);
+    expect(imported.map(m => [m.name, m.isAssembly, m.cost])).toEqual([['Arm', true, 0], ['Screw', false, 63], ['Base', false, 20]]);
+    expect(imported[1].parentId).toBe(imported[0].id);
+  });
+});
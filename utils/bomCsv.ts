@@ -0,0 +1,310 @@
+import { CURRENCIES } from '../constants';
+import { CurrencyCode, CurrencySettings, MaterialItem, MeasureUnit } from '../types';
+import { materialTree } from './bomTree';
+import {
+  calculateMaterialCost,
+  materialCostInReporting,
+  materialShare,
+  recalculateMaterials,
+  rollUpMaterialCosts,
+  sumMaterialCosts,
+} from './costingEngine';
+import { createId } from './id';
+import { parseMeasureUnit, unitConversionFactor } from './units';
+
+export type BomField =
+  | 'name'
+  | 'qtyPerUnit'
+  | 'bufferUnits'
+  | 'unitCost'
+  | 'currency'
+  | 'notes'
+  | 'consumptionUnit'
+  | 'purchaseUnit'
+  | 'level'
+  | 'isAssembly';
+
+export const BOM_FIELDS: { key: BomField; label: string; required: boolean }[] = [
+  { key: 'name', label: 'Material Name', required: true },
+  { key: 'qtyPerUnit', label: 'Qty/Product', required: true },
+  { key: 'bufferUnits', label: 'Buffer', required: false },
+  { key: 'unitCost', label: 'Unit Cost', required: true },
+  { key: 'currency', label: 'Currency', required: false },
+  { key: 'notes', label: 'Notes', required: false },
+  { key: 'consumptionUnit', label: 'Unit', required: false },
+  { key: 'purchaseUnit', label: 'Purchase Unit', required: false },
+  { key: 'level', label: 'Level', required: false },
+  { key: 'isAssembly', label: 'Sub-assembly', required: false },
+];
+
+// Column index per field, -1 when the field is not mapped
+export type BomColumnMapping = Record<BomField, number>;
+
+export interface BomRowError {
+  line: number; // 1-based line in the source text
+  message: string;
+}
+
+export interface BomImportResult {
+  materials: MaterialItem[];
+  errors: BomRowError[];
+}
+
+const HEADER_ALIASES: Record<BomField, string[]> = {
+  name: ['name', 'material', 'material name', 'item', 'description', 'part'],
+  qtyPerUnit: ['qty', 'qtyperunit', 'qty/product', 'qty per unit', 'quantity', 'qty/unit', 'consumption'],
+  bufferUnits: ['buffer', 'bufferunits', 'buffer units', 'waste', 'merma', 'extra', 'safety'],
+  unitCost: ['unitcost', 'unit cost', 'price', 'unit price', 'cost/unit', 'cost per unit', 'rate'],
+  currency: ['currency', 'ccy', 'moneda', 'divisa'],
+  notes: ['notes', 'note', 'comments', 'specs', 'remarks'],
+  consumptionUnit: ['unit', 'uom', 'units', 'consumption unit', 'qty unit', 'unidad'],
+  purchaseUnit: ['purchase unit', 'purchaseunit', 'price unit', 'cost unit', 'purchase uom'],
+  level: ['level', 'bom level', 'lvl', 'depth', 'indent'],
+  isAssembly: ['sub-assembly', 'subassembly', 'assembly', 'is assembly', 'isassembly'],
+};
+
+const YES_CELLS = ['yes', 'y', 'true', '1', 'x'];
+const NO_CELLS = ['no', 'n', 'false', '0', ''];
+
+const detectDelimiter = (firstLine: string): string => {
+  if (firstLine.includes('\t')) return '\t';
+  const commas = (firstLine.match(/,/g) || []).length;
+  const semicolons = (firstLine.match(/;/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+};
+
+// Splits CSV/TSV text into rows of cells, honoring quoted fields and escaped quotes.
+// Returns each row together with its 1-based source line number.
+export const parseDelimited = (text: string): { line: number; cells: string[] }[] => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const delimiter = detectDelimiter(normalized.split('\n', 1)[0]);
+  const rows: { line: number; cells: string[] }[] = [];
+
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) {
+      rows.push({ line: rowStartLine, cells: cells.map(c => c.trim()) });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (inQuotes) {
+      if (char === '"' && normalized[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+export const guessColumnMapping = (headers: string[]): BomColumnMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const mapping = {} as BomColumnMapping;
+
+  BOM_FIELDS.forEach(({ key }) => {
+    mapping[key] = normalized.findIndex(h => HEADER_ALIASES[key].includes(h));
+  });
+
+  return mapping;
+};
+
+// Parses spreadsheet numbers like "4.20", "$1,200.50" or "4,20". Returns null when unreadable.
+export const parseNumberCell = (raw: string): number | null => {
+  let value = raw.trim().replace(/[\s$€£¥]/g, '');
+  if (value === '') return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal point
+    value = lastComma > lastDot
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    // "1,200" is a thousands group, "4,20" is a decimal comma
+    value = /^-?\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, '') : value.replace(',', '.');
+  }
+
+  if (!/^-?\d*\.?\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+export const mapRowsToMaterials = (
+  rows: { line: number; cells: string[] }[],
+  mapping: BomColumnMapping,
+  batchSize: number,
+  defaultCurrency: CurrencyCode
+): BomImportResult => {
+  const materials: MaterialItem[] = [];
+  const errors: BomRowError[] = [];
+  // Open sub-assemblies by level: a row at level n belongs to the latest one at level n - 1
+  const openAssemblies: (MaterialItem | undefined)[] = [];
+
+  rows.forEach(({ line, cells }) => {
+    const cellFor = (field: BomField) => (mapping[field] >= 0 ? cells[mapping[field]] ?? '' : '');
+    const rowErrors: string[] = [];
+
+    const readNumber = (field: BomField, label: string, required: boolean): number => {
+      const raw = cellFor(field);
+      if (raw === '') {
+        if (required) rowErrors.push(`${label} is empty`);
+        return 0;
+      }
+      const value = parseNumberCell(raw);
+      if (value === null) {
+        rowErrors.push(`${label} "${raw}" is not a number`);
+        return 0;
+      }
+      if (value < 0) {
+        rowErrors.push(`${label} cannot be negative`);
+        return 0;
+      }
+      return value;
+    };
+
+    const name = unescapeFormula(cellFor('name'));
+    if (!name) rowErrors.push('Material Name is empty');
+    const qtyPerUnit = readNumber('qtyPerUnit', 'Qty/Product', true);
+    const bufferUnits = readNumber('bufferUnits', 'Buffer', false);
+    const unitCost = readNumber('unitCost', 'Unit Cost', true);
+
+    // Blank units mean pieces; a blank purchase unit means the price is per consumption unit
+    const readUnit = (field: BomField, label: string, fallback: MeasureUnit): MeasureUnit => {
+      const raw = cellFor(field);
+      if (raw === '') return fallback;
+      const unit = parseMeasureUnit(raw);
+      if (!unit) rowErrors.push(`${label} "${raw}" is not supported`);
+      return unit ?? fallback;
+    };
+    const consumptionUnit = readUnit('consumptionUnit', 'Unit', 'pcs');
+    const purchaseUnit = readUnit('purchaseUnit', 'Purchase Unit', consumptionUnit);
+    const unitFactor = unitConversionFactor(consumptionUnit, purchaseUnit);
+    if (unitFactor === null) {
+      rowErrors.push(`Purchase Unit ${purchaseUnit} cannot be converted from ${consumptionUnit}`);
+    }
+
+    // Blank currency cells fall back to the project's reporting currency
+    const currency = (cellFor('currency') || defaultCurrency).toUpperCase();
+    if (!CURRENCIES.some(c => c.code === currency)) {
+      rowErrors.push(`Currency "${currency}" is not supported`);
+    }
+
+    // Blank levels are top-level rows
+    const levelCell = cellFor('level');
+    const level = levelCell === '' ? 0 : Number(levelCell);
+    if (!Number.isInteger(level) || level < 0) {
+      rowErrors.push(`Level "${levelCell}" is not a whole number`);
+    }
+    const parent = level > 0 ? openAssemblies[level - 1] : undefined;
+    if (level > 0 && Number.isInteger(level) && !parent) {
+      rowErrors.push(`Level ${level} has no sub-assembly above it`);
+    }
+
+    const assemblyCell = cellFor('isAssembly').toLowerCase();
+    if (!YES_CELLS.includes(assemblyCell) && !NO_CELLS.includes(assemblyCell)) {
+      rowErrors.push(`Sub-assembly "${cellFor('isAssembly')}" is not yes or no`);
+    }
+    const isAssembly = YES_CELLS.includes(assemblyCell);
+
+    if (rowErrors.length > 0) {
+      errors.push({ line, message: rowErrors.join('; ') });
+      return;
+    }
+
+    const material: MaterialItem = {
+      id: createId(),
+      name,
+      qtyPerUnit,
+      bufferUnits,
+      unitCost,
+      priceTiers: [],
+      consumptionUnit,
+      purchaseUnit,
+      cost: calculateMaterialCost(qtyPerUnit, bufferUnits, unitCost, batchSize, [], unitFactor ?? 1),
+      costMode: 'calculated',
+      currency,
+      notes: unescapeFormula(cellFor('notes')),
+      libraryId: null,
+      priceDate: null,
+      parentId: parent ? parent.id : null,
+      isAssembly,
+    };
+    materials.push(material);
+    openAssemblies.length = level;
+    if (isAssembly) openAssemblies[level] = material;
+  });
+
+  // Parts inside sub-assemblies are quoted for their parent's built quantity
+  return { materials: recalculateMaterials(materials, batchSize), errors };
+};
+
+// Text a spreadsheet would run as a formula; plain numbers such as "-5.00" are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: string | number): string => {
+  const raw = String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) && isNaN(Number(raw)) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Undoes the quote escapeCsvCell puts in front of formula-like text
+const unescapeFormula = (cell: string): string =>
+  cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+// Rows are written in tree order with their depth in `Level`, so the importer can rebuild the
+// sub-assemblies. `%` is each row's share of the batch total after conversion to the reporting
+// currency; a sub-assembly shows the rolled-up total of its parts in the reporting currency.
+export const exportMaterialsCsv = (materials: MaterialItem[], settings: CurrencySettings): string => {
+  const total = sumMaterialCosts(materials, settings);
+  const rolledUp = rollUpMaterialCosts(materials, settings);
+  const header = [
+    'Material Name', 'Qty/Product', 'Buffer', 'Unit Cost', 'Currency', 'Total Cost', '%', 'Notes', 'Unit', 'Purchase Unit',
+    'Level', 'Sub-assembly',
+  ];
+  const rows = materialTree(materials).map(({ item: m, depth }) => [
+    m.name,
+    m.qtyPerUnit,
+    m.bufferUnits,
+    m.unitCost,
+    m.isAssembly ? settings.reportingCurrency : m.currency,
+    (m.isAssembly ? rolledUp[m.id] : m.cost).toFixed(2),
+    (materialShare(m.isAssembly ? rolledUp[m.id] : materialCostInReporting(m, settings), total) * 100).toFixed(1),
+    m.notes || '',
+    m.consumptionUnit,
+    m.purchaseUnit,
+    depth,
+    m.isAssembly ? 'yes' : '',
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\n');
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { MaterialItem } from '../types';
+import { descendantIds, materialTree } from './bomTree';
+
+const row = (id: string, parentId: string | null = null, isAssembly = false): MaterialItem => ({
+  id,
+  name: id,
+  cost: 0,
+  costMode: 'calculated',
+  qtyPerUnit: 1,
+  bufferUnits: 0,
+  unitCost: 0,
+  priceTiers: [],
+  consumptionUnit: 'pcs',
+  purchaseUnit: 'pcs',
+  currency: 'USD',
+  notes: '',
+  libraryId: null,
+  priceDate: null,
+  parentId,
+  isAssembly,
+});
+
+describe('materialTree', () => {
+  it('lists each sub-assembly followed by its parts', () => {
+    const materials = [row('bolt', 'arm'), row('box'), row('frame', null, true), row('arm', 'frame', true), row('tube', 'frame')];
+    expect(materialTree(materials).map(r => `${r.depth}:${r.item.id}`)).toEqual(['0:box', '0:frame', '1:arm', '2:bolt', '1:tube']);
+  });
+
+  it('keeps rows with a missing, plain or looping parent at the top level', () => {
+    const materials = [row('a', 'b', true), row('b', 'a', true), row('orphan', 'gone'), row('screw', 'orphan')];
+    const tree = materialTree(materials);
+    expect(tree.map(r => r.item.id).sort()).toEqual(['a', 'b', 'orphan', 'screw']);
+    expect(tree.find(r => r.item.id === 'screw')?.depth).toBe(0);
+  });
+});
+
+describe('descendantIds', () => {
+  it('collects every nested row', () => {
+    const materials = [row('frame', null, true), row('arm', 'frame', true), row('bolt', 'arm'), row('box')];
+    expect([...descendantIds(materials, 'frame')].sort()).toEqual(['arm', 'bolt']);
+    expect(descendantIds(materials, 'box').size).toBe(0);
+  });
+});
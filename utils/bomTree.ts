@@ -0,0 +1,47 @@
+import { MaterialItem } from '../types';
+
+export interface MaterialTreeRow {
+  item: MaterialItem;
+  depth: number; // 0 for top-level rows
+}
+
+// Depth-first display order: each sub-assembly is followed by its parts, in list order.
+// Rows whose parent is missing, not an assembly or part of a cycle are shown at the top level.
+export const materialTree = (materials: MaterialItem[]): MaterialTreeRow[] => {
+  const assemblyIds = new Set(materials.filter(m => m.isAssembly).map(m => m.id));
+  const children = new Map<string, MaterialItem[]>();
+  materials.forEach(m => {
+    if (m.parentId && assemblyIds.has(m.parentId)) {
+      children.set(m.parentId, [...(children.get(m.parentId) || []), m]);
+    }
+  });
+
+  const rows: MaterialTreeRow[] = [];
+  const placed = new Set<string>();
+  const visit = (item: MaterialItem, depth: number) => {
+    if (placed.has(item.id)) return;
+    placed.add(item.id);
+    rows.push({ item, depth });
+    (children.get(item.id) || []).forEach(child => visit(child, depth + 1));
+  };
+
+  materials.forEach(m => {
+    if (!m.parentId || !assemblyIds.has(m.parentId)) visit(m, 0);
+  });
+  // Anything left hangs off a cycle; surface it rather than hiding it
+  materials.forEach(m => visit(m, 0));
+  return rows;
+};
+
+// Ids of every row nested under `id`, at any depth
+export const descendantIds = (materials: MaterialItem[], id: string): Set<string> => {
+  const found = new Set<string>();
+  let frontier = [id];
+  while (frontier.length > 0) {
+    frontier = materials
+      .filter(m => m.parentId !== null && frontier.includes(m.parentId) && !found.has(m.id) && m.id !== id)
+      .map(m => m.id);
+    frontier.forEach(childId => found.add(childId));
+  }
+  return found;
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState } from '../types';
+import { computeCashFlow, emptyCashFlowPlan, pruneCashFlowPlan, resizeCashFlowPlan } from './cashFlow';
+
+// Batch of 10 costs 100; Direct keeps 100 a unit, Retail 50; overhead 200 a month
+const state: FinancialState = {
+  ...INITIAL_STATE,
+  devCosts: [{ id: 'd', name: 'Tooling', amount: 1000, currency: 'USD' }],
+  amortizationQty: 100,
+  batchSize: 10,
+  wasteCount: 0,
+  materials: [
+    { id: 'tube', name: 'Tube', cost: 100, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 10, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+  ],
+  operations: [],
+  publicPrice: 100,
+  overheads: [{ id: 'rent', name: 'Rent', amount: 200, frequency: 'monthly', currency: 'USD' }],
+  designerRoyaltyPercent: 0,
+  channels: [
+    { id: 'direct', name: 'Direct', discountPercent: 0, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+    { id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+  ],
+  riskRanges: [],
+  cashFlow: {
+    horizonMonths: 4,
+    batchesByMonth: [1, 1, 1, 0],
+    salesByChannel: { direct: [5, 5, 5, 5], retail: [0, 5, 5, 5] },
+  },
+};
+
+describe('computeCashFlow', () => {
+  it('pays development up front and batches before their sales', () => {
+    const { months } = computeCashFlow(state);
+    expect(months.map(m => m.net)).toEqual([-1100, 200, 450, 550, 300]);
+    expect(months.map(m => m.cumulative)).toEqual([-1100, -900, -450, 100, 400]);
+    // Month 1's batch is paid in month 0; month 1 pays for month 2's
+    expect(months[0]).toMatchObject({ devCost: 1000, productionCost: 100, revenue: 0 });
+    expect(months[1]).toMatchObject({ productionCost: 100, revenue: 500, overhead: 200, unitsSold: 5, inventory: 5 });
+    expect(months[3].productionCost).toBe(0);
+  });
+
+  it('reports the peak funding need and the payback month', () => {
+    const report = computeCashFlow(state);
+    expect(report.peakFundingNeed).toBe(1100);
+    expect(report.peakFundingMonth).toBe(0);
+    expect(report.paybackMonth).toBe(3);
+  });
+
+  it('loses forecast sales that have no stock, filling channels in order', () => {
+    const report = computeCashFlow(state);
+    expect(report.months[4]).toMatchObject({ unitsSold: 5, unitsShort: 5, inventory: 0 });
+    expect(report.totalUnitsShort).toBe(5);
+  });
+
+  it('returns no payback month when cash ends below zero', () => {
+    const slow = { ...state, cashFlow: { ...state.cashFlow, salesByChannel: { direct: [1, 1, 1, 1] } } };
+    const report = computeCashFlow(slow);
+    expect(report.paybackMonth).toBeNull();
+    expect(report.peakFundingMonth).toBe(4);
+    expect(report.peakFundingNeed).toBe(1700);
+  });
+
+  it('only counts a payback that holds to the end of the horizon', () => {
+    // Back above zero in month 1, then a big batch pulls it under again
+    const lumpy = {
+      ...state,
+      devCosts: [],
+      cashFlow: { horizonMonths: 3, batchesByMonth: [1, 0, 20], salesByChannel: { direct: [10, 0, 0] } },
+    };
+    const report = computeCashFlow(lumpy);
+    expect(report.months[1].cumulative).toBe(700);
+    expect(report.paybackMonth).toBeNull();
+  });
+
+  it('pays channel costs per sale and replaces returns from stock', () => {
+    const costly = {
+      ...state,
+      channels: [{ ...state.channels[0], shippingCost: 5, returnRate: 0.25 }],
+      cashFlow: { horizonMonths: 1, batchesByMonth: [1], salesByChannel: { direct: [8] } },
+    };
+    // 10 units cover 8 sales plus 2 replacements; each sale keeps 100 - 5 - 0.25 * 5
+    const [, month] = computeCashFlow(costly).months;
+    expect(month.unitsSold).toBe(8);
+    expect(month.inventory).toBe(0);
+    expect(month.revenue).toBeCloseTo(8 * 93.75);
+  });
+
+  it('ignores forecasts for channels that no longer exist', () => {
+    const orphaned = { ...state, cashFlow: { ...state.cashFlow, salesByChannel: { gone: [5, 5, 5, 5] } } };
+    expect(computeCashFlow(orphaned).months.every(m => m.revenue === 0)).toBe(true);
+  });
+});
+
+describe('pruneCashFlowPlan', () => {
+  it('drops forecasts for deleted channels', () => {
+    expect(pruneCashFlowPlan(state.cashFlow, ['retail']).salesByChannel).toEqual({ retail: [0, 5, 5, 5] });
+  });
+});
+
+describe('resizeCashFlowPlan', () => {
+  it('pads with zeros and truncates every month list', () => {
+    expect(resizeCashFlowPlan(state.cashFlow, 6).batchesByMonth).toEqual([1, 1, 1, 0, 0, 0]);
+    expect(resizeCashFlowPlan(state.cashFlow, 2).salesByChannel).toEqual({ direct: [5, 5], retail: [0, 5] });
+  });
+
+  it('creates an empty plan of the given length', () => {
+    expect(emptyCashFlowPlan(3)).toEqual({ horizonMonths: 3, batchesByMonth: [0, 0, 0], salesByChannel: {} });
+  });
+});
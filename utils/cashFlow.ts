@@ -0,0 +1,119 @@
+import { CashFlowMonth, CashFlowPlan, CashFlowReport, FinancialReport, FinancialState } from '../types';
+import { computeFinancials } from './costingEngine';
+
+const resizeMonths = (months: number[], length: number) =>
+  Array.from({ length }, (_, i) => months[i] ?? 0);
+
+export const emptyCashFlowPlan = (horizonMonths: number): CashFlowPlan => ({
+  horizonMonths,
+  batchesByMonth: Array(horizonMonths).fill(0),
+  salesByChannel: {},
+});
+
+// Pads new months with zeros, or drops months past the new horizon
+export const resizeCashFlowPlan = (plan: CashFlowPlan, horizonMonths: number): CashFlowPlan => ({
+  horizonMonths,
+  batchesByMonth: resizeMonths(plan.batchesByMonth, horizonMonths),
+  salesByChannel: Object.fromEntries(
+    Object.entries(plan.salesByChannel).map(([id, months]) => [id, resizeMonths(months, horizonMonths)])
+  ),
+});
+
+// Drops forecasts for channels that no longer exist
+export const pruneCashFlowPlan = (plan: CashFlowPlan, channelIds: string[]): CashFlowPlan => ({
+  ...plan,
+  salesByChannel: Object.fromEntries(
+    Object.entries(plan.salesByChannel).filter(([id]) => channelIds.includes(id))
+  ),
+});
+
+// Development is paid in month 0. A batch planned for a month is paid the month before (month 0
+// for month 1), so its costs go out before any of its sales come in; its good units sell from
+// its own month. Sales beyond the stock on hand are lost, filled in channel order.
+// Amortization is not a cash cost; the up-front spend already covers it.
+export const computeCashFlow = (
+  state: FinancialState,
+  report: FinancialReport = computeFinancials(state)
+): CashFlowReport => {
+  const { cashFlow } = state;
+  const batchCost = report.totalBatchMaterialCost + report.totalBatchLaborCost + report.totalBatchSetupCost;
+  // Replacement units for returns come out of stock, so only their shipping and
+  // packaging are paid per sale; the units themselves were paid with their batch.
+  const cashPerSale = report.scenarios.map(s => ({
+    id: s.id,
+    amount: s.netRevenue - s.royaltyAmount - s.commissionAmount - s.channelCostAmount + s.returnRate * report.cogs,
+    stockPerSale: 1 + s.returnRate,
+  }));
+
+  // Paid in month `i` for the batches that arrive in month `i + 1`
+  const productionCostIn = (i: number) => (cashFlow.batchesByMonth[i] || 0) * batchCost;
+
+  const upFront = report.totalDevCost + productionCostIn(0);
+  const months: CashFlowMonth[] = [{
+    month: 0,
+    devCost: report.totalDevCost,
+    productionCost: productionCostIn(0),
+    revenue: 0,
+    overhead: 0,
+    net: -upFront,
+    cumulative: -upFront,
+    unitsProduced: 0,
+    unitsSold: 0,
+    unitsShort: 0,
+    inventory: 0,
+  }];
+
+  let inventory = 0;
+  let cumulative = -upFront;
+  for (let i = 0; i < cashFlow.horizonMonths; i++) {
+    const batches = cashFlow.batchesByMonth[i] || 0;
+    const unitsProduced = batches * report.effectiveUnits;
+    inventory += unitsProduced;
+
+    let revenue = 0;
+    let unitsSold = 0;
+    let unitsShort = 0;
+    cashPerSale.forEach(channel => {
+      const demand = cashFlow.salesByChannel[channel.id]?.[i] || 0;
+      const sold = Math.min(demand, inventory / channel.stockPerSale);
+      inventory -= sold * channel.stockPerSale;
+      unitsSold += sold;
+      unitsShort += demand - sold;
+      revenue += sold * channel.amount;
+    });
+
+    const productionCost = productionCostIn(i + 1);
+    const overhead = report.fixedMonthlyExpenses;
+    const net = revenue - productionCost - overhead;
+    cumulative += net;
+    months.push({
+      month: i + 1,
+      devCost: 0,
+      productionCost,
+      revenue,
+      overhead,
+      net,
+      cumulative,
+      unitsProduced,
+      unitsSold,
+      unitsShort,
+      inventory,
+    });
+  }
+
+  const lowest = months.reduce((low, m) => (m.cumulative < low.cumulative ? m : low), months[0]);
+
+  // Payback is the month the cumulative cash climbs back to zero and stays there
+  let paybackMonth: number | null = null;
+  for (let i = months.length - 1; i >= 1 && months[i].cumulative >= 0; i--) {
+    paybackMonth = months[i].month;
+  }
+
+  return {
+    months,
+    peakFundingNeed: Math.max(0, -lowest.cumulative),
+    peakFundingMonth: lowest.cumulative < 0 ? lowest.month : 0,
+    paybackMonth,
+    totalUnitsShort: months.reduce((acc, m) => acc + m.unitsShort, 0),
+  };
+};
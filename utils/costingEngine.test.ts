@@ -0,0 +1,634 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, DEFAULT_SCENARIOS, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState, MaterialItem, OperationItem, OverheadItem } from '../types';
+import {
+  calculateMaterialCost,
+  calculateOperationCost,
+  computeFinancials,
+  computeOverheadLines,
+  computeProductionMetrics,
+  costModeSwitchWarning,
+  isCalculatedMaterial,
+  materialParentQuantities,
+  materialShare,
+  recalculateMaterials,
+  resolvePriceTier,
+  setMaterialCostMode,
+  rollUpMaterialCosts,
+  splitTax,
+  sumMaterialCosts,
+  sumOperationCosts,
+} from './costingEngine';
+
+const material = (overrides: Partial<MaterialItem> = {}): MaterialItem => ({
+  id: 'm1',
+  name: 'Aluminum',
+  cost: 0,
+  costMode: 'calculated',
+  qtyPerUnit: 0,
+  bufferUnits: 0,
+  unitCost: 0,
+  priceTiers: [],
+  consumptionUnit: 'pcs',
+  purchaseUnit: 'pcs',
+  currency: 'USD',
+  notes: '',
+  libraryId: null,
+  priceDate: null,
+  parentId: null,
+  isAssembly: false,
+  ...overrides,
+});
+
+const operation = (overrides: Partial<OperationItem> = {}): OperationItem => ({
+  id: 'o1',
+  name: 'Welding',
+  minutesPerUnit: 0,
+  setupMinutes: 0,
+  hourlyRate: 0,
+  currency: 'USD',
+  ...overrides,
+});
+
+const overhead = (overrides: Partial<OverheadItem> = {}): OverheadItem => ({
+  id: 'rent',
+  name: 'Rent',
+  amount: 0,
+  frequency: 'monthly',
+  currency: 'USD',
+  ...overrides,
+});
+
+const makeState = (overrides: Partial<FinancialState> = {}): FinancialState => ({
+  ...INITIAL_STATE,
+  ...overrides,
+});
+
+describe('calculateMaterialCost', () => {
+  it('applies ((qty * batch) + buffer) * unitCost', () => {
+    expect(calculateMaterialCost(2, 5, 3, 10)).toBe(75);
+  });
+
+  it('charges only the buffer for a zero batch', () => {
+    expect(calculateMaterialCost(2, 5, 3, 0)).toBe(15);
+  });
+
+  it('prices the whole batch quantity at the tier it reaches', () => {
+    const tiers = [{ minQty: 2000, unitCost: 3.1 }, { minQty: 500, unitCost: 3.8 }];
+    expect(calculateMaterialCost(4, 0, 4.2, 100, tiers)).toBeCloseTo(400 * 4.2);
+    expect(calculateMaterialCost(4, 0, 4.2, 200, tiers)).toBeCloseTo(800 * 3.8);
+    expect(calculateMaterialCost(4, 0, 4.2, 500, tiers)).toBeCloseTo(2000 * 3.1);
+  });
+
+  it('converts the batch quantity into purchase units before pricing', () => {
+    // 250 g per product * 10 + 500 g buffer = 3 kg at 8/kg
+    expect(calculateMaterialCost(250, 500, 8, 10, [], 0.001)).toBeCloseTo(24);
+  });
+});
+
+describe('resolvePriceTier', () => {
+  const tiers = [{ minQty: 2000, unitCost: 3.1 }, { minQty: 500, unitCost: 3.8 }];
+
+  it('uses the base price below the first break', () => {
+    expect(resolvePriceTier(4.2, tiers, 120)).toEqual({
+      unitCost: 4.2,
+      tierIndex: -1,
+      nextBreak: { minQty: 500, unitCost: 3.8 },
+      unitsToNextBreak: 380,
+    });
+  });
+
+  it('reports the active tier by its stored index', () => {
+    expect(resolvePriceTier(4.2, tiers, 500)).toMatchObject({ unitCost: 3.8, tierIndex: 1, unitsToNextBreak: 1500 });
+    expect(resolvePriceTier(4.2, tiers, 2500)).toMatchObject({ unitCost: 3.1, tierIndex: 0, nextBreak: null, unitsToNextBreak: 0 });
+  });
+
+  it('falls back to the base price without tiers', () => {
+    expect(resolvePriceTier(4.2, [], 10_000)).toEqual({ unitCost: 4.2, tierIndex: -1, nextBreak: null, unitsToNextBreak: 0 });
+  });
+});
+
+describe('recalculateMaterials', () => {
+  it('rescales calculated rows and leaves manual lump sums alone', () => {
+    const rows = [
+      material({ id: 'calc', qtyPerUnit: 1, bufferUnits: 2, unitCost: 4, cost: 0 }),
+      material({ id: 'manual', costMode: 'manual', cost: 250 }),
+    ];
+
+    const [calc, manual] = recalculateMaterials(rows, 10);
+
+    expect(calc.cost).toBe(48);
+    expect(manual.cost).toBe(250);
+  });
+
+  it('prices grams against a per-kilogram cost', () => {
+    const row = material({ qtyPerUnit: 120, unitCost: 5, consumptionUnit: 'g', purchaseUnit: 'kg' });
+    expect(recalculateMaterials([row], 50)[0].cost).toBeCloseTo(30);
+  });
+
+  it('moves rows into a cheaper tier when the batch grows', () => {
+    const row = material({ qtyPerUnit: 10, unitCost: 4.2, priceTiers: [{ minQty: 500, unitCost: 3.8 }] });
+    expect(recalculateMaterials([row], 40)[0].cost).toBeCloseTo(400 * 4.2);
+    expect(recalculateMaterials([row], 50)[0].cost).toBeCloseTo(500 * 3.8);
+  });
+
+  it('keeps a manual amount even when the row has details', () => {
+    const row = material({ costMode: 'manual', qtyPerUnit: 2, unitCost: 3, cost: 80 });
+    expect(recalculateMaterials([row], 10)[0].cost).toBe(80);
+  });
+
+  it('treats missing buffer as zero', () => {
+    const row = { ...material({ qtyPerUnit: 1, unitCost: 2 }), bufferUnits: undefined } as unknown as MaterialItem;
+    expect(recalculateMaterials([row], 5)[0].cost).toBe(10);
+  });
+
+  it('quotes parts for their sub-assembly, compounding each buffer down the tree', () => {
+    const rows = [
+      material({ id: 'frame', isAssembly: true, qtyPerUnit: 1, bufferUnits: 2, cost: 99 }),
+      material({ id: 'arm', isAssembly: true, parentId: 'frame', qtyPerUnit: 2, bufferUnits: 1 }),
+      material({ id: 'bolt', parentId: 'arm', qtyPerUnit: 3, unitCost: 1 }),
+    ];
+
+    // 10 frames + 2 spare = 12; 24 arms + 1 spare = 25; 75 bolts
+    expect(materialParentQuantities(rows, 10)).toEqual({ frame: 10, arm: 12, bolt: 25 });
+    const [frame, , bolt] = recalculateMaterials(rows, 10);
+    expect(bolt.cost).toBe(75);
+    expect(frame.cost).toBe(0);
+  });
+
+  it('treats rows under a missing or looping parent as top level', () => {
+    const rows = [
+      material({ id: 'a', isAssembly: true, parentId: 'b', qtyPerUnit: 2 }),
+      material({ id: 'b', isAssembly: true, parentId: 'a', qtyPerUnit: 2 }),
+      material({ id: 'orphan', parentId: 'gone', qtyPerUnit: 1, unitCost: 1 }),
+    ];
+    const quantities = materialParentQuantities(rows, 10);
+    expect(quantities.orphan).toBe(10);
+    expect(Number.isFinite(quantities.a) && Number.isFinite(quantities.b)).toBe(true);
+  });
+});
+
+describe('setMaterialCostMode', () => {
+  it('re-quotes a row switched to calculated and keeps the amount of a row switched to manual', () => {
+    const rows = [
+      material({ id: 'a', costMode: 'manual', qtyPerUnit: 2, unitCost: 3, cost: 80 }),
+      material({ id: 'b', qtyPerUnit: 1, unitCost: 4, cost: 40 }),
+    ];
+    expect(setMaterialCostMode(rows, 'a', 'calculated', 10)[0]).toMatchObject({ costMode: 'calculated', cost: 60 });
+    expect(setMaterialCostMode(rows, 'b', 'manual', 20)[1]).toMatchObject({ costMode: 'manual', cost: 40 });
+  });
+});
+
+describe('costModeSwitchWarning', () => {
+  const typed = material({ costMode: 'manual', qtyPerUnit: 2, unitCost: 3, cost: 80 });
+
+  it('warns before a typed amount is replaced by the quote', () => {
+    const next = setMaterialCostMode([typed], 'm1', 'calculated', 10);
+    expect(costModeSwitchWarning(typed, next)).toBe(
+      'Calculate "Aluminum" from its details? The manual amount of $80.00 will be replaced by $60.00.'
+    );
+  });
+
+  it('stays quiet when nothing typed would be lost', () => {
+    const quoted = material({ qtyPerUnit: 2, unitCost: 3, cost: 60 });
+    expect(costModeSwitchWarning(quoted, setMaterialCostMode([quoted], 'm1', 'manual', 10))).toBeNull();
+    const empty = material({ costMode: 'manual', qtyPerUnit: 2, unitCost: 3 });
+    expect(costModeSwitchWarning(empty, setMaterialCostMode([empty], 'm1', 'calculated', 10))).toBeNull();
+    const matching = material({ costMode: 'manual', qtyPerUnit: 2, unitCost: 3, cost: 60 });
+    expect(costModeSwitchWarning(matching, setMaterialCostMode([matching], 'm1', 'calculated', 10))).toBeNull();
+  });
+});
+
+describe('sumMaterialCosts', () => {
+  it('converts each row into the reporting currency', () => {
+    const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1 } };
+    const rows = [material({ cost: 100 }), material({ cost: 100, currency: 'EUR' })];
+    expect(sumMaterialCosts(rows, settings)).toBeCloseTo(210);
+  });
+
+  it('counts each part once and not its sub-assemblies', () => {
+    const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 2 } };
+    const rows = [
+      material({ id: 'frame', isAssembly: true }),
+      material({ id: 'arm', isAssembly: true, parentId: 'frame' }),
+      material({ id: 'tube', parentId: 'frame', cost: 30 }),
+      material({ id: 'bolt', parentId: 'arm', cost: 5, currency: 'EUR' }),
+      material({ id: 'box', cost: 20 }),
+    ];
+    expect(sumMaterialCosts(rows, settings)).toBe(60);
+    expect(rollUpMaterialCosts(rows, settings)).toEqual({ frame: 40, arm: 10, tube: 30, bolt: 10, box: 20 });
+  });
+});
+
+describe('isCalculatedMaterial / materialShare', () => {
+  it('follows the stored cost mode rather than the detail fields', () => {
+    expect(isCalculatedMaterial(material())).toBe(true);
+    expect(isCalculatedMaterial(material({ costMode: 'manual', qtyPerUnit: 1, unitCost: 1 }))).toBe(false);
+  });
+
+  it('returns 0 share when the batch total is 0', () => {
+    expect(materialShare(50, 200)).toBe(0.25);
+    expect(materialShare(50, 0)).toBe(0);
+  });
+});
+
+describe('calculateOperationCost / sumOperationCosts', () => {
+  it('charges run time per unit plus setup once per batch', () => {
+    // (6 min * 50 + 30 min) / 60 * 40/h
+    expect(calculateOperationCost(6, 30, 40, 50)).toBe(220);
+  });
+
+  it('charges only the setup for a zero batch', () => {
+    expect(calculateOperationCost(6, 30, 40, 0)).toBe(20);
+  });
+
+  it('converts each operation into the reporting currency', () => {
+    const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, MXN: 0.05 } };
+    const ops = [
+      operation({ minutesPerUnit: 60, hourlyRate: 10 }),
+      operation({ minutesPerUnit: 60, hourlyRate: 200, currency: 'MXN' }),
+    ];
+    expect(sumOperationCosts(ops, 2, settings)).toBeCloseTo(40);
+  });
+});
+
+describe('splitTax', () => {
+  const vat = { rate: 0.21, priceIncludesTax: true };
+
+  it('charges tax on the discounted price for trade terms', () => {
+    // 121 shelf price is 100 net; half of that is 50, plus 10.5 tax
+    const split = splitTax(121, 0.5, true, vat);
+    expect(split.netRevenue).toBeCloseTo(50);
+    expect(split.taxAmount).toBeCloseTo(10.5);
+    expect(split.discountAmount).toBeCloseTo(60.5);
+  });
+
+  it('charges tax on the full price when the discount comes after tax', () => {
+    // Customer pays 121 * 0.9 = 108.9, of which 21 is tax on the full price
+    const split = splitTax(121, 0.1, false, vat);
+    expect(split.taxAmount).toBeCloseTo(21);
+    expect(split.netRevenue).toBeCloseTo(87.9);
+    expect(split.discountAmount).toBeCloseTo(12.1);
+  });
+
+  it('adds tax on top of a tax-exclusive price', () => {
+    const split = splitTax(100, 0.5, true, { rate: 0.21, priceIncludesTax: false });
+    expect(split.netRevenue).toBeCloseTo(50);
+    expect(split.taxAmount).toBeCloseTo(10.5);
+    expect(split.discountAmount).toBeCloseTo(50);
+  });
+
+  it('leaves the price untouched at a zero rate', () => {
+    expect(splitTax(100, 0.5, false, { rate: 0, priceIncludesTax: true })).toEqual({
+      netRevenue: 50,
+      taxAmount: 0,
+      discountAmount: 50,
+    });
+  });
+});
+
+describe('computeOverheadLines', () => {
+  it('normalizes every frequency to a monthly figure in the reporting currency', () => {
+    const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1 } };
+    const lines = computeOverheadLines([
+      overhead({ id: 'rent', amount: 1000 }),
+      overhead({ id: 'software', amount: 300, frequency: 'quarterly' }),
+      overhead({ id: 'insurance', amount: 1200, frequency: 'annual', currency: 'EUR' }),
+    ], settings);
+
+    expect(lines.map(l => l.monthlyAmount)).toEqual([1000, 100, expect.closeTo(110)]);
+    expect(lines[0].share).toBeCloseTo(1000 / 1210);
+    expect(lines.reduce((acc, l) => acc + l.share, 0)).toBeCloseTo(1);
+  });
+
+  it('returns zero shares when there is no overhead', () => {
+    expect(computeOverheadLines([overhead()], { reportingCurrency: 'USD', exchangeRates: {} })[0].share).toBe(0);
+  });
+});
+
+describe('computeProductionMetrics', () => {
+  it('derives yield, multiplier and per-unit cost', () => {
+    const m = computeProductionMetrics(50, 10, 400);
+    expect(m.effectiveUnits).toBe(40);
+    expect(m.yieldRate).toBe(0.8);
+    expect(m.costMultiplier).toBeCloseTo(1.25);
+    expect(m.materialCostPerUnit).toBe(10);
+  });
+
+  it('spreads labor over the usable units', () => {
+    const m = computeProductionMetrics(50, 10, 400, 200);
+    expect(m.laborCostPerUnit).toBe(5);
+  });
+
+  it('spreads setup over the usable units', () => {
+    expect(computeProductionMetrics(50, 10, 400, 0, 120).setupCostPerUnit).toBe(3);
+  });
+
+  it('handles a zero batch without dividing by zero', () => {
+    expect(computeProductionMetrics(0, 0, 400)).toEqual({
+      effectiveUnits: 0,
+      yieldRate: 0,
+      costMultiplier: 0,
+      materialCostPerUnit: 0,
+      laborCostPerUnit: 0,
+      setupCostPerUnit: 0,
+    });
+  });
+
+  it('handles waste equal to the batch size', () => {
+    expect(computeProductionMetrics(20, 20, 400)).toEqual({
+      effectiveUnits: 0,
+      yieldRate: 0,
+      costMultiplier: 0,
+      materialCostPerUnit: 0,
+      laborCostPerUnit: 0,
+      setupCostPerUnit: 0,
+    });
+  });
+
+  it('clamps waste larger than the batch', () => {
+    expect(computeProductionMetrics(20, 25, 400).effectiveUnits).toBe(0);
+  });
+});
+
+describe('computeFinancials', () => {
+  it('reproduces the default dashboard figures', () => {
+    const report = computeFinancials(INITIAL_STATE);
+
+    expect(report.totalDevCost).toBe(9700);
+    expect(report.amortPerUnit).toBeCloseTo(9.7);
+    expect(report.totalBatchMaterialCost).toBe(450);
+    expect(report.effectiveUnits).toBe(48);
+    expect(report.materialCostPerUnit).toBeCloseTo(9.375);
+    expect(report.cogs).toBeCloseTo(19.075);
+    expect(report.scenarios.map(s => s.id)).toEqual(DEFAULT_SCENARIOS.map(s => s.id));
+    expect(report.unresolvedCurrencies).toEqual([]);
+  });
+
+  it('flags currencies the totals count 1:1 for lack of a rate', () => {
+    const state = {
+      ...INITIAL_STATE,
+      overheads: [...INITIAL_STATE.overheads, { id: 'o-gbp', name: 'London desk', amount: 100, frequency: 'monthly' as const, currency: 'GBP' }],
+      exchangeRates: { ...INITIAL_STATE.exchangeRates, GBP: 0 },
+    };
+    expect(computeFinancials(state).unresolvedCurrencies).toEqual(['GBP']);
+  });
+
+  it('computes a channel net of discount, royalty and commission', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [],
+      materials: [material({ cost: 100 })],
+      batchSize: 10,
+      wasteCount: 0,
+      publicPrice: 100,
+      designerRoyaltyPercent: 0.1,
+      overheads: [overhead({ amount: 1000 })],
+    }));
+    const agent = report.scenarios.find(s => s.id === 'agent')!;
+
+    // 100 * 0.5 = 50 net; royalty 5; commission 1.25; COGS 10
+    expect(agent.netRevenue).toBe(50);
+    expect(agent.grossMargin).toBeCloseTo(33.75);
+    expect(agent.profit).toBeCloseTo(33.75);
+    expect(agent.breakEvenUnits).toBe(30);
+    expect(agent.isProfitable).toBe(true);
+    expect(agent.roi).toBeCloseTo(337.5);
+  });
+
+  it('splits each break-even volume across the overhead lines', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [],
+      materials: [],
+      publicPrice: 100,
+      designerRoyaltyPercent: 0,
+      overheads: [
+        overhead({ id: 'rent', amount: 900 }),
+        overhead({ id: 'insurance', amount: 1200, frequency: 'annual' }),
+      ],
+      channels: [{ id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' }],
+    }));
+    const [retail] = report.scenarios;
+
+    expect(report.fixedMonthlyExpenses).toBe(1000);
+    expect(retail.breakEvenUnits).toBe(20);
+    expect(retail.breakEvenByOverhead).toEqual({ rent: 18, insurance: 2 });
+  });
+
+  it('reports Infinity per overhead line for loss-making channels', () => {
+    const report = computeFinancials(makeState({ publicPrice: 10 }));
+    const retail = report.scenarios.find(s => s.id === 'retail')!;
+    expect(Object.values(retail.breakEvenByOverhead).every(units => units === Infinity)).toBe(true);
+  });
+
+  it('computes one result per user-defined channel, in order', () => {
+    const report = computeFinancials(makeState({
+      channels: [
+        { id: 'amazon', name: 'Amazon', discountPercent: 0.15, commissionPercent: 0.08, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: 'Marketplace' },
+        { id: 'fair', name: 'Trade Show', discountPercent: 0.1, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+      ],
+    }));
+
+    expect(report.scenarios.map(s => s.name)).toEqual(['Amazon', 'Trade Show']);
+    expect(report.scenarios[0]).toMatchObject({ discountPercent: 0.15, commissionPercent: 0.08, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: 'Marketplace' });
+  });
+
+  it('returns no results without channels', () => {
+    expect(computeFinancials(makeState({ channels: [] })).scenarios).toEqual([]);
+  });
+
+  it('adds labor to COGS and inflates it with waste', () => {
+    const base = makeState({
+      devCosts: [],
+      materials: [material({ cost: 100 })],
+      operations: [operation({ minutesPerUnit: 30, setupMinutes: 60, hourlyRate: 20 })],
+      batchSize: 10,
+      wasteCount: 0,
+    });
+
+    // (30 * 10 + 60) / 60 * 20 = 120 per batch
+    const clean = computeFinancials(base);
+    expect(clean.totalBatchLaborCost).toBe(120);
+    expect(clean.laborCostPerUnit).toBe(12);
+    expect(clean.cogs).toBe(22);
+
+    const wasteful = computeFinancials({ ...base, wasteCount: 2 });
+    expect(wasteful.laborCostPerUnit).toBe(15);
+    expect(wasteful.cogs).toBeCloseTo(27.5);
+  });
+
+  it('spreads per-batch setup costs over the good units', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [],
+      materials: [material({ cost: 100 })],
+      setupCosts: [
+        { id: 'jig', name: 'Jig setup', amount: 30, currency: 'USD' },
+        { id: 'qa', name: 'First-article QA', amount: 20, currency: 'EUR' },
+      ],
+      exchangeRates: { ...INITIAL_STATE.exchangeRates, EUR: 2 },
+      batchSize: 10,
+      wasteCount: 2,
+    }));
+    const [channel] = report.scenarios;
+
+    // 30 + 20 EUR * 2 = 70 per batch over 8 good units; the ideal share is 7
+    expect(report.totalBatchSetupCost).toBe(70);
+    expect(report.setupCostPerUnit).toBe(8.75);
+    expect(report.cogs).toBeCloseTo(12.5 + 8.75);
+    expect(channel.setupCost).toBe(7);
+    expect(channel.materialCost + channel.setupCost + channel.wasteImpact).toBeCloseTo(report.cogs);
+  });
+
+  it('reports each sub-assembly in tree order with its share of the unit cost', () => {
+    const report = computeFinancials(makeState({
+      materials: [
+        material({ id: 'box', cost: 20 }),
+        material({ id: 'frame', name: 'Frame', isAssembly: true }),
+        material({ id: 'tube', parentId: 'arm', cost: 30 }),
+        material({ id: 'arm', name: 'Arm', isAssembly: true, parentId: 'frame' }),
+      ],
+      batchSize: 10,
+      wasteCount: 0,
+    }));
+
+    expect(report.totalBatchMaterialCost).toBe(50);
+    expect(report.subAssemblies).toEqual([
+      { id: 'frame', name: 'Frame', depth: 0, batchCost: 30, costPerUnit: 3, share: 0.6 },
+      { id: 'arm', name: 'Arm', depth: 1, batchCost: 30, costPerUnit: 3, share: 0.6 },
+    ]);
+  });
+
+  it('breaks each channel down into a price waterfall that ends at profit', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [{ id: 'd', name: 'Tooling', amount: 500, currency: 'USD' }],
+      amortizationQty: 100,
+      materials: [material({ cost: 100 })],
+      operations: [operation({ minutesPerUnit: 30, setupMinutes: 60, hourlyRate: 20 })],
+      batchSize: 10,
+      wasteCount: 2,
+      publicPrice: 100,
+      designerRoyaltyPercent: 0.1,
+    }));
+    const agent = report.scenarios.find(s => s.id === 'agent')!;
+
+    // Perfect batch: 10 material + 12 labor; 8 good units: 12.5 + 15, so waste adds 5.5
+    expect(agent.discountAmount).toBe(50);
+    expect(agent.royaltyAmount).toBe(5);
+    expect(agent.commissionAmount).toBeCloseTo(1.25);
+    expect(agent.materialCost).toBe(10);
+    expect(agent.laborCost).toBe(12);
+    expect(agent.wasteImpact).toBeCloseTo(5.5);
+    expect(agent.amortization).toBe(5);
+
+    const steps = agent.discountAmount + agent.royaltyAmount + agent.commissionAmount
+      + agent.materialCost + agent.laborCost + agent.wasteImpact + agent.amortization;
+    expect(100 - steps).toBeCloseTo(agent.profit);
+    expect(agent.materialCost + agent.laborCost + agent.wasteImpact + agent.amortization).toBeCloseTo(report.cogs);
+  });
+
+  it('subtracts per-channel selling costs from the margin', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [],
+      materials: [material({ cost: 100 })],
+      batchSize: 10,
+      wasteCount: 0,
+      publicPrice: 100,
+      designerRoyaltyPercent: 0,
+      channels: [{
+        ...DEFAULT_SCENARIOS[0],
+        paymentFeePercent: 0.03,
+        transactionFee: 4,
+        unitsPerTransaction: 2,
+        shippingCost: 6,
+        packagingCost: 2,
+        returnRate: 0.1,
+      }],
+    }));
+    const [direct] = report.scenarios;
+
+    // Fee 3, transaction 4 / 2 = 2, shipping 6, packaging 2, returns 10% of (10 + 6 + 2)
+    expect(direct.paymentFeeAmount).toBeCloseTo(3);
+    expect(direct.transactionFeeAmount).toBe(2);
+    expect(direct.returnsAmount).toBeCloseTo(1.8);
+    expect(direct.channelCostAmount).toBeCloseTo(14.8);
+    expect(direct.grossMargin).toBeCloseTo(100 - 10 - 14.8);
+  });
+
+  it('charges the payment fee on the tax-inclusive amount', () => {
+    const report = computeFinancials(makeState({
+      publicPrice: 121,
+      tax: { rate: 0.21, priceIncludesTax: true },
+      channels: [{ ...DEFAULT_SCENARIOS[1] }],
+    }));
+    expect(report.scenarios[0].paymentFeeAmount).toBeCloseTo(121 * 0.035);
+  });
+
+  it('computes every channel net of tax', () => {
+    const report = computeFinancials(makeState({ publicPrice: 121, tax: { rate: 0.21, priceIncludesTax: true } }));
+    const direct = report.scenarios.find(s => s.id === 'direct')!;
+    expect(direct.netRevenue).toBeCloseTo(100);
+    expect(direct.taxAmount).toBeCloseTo(21);
+    expect(direct.royaltyAmount).toBeCloseTo(5);
+  });
+
+  it('skips amortization when amortizationQty is zero', () => {
+    const report = computeFinancials(makeState({ amortizationQty: 0 }));
+    expect(report.amortPerUnit).toBe(0);
+    expect(report.cogs).toBeCloseTo(report.materialCostPerUnit);
+  });
+
+  it('keeps the report finite for a zero batch', () => {
+    const report = computeFinancials(makeState({ batchSize: 0, wasteCount: 0 }));
+    expect(report.materialCostPerUnit).toBe(0);
+    expect(Number.isFinite(report.cogs)).toBe(true);
+  });
+
+  it('keeps the report finite when every unit is wasted', () => {
+    const report = computeFinancials(makeState({ batchSize: 50, wasteCount: 50 }));
+    expect(report.yieldRate).toBe(0);
+    expect(report.materialCostPerUnit).toBe(0);
+  });
+
+  it('returns an Infinity break-even for loss-making channels', () => {
+    const report = computeFinancials(makeState({ publicPrice: 10 }));
+    const retail = report.scenarios.find(s => s.id === 'retail')!;
+
+    expect(retail.grossMargin).toBeLessThan(0);
+    expect(retail.breakEvenUnits).toBe(Infinity);
+    expect(retail.isProfitable).toBe(false);
+  });
+
+  it('returns an Infinity break-even for a zero margin', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [],
+      materials: [],
+      publicPrice: 0,
+      designerRoyaltyPercent: 0,
+    }));
+    expect(report.scenarios.every(s => s.breakEvenUnits === Infinity)).toBe(true);
+    expect(report.scenarios.every(s => s.roi === 0)).toBe(true);
+  });
+
+  it('reports every total in the reporting currency', () => {
+    const report = computeFinancials(makeState({
+      devCosts: [{ id: 'd', name: 'Tooling', amount: 1000, currency: 'EUR' }],
+      amortizationQty: 100,
+      materials: [material({ cost: 2000, currency: 'MXN' })],
+      batchSize: 10,
+      wasteCount: 0,
+      reportingCurrency: 'USD',
+      exchangeRates: { USD: 1, EUR: 1.1, MXN: 0.05 },
+    }));
+
+    expect(report.totalDevCost).toBeCloseTo(1100);
+    expect(report.amortPerUnit).toBeCloseTo(11);
+    expect(report.totalBatchMaterialCost).toBeCloseTo(100);
+    expect(report.cogs).toBeCloseTo(21);
+  });
+
+  it('does not mutate its input', () => {
+    const state = makeState();
+    const snapshot = JSON.stringify(state);
+    computeFinancials(state);
+    expect(JSON.stringify(state)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,433 @@
+import {
+  CurrencySettings,
+  FinancialState,
+  FinancialReport,
+  MaterialCostMode,
+  MaterialItem,
+  OperationItem,
+  OverheadItem,
+  OverheadLine,
+  PriceTier,
+  ActivePriceTier,
+  ProductionMetrics,
+  SalesScenario,
+  ScenarioResult,
+  SubAssemblyCost,
+  TaxSettings,
+  UnitCostBreakdown,
+} from '../types';
+import { OVERHEAD_FREQUENCIES } from '../constants';
+import { materialTree } from './bomTree';
+import { formatMoney, toReportingCurrency, unresolvedCurrencies } from './currency';
+import { materialUnitFactor } from './units';
+
+// --- LOGIC KERNEL ---
+// Pure, framework-free costing math. Everything the dashboard displays is
+// derived from FinancialState through this module.
+
+// Total material the batch consumes: (Qty * BatchSize) + Buffer, times `unitFactor`
+// to express it in the unit the material is bought and priced in
+export const materialBatchQuantity = (
+  qtyPerUnit: number,
+  bufferUnits: number,
+  batchSize: number,
+  unitFactor = 1
+): number =>
+  ((qtyPerUnit * batchSize) + bufferUnits) * unitFactor;
+
+// Picks the highest break the quantity reaches; below every break the base unitCost applies.
+// Tiers may be stored in any order.
+export const resolvePriceTier = (
+  baseUnitCost: number,
+  tiers: PriceTier[],
+  quantity: number
+): ActivePriceTier => {
+  const ordered = tiers
+    .map((tier, index) => ({ tier, index }))
+    .sort((a, b) => a.tier.minQty - b.tier.minQty);
+
+  let active: { tier: PriceTier; index: number } | null = null;
+  let next: { tier: PriceTier; index: number } | null = null;
+  for (const entry of ordered) {
+    if (quantity >= entry.tier.minQty) {
+      active = entry;
+    } else {
+      next = entry;
+      break;
+    }
+  }
+
+  return {
+    unitCost: active ? active.tier.unitCost : baseUnitCost,
+    tierIndex: active ? active.index : -1,
+    nextBreak: next ? next.tier : null,
+    unitsToNextBreak: next ? next.tier.minQty - quantity : 0,
+  };
+};
+
+// Formula: ((Qty * BatchSize) + Buffer) * UnitFactor * UnitCost, with UnitCost taken from the
+// matching tier. UnitFactor converts consumption units to purchase units (e.g. 0.001 for g -> kg).
+export const calculateMaterialCost = (
+  qtyPerUnit: number,
+  bufferUnits: number,
+  unitCost: number,
+  batchSize: number,
+  priceTiers: PriceTier[] = [],
+  unitFactor = 1
+): number => {
+  const quantity = materialBatchQuantity(qtyPerUnit, bufferUnits, batchSize, unitFactor);
+  return quantity * resolvePriceTier(unitCost, priceTiers, quantity).unitCost;
+};
+
+export const isCalculatedMaterial = (material: MaterialItem): boolean =>
+  material.costMode === 'calculated';
+
+// The sub-assembly a row belongs to; rows with a missing or non-assembly parent sit at the top
+const findParentAssembly = (byId: Map<string, MaterialItem>, row: MaterialItem): MaterialItem | undefined => {
+  const parent = row.parentId ? byId.get(row.parentId) : undefined;
+  return parent && parent.isAssembly ? parent : undefined;
+};
+
+// How many parents each row's qtyPerUnit is multiplied by: batchSize at the top level,
+// otherwise the parent sub-assembly's built quantity including its buffer, so buffers
+// compound down the tree. Cycles (rejected by validation) are cut at the top level.
+export const materialParentQuantities = (materials: MaterialItem[], batchSize: number): Record<string, number> => {
+  const byId = new Map(materials.map(m => [m.id, m]));
+  const quantities: Record<string, number> = {};
+
+  const resolve = (row: MaterialItem, path: Set<string>): number => {
+    if (quantities[row.id] !== undefined) return quantities[row.id];
+    const parent = findParentAssembly(byId, row);
+    let quantity = batchSize;
+    if (parent && !path.has(parent.id)) {
+      path.add(row.id);
+      quantity = materialBatchQuantity(parent.qtyPerUnit, parent.bufferUnits, resolve(parent, path));
+    }
+    quantities[row.id] = quantity;
+    return quantity;
+  };
+
+  materials.forEach(m => resolve(m, new Set()));
+  return quantities;
+};
+
+// Re-derive calculated rows for a new batch size, leaving manual rows untouched.
+export const recalculateMaterials = (materials: MaterialItem[], batchSize: number): MaterialItem[] => {
+  const parentQuantities = materialParentQuantities(materials, batchSize);
+  return materials.map(m => {
+    // Sub-assemblies are priced through their parts
+    if (m.isAssembly) return m.cost === 0 ? m : { ...m, cost: 0 };
+    if (typeof m.qtyPerUnit !== 'number' || typeof m.unitCost !== 'number') return m;
+    if (!isCalculatedMaterial(m)) return m;
+    return {
+      ...m,
+      cost: calculateMaterialCost(
+        m.qtyPerUnit,
+        m.bufferUnits || 0,
+        m.unitCost,
+        parentQuantities[m.id],
+        m.priceTiers || [],
+        materialUnitFactor(m)
+      ),
+    };
+  });
+};
+
+// Switches one row's cost mode. A row switched to calculated is re-quoted from its details,
+// replacing any manual amount; a row switched to manual keeps its current cost as the amount.
+export const setMaterialCostMode = (
+  materials: MaterialItem[],
+  id: string,
+  costMode: MaterialCostMode,
+  batchSize: number
+): MaterialItem[] =>
+  recalculateMaterials(materials.map(m => (m.id === id ? { ...m, costMode } : m)), batchSize);
+
+// The confirmation to show before `item` becomes its row in `next` (the materials after
+// setMaterialCostMode), or null when no typed amount would be replaced.
+export const costModeSwitchWarning = (item: MaterialItem, next: MaterialItem[]): string | null => {
+  const switched = next.find(m => m.id === item.id);
+  if (!switched || !isCalculatedMaterial(switched) || isCalculatedMaterial(item)) return null;
+  if (item.cost === 0 || switched.cost === item.cost) return null;
+  return `Calculate "${item.name || 'this material'}" from its details? The manual amount of ${formatMoney(item.cost, item.currency)} will be replaced by ${formatMoney(switched.cost, item.currency)}.`;
+};
+
+// Batch cost of one row expressed in the reporting currency
+export const materialCostInReporting = (material: MaterialItem, settings: CurrencySettings): number =>
+  toReportingCurrency(material.cost, material.currency, settings);
+
+export const sumMaterialCosts = (materials: MaterialItem[], settings: CurrencySettings): number =>
+  materials.reduce((acc, item) => (item.isAssembly ? acc : acc + materialCostInReporting(item, settings)), 0);
+
+// Batch cost of every row in the reporting currency; a sub-assembly's is the sum of all its parts
+export const rollUpMaterialCosts = (materials: MaterialItem[], settings: CurrencySettings): Record<string, number> => {
+  const byId = new Map(materials.map(m => [m.id, m]));
+  const totals: Record<string, number> = Object.fromEntries(materials.map(m => [m.id, 0]));
+
+  materials.forEach(part => {
+    if (part.isAssembly) return;
+    const cost = materialCostInReporting(part, settings);
+    totals[part.id] += cost;
+    const seen = new Set([part.id]);
+    for (let parent = findParentAssembly(byId, part); parent && !seen.has(parent.id); parent = findParentAssembly(byId, parent)) {
+      seen.add(parent.id);
+      totals[parent.id] += cost;
+    }
+  });
+  return totals;
+};
+
+// Share of a single row in the batch total, 0 to 1
+export const materialShare = (cost: number, totalBatchCost: number): number =>
+  totalBatchCost > 0 ? cost / totalBatchCost : 0;
+
+// Formula: ((MinutesPerUnit * BatchSize) + SetupMinutes) / 60 * HourlyRate
+export const calculateOperationCost = (
+  minutesPerUnit: number,
+  setupMinutes: number,
+  hourlyRate: number,
+  batchSize: number
+): number => (((minutesPerUnit * batchSize) + setupMinutes) / 60) * hourlyRate;
+
+// Batch cost of one operation expressed in the reporting currency
+export const operationCostInReporting = (
+  operation: OperationItem,
+  batchSize: number,
+  settings: CurrencySettings
+): number =>
+  toReportingCurrency(
+    calculateOperationCost(operation.minutesPerUnit, operation.setupMinutes, operation.hourlyRate, batchSize),
+    operation.currency,
+    settings
+  );
+
+export const sumOperationCosts = (
+  operations: OperationItem[],
+  batchSize: number,
+  settings: CurrencySettings
+): number => operations.reduce((acc, op) => acc + operationCostInReporting(op, batchSize, settings), 0);
+
+// Module B: yield and the per-unit production costs it implies.
+// Labor is spent on every unit in the batch, so waste inflates it exactly like materials.
+export const computeProductionMetrics = (
+  batchSize: number,
+  wasteCount: number,
+  totalBatchMaterialCost: number,
+  totalBatchLaborCost = 0,
+  totalBatchSetupCost = 0
+): ProductionMetrics => {
+  const effectiveUnits = Math.max(0, batchSize - wasteCount);
+  const yieldRate = batchSize > 0 ? effectiveUnits / batchSize : 0;
+
+  return {
+    effectiveUnits,
+    yieldRate,
+    costMultiplier: yieldRate > 0 ? 1 / yieldRate : 0,
+    materialCostPerUnit: effectiveUnits > 0 ? totalBatchMaterialCost / effectiveUnits : 0,
+    laborCostPerUnit: effectiveUnits > 0 ? totalBatchLaborCost / effectiveUnits : 0,
+    setupCostPerUnit: effectiveUnits > 0 ? totalBatchSetupCost / effectiveUnits : 0,
+  };
+};
+
+// Overhead normalized to one month, in the reporting currency
+export const monthlyOverheadAmount = (item: OverheadItem, settings: CurrencySettings): number => {
+  const months = OVERHEAD_FREQUENCIES.find(f => f.value === item.frequency)?.months || 1;
+  return toReportingCurrency(item.amount, item.currency, settings) / months;
+};
+
+export const computeOverheadLines = (overheads: OverheadItem[], settings: CurrencySettings): OverheadLine[] => {
+  const amounts = overheads.map(item => monthlyOverheadAmount(item, settings));
+  const total = amounts.reduce((acc, amount) => acc + amount, 0);
+  return overheads.map((item, i) => ({
+    id: item.id,
+    name: item.name,
+    monthlyAmount: amounts[i],
+    share: total > 0 ? amounts[i] / total : 0,
+  }));
+};
+
+// Module C: one result per sales channel
+// Splits one sale into what we keep and the tax we pass on. With discountBeforeTax the tax
+// is charged on the discounted price; otherwise it is charged on the full price and the
+// discount comes off the tax-inclusive total. discountAmount is measured against
+// publicPrice so the price waterfall adds up either way.
+export const splitTax = (
+  publicPrice: number,
+  discountPercent: number,
+  discountBeforeTax: boolean,
+  tax: TaxSettings
+): { netRevenue: number; taxAmount: number; discountAmount: number } => {
+  const netPrice = tax.priceIncludesTax ? publicPrice / (1 + tax.rate) : publicPrice;
+
+  let netRevenue: number;
+  let taxAmount: number;
+  if (discountBeforeTax) {
+    netRevenue = netPrice * (1 - discountPercent);
+    taxAmount = netRevenue * tax.rate;
+  } else {
+    taxAmount = netPrice * tax.rate;
+    netRevenue = netPrice * (1 + tax.rate) * (1 - discountPercent) - taxAmount;
+  }
+
+  const taxInPrice = tax.priceIncludesTax ? taxAmount : 0;
+  return { netRevenue, taxAmount, discountAmount: publicPrice - taxInPrice - netRevenue };
+};
+
+// Per-unit cost of selling through a channel. The payment fee is charged on what the
+// customer pays (tax included); a returned or damaged unit is replaced, costing another
+// unit plus its shipping and packaging.
+export const computeChannelCosts = (
+  channel: SalesScenario,
+  customerPays: number,
+  cogs: number
+): Pick<
+  ScenarioResult,
+  'paymentFeeAmount' | 'transactionFeeAmount' | 'shippingAmount' | 'packagingAmount' | 'returnsAmount' | 'channelCostAmount'
+> => {
+  const paymentFeeAmount = customerPays * channel.paymentFeePercent;
+  const transactionFeeAmount = channel.transactionFee / Math.max(channel.unitsPerTransaction, 1);
+  const shippingAmount = channel.shippingCost;
+  const packagingAmount = channel.packagingCost;
+  const returnsAmount = channel.returnRate * (cogs + shippingAmount + packagingAmount);
+  return {
+    paymentFeeAmount,
+    transactionFeeAmount,
+    shippingAmount,
+    packagingAmount,
+    returnsAmount,
+    channelCostAmount: paymentFeeAmount + transactionFeeAmount + shippingAmount + packagingAmount + returnsAmount,
+  };
+};
+
+export const computeScenarios = (
+  state: FinancialState,
+  unitCosts: UnitCostBreakdown,
+  overheadLines: OverheadLine[]
+): ScenarioResult[] => {
+  const cogs = unitCosts.material + unitCosts.labor + unitCosts.setup + unitCosts.wasteImpact + unitCosts.amortization;
+  const fixedMonthlyExpenses = overheadLines.reduce((acc, line) => acc + line.monthlyAmount, 0);
+
+  return state.channels.map(channel => {
+    const { netRevenue, taxAmount, discountAmount } = splitTax(
+      state.publicPrice,
+      channel.discountPercent,
+      channel.discountBeforeTax,
+      state.tax
+    );
+    const royaltyAmount = netRevenue * state.designerRoyaltyPercent;
+    const commissionAmount = netRevenue * channel.commissionPercent;
+    const channelCosts = computeChannelCosts(channel, netRevenue + taxAmount, cogs);
+
+    const grossMargin = netRevenue - cogs - royaltyAmount - commissionAmount - channelCosts.channelCostAmount;
+    const profit = grossMargin; // Per unit
+
+    // BEP: Fixed / Margin per unit
+    const breakEvenUnits = grossMargin > 0
+      ? Math.ceil(fixedMonthlyExpenses / grossMargin)
+      : Infinity;
+
+    // Unrounded, so the lines add up to the exact volume before rounding
+    const breakEvenByOverhead = Object.fromEntries(
+      overheadLines.map(line => [line.id, grossMargin > 0 ? line.monthlyAmount / grossMargin : Infinity])
+    );
+
+    return {
+      ...channel,
+      discountAmount,
+      taxAmount,
+      royaltyAmount,
+      commissionAmount,
+      ...channelCosts,
+      materialCost: unitCosts.material,
+      laborCost: unitCosts.labor,
+      setupCost: unitCosts.setup,
+      wasteImpact: unitCosts.wasteImpact,
+      amortization: unitCosts.amortization,
+      netRevenue,
+      grossMargin,
+      profit,
+      breakEvenUnits,
+      breakEvenByOverhead,
+      isProfitable: profit > 0,
+      roi: cogs > 0 ? (profit / cogs) * 100 : 0,
+    };
+  });
+};
+
+export const computeFinancials = (state: FinancialState): FinancialReport => {
+  // Module A
+  const totalDevCost = state.devCosts.reduce(
+    (acc, item) => acc + toReportingCurrency(item.amount, item.currency, state),
+    0
+  );
+  const amortPerUnit = state.amortizationQty > 0 ? totalDevCost / state.amortizationQty : 0;
+
+  // Module B
+  const totalBatchMaterialCost = sumMaterialCosts(state.materials, state);
+  const totalBatchLaborCost = sumOperationCosts(state.operations, state.batchSize, state);
+  const totalBatchSetupCost = state.setupCosts.reduce(
+    (acc, item) => acc + toReportingCurrency(item.amount, item.currency, state),
+    0
+  );
+  const production = computeProductionMetrics(
+    state.batchSize,
+    state.wasteCount,
+    totalBatchMaterialCost,
+    totalBatchLaborCost,
+    totalBatchSetupCost
+  );
+  const cogs = production.materialCostPerUnit + production.laborCostPerUnit + production.setupCostPerUnit + amortPerUnit;
+
+  // Each sub-assembly's share of the material cost, spread over sellable units like the rest of COGS
+  const rolledUp = rollUpMaterialCosts(state.materials, state);
+  const subAssemblies: SubAssemblyCost[] = materialTree(state.materials)
+    .filter(({ item }) => item.isAssembly)
+    .map(({ item, depth }) => ({
+      id: item.id,
+      name: item.name,
+      depth,
+      batchCost: rolledUp[item.id],
+      costPerUnit: production.effectiveUnits > 0 ? rolledUp[item.id] / production.effectiveUnits : 0,
+      share: totalBatchMaterialCost > 0 ? rolledUp[item.id] / totalBatchMaterialCost : 0,
+    }));
+
+  // What the batch would cost per unit with no waste; the rest is waste impact
+  const idealUnits = production.effectiveUnits > 0 ? state.batchSize : 0;
+  const perIdealUnit = (batchCost: number) => (idealUnits > 0 ? batchCost / idealUnits : 0);
+  const unitCosts: UnitCostBreakdown = {
+    material: perIdealUnit(totalBatchMaterialCost),
+    labor: perIdealUnit(totalBatchLaborCost),
+    setup: perIdealUnit(totalBatchSetupCost),
+    wasteImpact: production.materialCostPerUnit + production.laborCostPerUnit + production.setupCostPerUnit
+      - perIdealUnit(totalBatchMaterialCost + totalBatchLaborCost + totalBatchSetupCost),
+    amortization: amortPerUnit,
+  };
+
+  // Module C
+  const overheadLines = computeOverheadLines(state.overheads, state);
+  const fixedMonthlyExpenses = overheadLines.reduce((acc, line) => acc + line.monthlyAmount, 0);
+
+  return {
+    totalDevCost,
+    amortPerUnit,
+    totalBatchMaterialCost,
+    totalBatchLaborCost,
+    totalBatchSetupCost,
+    subAssemblies,
+    ...production,
+    cogs,
+    fixedMonthlyExpenses,
+    overheadLines,
+    scenarios: computeScenarios(state, unitCosts, overheadLines),
+    unresolvedCurrencies: unresolvedCurrencies(
+      [
+        ...state.devCosts.map(d => d.currency),
+        ...state.materials.filter(m => !m.isAssembly).map(m => m.currency),
+        ...state.operations.map(o => o.currency),
+        ...state.setupCosts.map(s => s.currency),
+        ...state.overheads.map(o => o.currency),
+      ],
+      state
+    ),
+  };
+};
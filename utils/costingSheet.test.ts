@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { MaterialItem } from '../types';
+import { buildBomRows } from './costingSheet';
+
+const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 2 } };
+
+const materials: MaterialItem[] = [
+  {
+    id: 'tube',
+    name: 'Tube',
+    cost: 50,
+    costMode: 'calculated',
+    qtyPerUnit: 2,
+    bufferUnits: 5,
+    unitCost: 3,
+    priceTiers: [{ minQty: 20, unitCost: 2 }],
+    consumptionUnit: 'mm',
+    purchaseUnit: 'mm',
+    currency: 'USD',
+    notes: '',
+    libraryId: null,
+    priceDate: null,
+    parentId: null,
+    isAssembly: false,
+  },
+  { id: 'finish', name: 'Powder Coat', cost: 25, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'EUR', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+];
+
+describe('buildBomRows', () => {
+  it('shows the batch quantity and the price break that applies', () => {
+    const [tube] = buildBomRows(materials, 10, settings);
+    expect(tube).toMatchObject({ isCalculated: true, batchQuantity: 25, unit: 'mm', unitCost: 2, cost: 50, reportingCost: 50 });
+  });
+
+  it('leaves the quantity blank for manual rows', () => {
+    const [, finish] = buildBomRows(materials, 10, settings);
+    expect(finish).toMatchObject({ isCalculated: false, batchQuantity: 0, unitCost: 0, cost: 25, currency: 'EUR' });
+  });
+
+  it('gives each row its share of the batch in the reporting currency', () => {
+    const rows = buildBomRows(materials, 10, settings);
+    expect(rows.map(r => r.share)).toEqual([0.5, 0.5]);
+    expect(buildBomRows([], 10, settings)).toEqual([]);
+  });
+
+  it('lists parts under their sub-assembly with its rolled-up cost', () => {
+    const frame = { ...materials[1], id: 'frame', name: 'Frame', qtyPerUnit: 1, bufferUnits: 0, cost: 0, isAssembly: true };
+    const rows = buildBomRows([materials[1], { ...materials[0], parentId: 'frame' }, frame], 10, settings);
+    expect(rows.map(r => [r.id, r.depth])).toEqual([['finish', 0], ['frame', 0], ['tube', 1]]);
+    expect(rows[1]).toMatchObject({ isAssembly: true, batchQuantity: 10, unitCost: 5, cost: 50, currency: 'USD', share: 0.5 });
+  });
+});
@@ -0,0 +1,63 @@
+import { BomReportRow, CurrencySettings, MaterialItem } from '../types';
+import {
+  isCalculatedMaterial,
+  materialBatchQuantity,
+  materialCostInReporting,
+  materialParentQuantities,
+  materialShare,
+  resolvePriceTier,
+  rollUpMaterialCosts,
+  sumMaterialCosts,
+} from './costingEngine';
+import { materialTree } from './bomTree';
+import { materialUnitFactor } from './units';
+
+// The BOM as the Material Manager shows it, flattened in tree order for the printed sheet
+export const buildBomRows = (
+  materials: MaterialItem[],
+  batchSize: number,
+  settings: CurrencySettings
+): BomReportRow[] => {
+  const totalBatchCost = sumMaterialCosts(materials, settings);
+  const parentQuantities = materialParentQuantities(materials, batchSize);
+  const rolledUp = rollUpMaterialCosts(materials, settings);
+  return materialTree(materials).map(({ item, depth }) => {
+    if (item.isAssembly) {
+      // Built in pieces and priced at its parts' cost, already in the reporting currency
+      const batchQuantity = materialBatchQuantity(item.qtyPerUnit, item.bufferUnits, parentQuantities[item.id]);
+      return {
+        id: item.id,
+        name: item.name,
+        depth,
+        isAssembly: true,
+        isCalculated: true,
+        batchQuantity,
+        unit: 'pcs',
+        unitCost: batchQuantity > 0 ? rolledUp[item.id] / batchQuantity : 0,
+        cost: rolledUp[item.id],
+        currency: settings.reportingCurrency,
+        reportingCost: rolledUp[item.id],
+        share: materialShare(rolledUp[item.id], totalBatchCost),
+      };
+    }
+    const isCalculated = isCalculatedMaterial(item);
+    const batchQuantity = isCalculated
+      ? materialBatchQuantity(item.qtyPerUnit, item.bufferUnits, parentQuantities[item.id], materialUnitFactor(item))
+      : 0;
+    const reportingCost = materialCostInReporting(item, settings);
+    return {
+      id: item.id,
+      name: item.name,
+      depth,
+      isAssembly: false,
+      isCalculated,
+      batchQuantity,
+      unit: item.purchaseUnit,
+      unitCost: isCalculated ? resolvePriceTier(item.unitCost, item.priceTiers, batchQuantity).unitCost : 0,
+      cost: item.cost,
+      currency: item.currency,
+      reportingCost,
+      share: materialShare(reportingCost, totalBatchCost),
+    };
+  });
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { changeReportingCurrency, formatMoney, rebaseExchangeRates, toReportingCurrency, unresolvedCurrencies } from './currency';
+
+const settings = { reportingCurrency: 'USD', exchangeRates: { USD: 1, EUR: 1.1, MXN: 0.05 } };
+
+describe('toReportingCurrency', () => {
+  it('converts with the project rate', () => {
+    expect(toReportingCurrency(100, 'EUR', settings)).toBeCloseTo(110);
+    expect(toReportingCurrency(100, 'USD', settings)).toBe(100);
+  });
+
+  it('passes amounts through when a rate is missing', () => {
+    expect(toReportingCurrency(100, 'GBP', settings)).toBe(100);
+  });
+});
+
+describe('unresolvedCurrencies', () => {
+  it('lists each used currency without a positive rate once', () => {
+    const withZero = { ...settings, exchangeRates: { ...settings.exchangeRates, MXN: 0 } };
+    expect(unresolvedCurrencies(['USD', 'EUR', 'GBP', 'MXN', 'GBP', undefined], withZero)).toEqual(['GBP', 'MXN']);
+  });
+
+  it('never flags the reporting currency', () => {
+    expect(unresolvedCurrencies(['USD'], { reportingCurrency: 'USD', exchangeRates: {} })).toEqual([]);
+  });
+});
+
+describe('rebaseExchangeRates', () => {
+  it('re-expresses rates against the new base', () => {
+    const rates = rebaseExchangeRates(settings.exchangeRates, 'EUR');
+    expect(rates.EUR).toBe(1);
+    expect(rates.USD).toBeCloseTo(1 / 1.1);
+    expect(rates.MXN).toBeCloseTo(0.05 / 1.1);
+  });
+});
+
+describe('changeReportingCurrency', () => {
+  it('converts the price into the new currency', () => {
+    const state = { ...INITIAL_STATE, ...settings, publicPrice: 110 };
+    const next = changeReportingCurrency(state, 'EUR');
+
+    expect(next.reportingCurrency).toBe('EUR');
+    expect(next.publicPrice).toBe(100);
+  });
+
+  it('converts per-channel selling costs', () => {
+    const state = {
+      ...INITIAL_STATE,
+      ...settings,
+      channels: [{ ...INITIAL_STATE.channels[0], transactionFee: 1.1, shippingCost: 11, packagingCost: 2.2 }],
+    };
+    expect(changeReportingCurrency(state, 'EUR').channels[0]).toMatchObject({
+      transactionFee: 1,
+      shippingCost: 10,
+      packagingCost: 2,
+    });
+  });
+
+  it('converts the public price risk range and leaves material ranges alone', () => {
+    const state = {
+      ...INITIAL_STATE,
+      ...settings,
+      riskRanges: [
+        { target: 'publicPrice', min: 99, mostLikely: 110, max: 121 },
+        { target: 'material:1', min: 200, mostLikely: 250, max: 300 },
+      ],
+    };
+    expect(changeReportingCurrency(state, 'EUR').riskRanges).toEqual([
+      { target: 'publicPrice', min: 90, mostLikely: 100, max: 110 },
+      { target: 'material:1', min: 200, mostLikely: 250, max: 300 },
+    ]);
+  });
+
+  it('leaves overhead lines in their own currency', () => {
+    const state = { ...INITIAL_STATE, ...settings };
+    expect(changeReportingCurrency(state, 'EUR').overheads).toEqual(state.overheads);
+  });
+});
+
+describe('formatMoney', () => {
+  it('uses the locale of the currency', () => {
+    expect(formatMoney(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatMoney(1234.5, 'EUR').replace(/\s/g, ' ')).toMatch(/1[.\s]?234,50 €/);
+  });
+});
@@ -0,0 +1,98 @@
+import { CURRENCIES } from '../constants';
+import { CurrencyCode, CurrencySettings, FinancialState } from '../types';
+
+export const getCurrencyInfo = (code: CurrencyCode) =>
+  CURRENCIES.find(c => c.code === code) || { code, name: code, locale: 'en-US' };
+
+// Converts an amount in `from` into the reporting currency.
+// An unknown rate counts as 1 so a missing entry never turns totals into NaN;
+// callers flag such totals through unresolvedCurrencies.
+export const toReportingCurrency = (
+  amount: number,
+  from: CurrencyCode | undefined,
+  settings: CurrencySettings
+): number => {
+  if (!from || from === settings.reportingCurrency) return amount;
+  const rate = settings.exchangeRates[from];
+  return rate > 0 ? amount * rate : amount;
+};
+
+// Currencies in `used` that toReportingCurrency would pass through 1:1 for lack of a rate
+export const unresolvedCurrencies = (
+  used: (CurrencyCode | undefined)[],
+  settings: CurrencySettings
+): CurrencyCode[] => {
+  const missing = used.filter(
+    (code): code is CurrencyCode =>
+      !!code && code !== settings.reportingCurrency && !(settings.exchangeRates[code] > 0)
+  );
+  return Array.from(new Set(missing));
+};
+
+// Re-expresses every rate against a new reporting currency.
+export const rebaseExchangeRates = (
+  rates: Record<CurrencyCode, number>,
+  newBase: CurrencyCode
+): Record<CurrencyCode, number> => {
+  const baseRate = rates[newBase];
+  if (!(baseRate > 0)) return { ...rates, [newBase]: 1 };
+
+  return Object.fromEntries(
+    Object.entries(rates).map(([code, rate]) => [code, code === newBase ? 1 : rate / baseRate])
+  );
+};
+
+// Switches the reporting currency. Figures entered in the reporting currency
+// (the public price and its risk range) are converted so the model keeps its meaning.
+// Rows that carry their own currency are left as entered.
+export const changeReportingCurrency = (state: FinancialState, code: CurrencyCode): FinancialState => {
+  if (code === state.reportingCurrency) return state;
+  const exchangeRates = rebaseExchangeRates(state.exchangeRates, code);
+  const toNew = (amount: number) => {
+    const rate = exchangeRates[state.reportingCurrency];
+    return rate > 0 ? amount * rate : amount;
+  };
+
+  return {
+    ...state,
+    reportingCurrency: code,
+    exchangeRates,
+    publicPrice: Number(toNew(state.publicPrice).toFixed(2)),
+    channels: state.channels.map(c => ({
+      ...c,
+      transactionFee: Number(toNew(c.transactionFee).toFixed(2)),
+      shippingCost: Number(toNew(c.shippingCost).toFixed(2)),
+      packagingCost: Number(toNew(c.packagingCost).toFixed(2)),
+    })),
+    // Material ranges are in the row's own currency; only the price range moves
+    riskRanges: state.riskRanges.map(r => (r.target === 'publicPrice'
+      ? {
+        ...r,
+        min: Number(toNew(r.min).toFixed(2)),
+        mostLikely: Number(toNew(r.mostLikely).toFixed(2)),
+        max: Number(toNew(r.max).toFixed(2)),
+      }
+      : r)),
+  };
+};
+
+export const formatMoney = (value: number, currency: CurrencyCode): string => {
+  const { locale } = getCurrencyInfo(currency);
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(value);
+  } catch {
+    // Unknown ISO code: fall back to a plain number with the code
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
+
+export const currencySymbol = (currency: CurrencyCode): string => {
+  const { locale } = getCurrencyInfo(currency);
+  try {
+    const parts = new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+      .formatToParts(0);
+    return parts.find(p => p.type === 'currency')?.value || currency;
+  } catch {
+    return currency;
+  }
+};
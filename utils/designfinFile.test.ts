@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { parseDesignFinFile, serializeDesignFinFile } from './designfinFile';
+import { CURRENT_SCHEMA_VERSION } from './stateSchema';
+import { V0_STATE } from './__fixtures__/legacyStates';
+
+describe('designfin file format', () => {
+  it('round-trips a costing', () => {
+    const text = serializeDesignFinFile('Pendant Lamp', INITIAL_STATE);
+    const parsed = JSON.parse(text);
+
+    expect(parsed.format).toBe('designfin');
+    expect(parsed.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(parseDesignFinFile(text)).toEqual({ name: 'Pendant Lamp', state: INITIAL_STATE });
+  });
+
+  it('imports a bare state object as an unversioned payload', () => {
+    const { state } = parseDesignFinFile(JSON.stringify(V0_STATE));
+    expect(state.channels).toHaveLength(INITIAL_STATE.channels.length);
+  });
+
+  it('keeps currencies, channels and overheads of a bare current state', () => {
+    const current = {
+      ...INITIAL_STATE,
+      materials: INITIAL_STATE.materials.map(m => ({ ...m, currency: 'EUR' })),
+      channels: [{ ...INITIAL_STATE.channels[0], id: 'fair', name: 'Trade Fair' }],
+    };
+    expect(parseDesignFinFile(JSON.stringify(current)).state).toEqual(current);
+  });
+
+  it('gives clear errors for unusable files', () => {
+    expect(() => parseDesignFinFile('not json')).toThrow('The file is not valid JSON.');
+    expect(() => parseDesignFinFile('[]')).toThrow('does not contain a DesignFin costing');
+    expect(() => parseDesignFinFile('{"hello":1}')).toThrow('does not contain a DesignFin costing');
+    expect(() => parseDesignFinFile('{"format":"designfin","state":{}}')).toThrow('missing its schema version');
+  });
+
+  it('surfaces validation issues instead of passing bad data to the kernel', () => {
+    const text = JSON.stringify({
+      format: 'designfin',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      name: 'Broken',
+      state: { ...INITIAL_STATE, publicPrice: 'free' },
+    });
+    expect(() => parseDesignFinFile(text)).toThrow('publicPrice must be a number');
+  });
+});
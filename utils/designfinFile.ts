@@ -0,0 +1,54 @@
+import { DesignFinFile, FinancialState } from '../types';
+import { CURRENT_SCHEMA_VERSION, StateValidationError, detectSchemaVersion, migrateState } from './stateSchema';
+
+export const DESIGNFIN_FILE_EXTENSION = '.designfin.json';
+
+// Imports beyond this size are almost certainly not costings
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export const serializeDesignFinFile = (name: string, state: FinancialState): string => {
+  const file: DesignFinFile = {
+    format: 'designfin',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    state,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses an exported file (or a bare, unversioned state object) into a current FinancialState.
+export const parseDesignFinFile = (text: string): { name: string; state: FinancialState } => {
+  if (text.length > MAX_IMPORT_BYTES) {
+    throw new StateValidationError('The file is too large to be a DesignFin costing.');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new StateValidationError('The file is not valid JSON.');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new StateValidationError('The file does not contain a DesignFin costing.');
+  }
+  const parsed = raw as Record<string, unknown>;
+
+  if (parsed.format === 'designfin') {
+    if (typeof parsed.schemaVersion !== 'number') {
+      throw new StateValidationError('The file is missing its schema version.');
+    }
+    return {
+      name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name : 'Imported Product',
+      state: migrateState(parsed.state, parsed.schemaVersion),
+    };
+  }
+
+  // Unwrapped state copied straight out of the app, at whatever version its fields show
+  if ('devCosts' in parsed || 'materials' in parsed) {
+    return { name: 'Imported Product', state: migrateState(parsed, detectSchemaVersion(parsed)) };
+  }
+
+  throw new StateValidationError('The file does not contain a DesignFin costing.');
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState } from '../types';
+import { applyGoalValue, goalSeek } from './goalSeek';
+
+// COGS = 10 material + 10 amortization = 20; Retail nets half the public price
+const state: FinancialState = {
+  ...INITIAL_STATE,
+  devCosts: [{ id: 'd', name: 'Tooling', amount: 1000, currency: 'USD' }],
+  amortizationQty: 100,
+  batchSize: 10,
+  wasteCount: 0,
+  materials: [
+    { id: 'tube', name: 'Tube', cost: 100, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 10, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+  ],
+  operations: [],
+  publicPrice: 100,
+  overheads: [{ id: 'rent', name: 'Rent', amount: 1000, frequency: 'monthly', currency: 'USD' }],
+  designerRoyaltyPercent: 0,
+  channels: [{ id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' }],
+  riskRanges: [],
+};
+
+const margin = (value: number) => ({ channelId: 'retail', metric: 'margin' as const, value });
+
+describe('goalSeek', () => {
+  it('finds the lowest price for a target margin', () => {
+    // profit / net = 1 - 20 / (0.5 * price) >= 0.2  =>  price >= 50
+    const result = goalSeek(state, margin(0.2), 'publicPrice');
+    expect(result.value).toBe(50);
+    expect(result.achieved).toBeCloseTo(0.2);
+    expect(result.current).toBe(100);
+  });
+
+  it('finds the price that breaks even at a monthly volume', () => {
+    // 1000 / (0.5 * price - 20) <= 40  =>  price >= 90
+    const result = goalSeek(state, { channelId: 'retail', metric: 'breakEven', value: 40 }, 'publicPrice');
+    expect(result.value).toBe(90);
+    expect(result.achieved).toBe(40);
+  });
+
+  it('finds the deepest discount that keeps the margin', () => {
+    // 1 - 20 / (100 * (1 - d)) >= 0.2  =>  d <= 0.75
+    expect(goalSeek(state, margin(0.2), 'discount').value).toBe(0.75);
+  });
+
+  it('finds the most waste the batch can absorb', () => {
+    // Material per good unit = 100 / (10 - w); 100 / (10 - w) + 10 <= 40  =>  w <= 6
+    expect(goalSeek(state, margin(0.2), 'wasteCount').value).toBe(6);
+  });
+
+  it('caps waste at one good unit per batch', () => {
+    expect(goalSeek({ ...state, publicPrice: 10000 }, margin(0.2), 'wasteCount').value).toBe(9);
+  });
+
+  it('finds the fewest units to amortize over', () => {
+    // 1000 / q + 10 <= 20 at 50% margin  =>  q >= 100
+    expect(goalSeek(state, margin(0.6), 'amortizationQty').value).toBe(100);
+  });
+
+  it('reports when royalty and commission rule out the margin', () => {
+    const costly = { ...state, designerRoyaltyPercent: 0.5, channels: [{ ...state.channels[0], commissionPercent: 0.4 }] };
+    const result = goalSeek(costly, margin(0.2), 'publicPrice');
+    expect(result.value).toBeNull();
+    expect(result.reason).toMatch(/at any price/);
+  });
+
+  it('reports when the target is missed before the variable even moves', () => {
+    expect(goalSeek(state, margin(0.9), 'discount')).toMatchObject({ value: null, reason: expect.stringMatching(/no discount/) });
+    expect(goalSeek(state, margin(0.9), 'wasteCount')).toMatchObject({ value: null, reason: expect.stringMatching(/zero waste/) });
+    expect(goalSeek(state, margin(0.9), 'amortizationQty').value).toBeNull();
+  });
+
+  it('reports a missing channel', () => {
+    expect(goalSeek(state, { ...margin(0.2), channelId: 'gone' }, 'publicPrice').value).toBeNull();
+  });
+});
+
+describe('applyGoalValue', () => {
+  it('sets the discount on the target channel only', () => {
+    const next = applyGoalValue({ ...state, channels: [...state.channels, { ...state.channels[0], id: 'other' }] }, 'discount', 'retail', 0.3);
+    expect(next.channels.map(c => c.discountPercent)).toEqual([0.3, 0.5]);
+  });
+});
@@ -0,0 +1,127 @@
+import { FinancialState, GoalMetric, GoalSeekResult, GoalSeekTarget, GoalVariable, ScenarioResult } from '../types';
+import { computeFinancials } from './costingEngine';
+
+export const GOAL_VARIABLES: { value: GoalVariable; label: string; description: string }[] = [
+  { value: 'publicPrice', label: 'Public Price', description: 'Lowest public price that meets the target' },
+  { value: 'wasteCount', label: 'Waste', description: 'Most units per batch that can be scrapped' },
+  { value: 'discount', label: 'Channel Discount', description: 'Deepest discount the channel can be given' },
+  { value: 'amortizationQty', label: 'Amortization Qty', description: 'Fewest units to spread development costs over' },
+];
+
+// Upper bound for open-ended searches (price, amortization quantity)
+const SEARCH_LIMIT = 1e9;
+const BISECTION_STEPS = 60;
+
+// Margin is profit as a share of what the channel actually pays
+export const goalMetricValue = (scenario: ScenarioResult, metric: GoalMetric): number => {
+  if (metric === 'breakEven') return scenario.breakEvenUnits;
+  return scenario.netRevenue > 0 ? scenario.profit / scenario.netRevenue : -Infinity;
+};
+
+const meetsTarget = (achieved: number, target: GoalSeekTarget) =>
+  target.metric === 'margin' ? achieved >= target.value - 1e-9 : achieved <= target.value;
+
+export const goalVariableValue = (state: FinancialState, variable: GoalVariable, channelId: string): number => {
+  switch (variable) {
+    case 'publicPrice': return state.publicPrice;
+    case 'wasteCount': return state.wasteCount;
+    case 'amortizationQty': return state.amortizationQty;
+    case 'discount': return state.channels.find(c => c.id === channelId)?.discountPercent ?? 0;
+  }
+};
+
+// Returns a copy of the state with the variable set; `discount` applies to `channelId`
+export const applyGoalValue = (
+  state: FinancialState,
+  variable: GoalVariable,
+  channelId: string,
+  value: number
+): FinancialState => {
+  if (variable === 'discount') {
+    return { ...state, channels: state.channels.map(c => (c.id === channelId ? { ...c, discountPercent: value } : c)) };
+  }
+  return { ...state, [variable]: value };
+};
+
+// Every variable moves the metric one way only, so the solver searches for the
+// boundary between "meets" and "misses" instead of solving each formula by hand.
+// That keeps price breaks, labor and currency conversion in play for free.
+export const goalSeek = (state: FinancialState, target: GoalSeekTarget, variable: GoalVariable): GoalSeekResult => {
+  const current = goalVariableValue(state, variable, target.channelId);
+  const channel = state.channels.find(c => c.id === target.channelId);
+  if (!channel) {
+    return { variable, current, value: null, achieved: null, reason: 'The channel no longer exists.' };
+  }
+
+  const achievedAt = (value: number) => {
+    const scenario = computeFinancials(applyGoalValue(state, variable, target.channelId, value)).scenarios
+      .find(s => s.id === target.channelId)!;
+    return goalMetricValue(scenario, target.metric);
+  };
+  const meets = (value: number) => meetsTarget(achievedAt(value), target);
+  const solved = (value: number): GoalSeekResult => ({ variable, current, value, achieved: achievedAt(value) });
+  const unsolved = (reason: string): GoalSeekResult => ({ variable, current, value: null, achieved: null, reason });
+
+  // Bisects between a failing `bad` and a passing `good` bound
+  const bisect = (bad: number, good: number) => {
+    for (let i = 0; i < BISECTION_STEPS; i++) {
+      const mid = (bad + good) / 2;
+      if (meets(mid)) good = mid; else bad = mid;
+    }
+    return good;
+  };
+
+  // Integer version for unit counts
+  const bisectUnits = (bad: number, good: number) => {
+    while (Math.abs(good - bad) > 1) {
+      const mid = Math.floor((bad + good) / 2);
+      if (meets(mid)) good = mid; else bad = mid;
+    }
+    return good;
+  };
+
+  switch (variable) {
+    case 'publicPrice': {
+      let high = Math.max(state.publicPrice, 1);
+      while (!meets(high)) {
+        high *= 2;
+        if (high > SEARCH_LIMIT) {
+          return unsolved(
+            target.metric === 'margin'
+              ? `Price-linked costs keep ${channel.name} below ${(target.value * 100).toFixed(1)}% margin at any price.`
+              : `No price covers the overhead within ${target.value} units/month on ${channel.name}.`
+          );
+        }
+      }
+      // Round up to the cent so the answer still meets the target
+      const price = Math.ceil(bisect(0, high) * 100 - 1e-6) / 100;
+      return solved(meets(price) ? price : Number((price + 0.01).toFixed(2)));
+    }
+
+    case 'discount': {
+      if (!meets(0)) return unsolved(`${channel.name} misses the target even with no discount.`);
+      if (meets(1)) return solved(1);
+      // Round down to a tenth of a percent
+      const discount = Math.floor(bisect(1, 0) * 1000 + 1e-6) / 1000;
+      return solved(meets(discount) ? discount : Number((discount - 0.001).toFixed(3)));
+    }
+
+    case 'wasteCount': {
+      // Same ceiling as the Production Efficiency slider: at least one good unit per batch
+      const maxWaste = Math.max(state.batchSize - 1, 0);
+      if (!meets(0)) return unsolved(`${channel.name} misses the target even with zero waste.`);
+      if (meets(maxWaste)) return solved(maxWaste);
+      return solved(bisectUnits(maxWaste, 0));
+    }
+
+    case 'amortizationQty': {
+      if (meets(1)) return solved(1);
+      if (!meets(SEARCH_LIMIT)) {
+        return unsolved(`${channel.name} misses the target even with development costs fully amortized.`);
+      }
+      let high = Math.max(state.amortizationQty, 2);
+      while (!meets(high)) high = Math.min(high * 2, SEARCH_LIMIT);
+      return solved(bisectUnits(1, high));
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { GROUP_WINDOW_MS, MAX_HISTORY, changeGroup, createHistory, recordChange, redo, undo } from './history';
+
+describe('changeGroup', () => {
+  it('names the leaf fields that changed', () => {
+    const prev = { price: 10, rows: [{ amount: 1 }, { amount: 2 }] };
+    expect(changeGroup(prev, { ...prev, price: 11 })).toBe('price');
+    expect(changeGroup(prev, { ...prev, rows: [{ amount: 1 }, { amount: 3 }] })).toBe('rows.1.amount');
+  });
+
+  it('is stable for multi-field edits like a batch size change', () => {
+    const prev = { batchSize: 10, rows: [{ cost: 1 }] };
+    expect(changeGroup(prev, { batchSize: 11, rows: [{ cost: 2 }] })).toBe('batchSize,rows.0.cost');
+  });
+
+  it('returns null for structural changes', () => {
+    expect(changeGroup({ rows: [1] }, { rows: [1, 2] })).toBeNull();
+    expect(changeGroup({ a: 1 }, { a: 1, b: 2 })).toBeNull();
+    expect(changeGroup({ a: 1 }, { a: 1 })).toBeNull();
+  });
+});
+
+describe('undo history', () => {
+  it('undoes and redoes single steps', () => {
+    let h = recordChange(createHistory<number>(), 1, 'a', 0);
+    h = recordChange(h, 2, null, 5000);
+
+    const back = undo(h, 3)!;
+    expect(back.value).toBe(2);
+    const back2 = undo(back.history, back.value)!;
+    expect(back2.value).toBe(1);
+    expect(undo(back2.history, back2.value)).toBeNull();
+
+    const forward = redo(back2.history, back2.value)!;
+    expect(forward.value).toBe(2);
+  });
+
+  it('groups consecutive edits to the same field', () => {
+    let h = recordChange(createHistory<string>(), '', 'name', 0);
+    h = recordChange(h, 'L', 'name', 200);
+    h = recordChange(h, 'La', 'name', 400);
+
+    expect(h.past).toEqual(['']);
+    expect(undo(h, 'Lam')!.value).toBe('');
+  });
+
+  it('starts a new step after a pause or a different field', () => {
+    let h = recordChange(createHistory<number>(), 1, 'price', 0);
+    h = recordChange(h, 2, 'price', GROUP_WINDOW_MS + 1);
+    h = recordChange(h, 3, 'waste', GROUP_WINDOW_MS + 2);
+    expect(h.past).toEqual([1, 2, 3]);
+  });
+
+  it('never groups across an undo', () => {
+    let h = recordChange(createHistory<number>(), 1, 'price', 0);
+    h = undo(h, 2)!.history;
+    h = recordChange(h, 1, 'price', 10);
+    expect(h.past).toEqual([1]);
+  });
+
+  it('clears redo after a new edit', () => {
+    let h = recordChange(createHistory<number>(), 1, null, 0);
+    h = undo(h, 2)!.history;
+    expect(h.future).toEqual([2]);
+    h = recordChange(h, 1, null, 10);
+    expect(h.future).toEqual([]);
+  });
+
+  it('caps the number of steps', () => {
+    let h = createHistory<number>();
+    for (let i = 0; i < MAX_HISTORY + 10; i++) h = recordChange(h, i, null, i * 10);
+    expect(h.past).toHaveLength(MAX_HISTORY);
+    expect(h.past[0]).toBe(10);
+  });
+});
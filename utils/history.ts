@@ -0,0 +1,102 @@
+// Undo/redo stacks for a single value, with grouping of rapid edits to the same fields.
+
+export const MAX_HISTORY = 100;
+// Edits to the same fields closer together than this collapse into one undo step
+export const GROUP_WINDOW_MS = 1000;
+
+export interface UndoHistory<T> {
+  past: T[];
+  future: T[];
+  lastGroup: string | null;
+  lastAt: number;
+}
+
+export const createHistory = <T>(): UndoHistory<T> => ({
+  past: [],
+  future: [],
+  lastGroup: null,
+  lastAt: 0,
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Describes which leaf fields differ, e.g. "devCosts.0.amount". Returns null for
+// structural changes (rows added, removed or replaced) so those never merge.
+export const changeGroup = (prev: unknown, next: unknown): string | null => {
+  const paths: string[] = [];
+  let structural = false;
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (a === b || structural) return;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      if (a.length !== b.length) {
+        structural = true;
+        return;
+      }
+      a.forEach((item, i) => walk(item, b[i], `${path}.${i}`));
+      return;
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      keys.forEach(key => {
+        if (!(key in a) || !(key in b)) structural = true;
+        else walk(a[key], b[key], path ? `${path}.${key}` : key);
+      });
+      return;
+    }
+
+    paths.push(path);
+  };
+
+  walk(prev, next, '');
+  return structural || paths.length === 0 ? null : paths.sort().join(',');
+};
+
+// Records `prev` as an undo step before a change, unless it continues the previous edit.
+export const recordChange = <T>(
+  history: UndoHistory<T>,
+  prev: T,
+  group: string | null,
+  now: number
+): UndoHistory<T> => {
+  const continues = group !== null
+    && group === history.lastGroup
+    && now - history.lastAt < GROUP_WINDOW_MS
+    && history.past.length > 0;
+
+  return {
+    past: continues ? history.past : [...history.past, prev].slice(-MAX_HISTORY),
+    future: [],
+    lastGroup: group,
+    lastAt: now,
+  };
+};
+
+export const undo = <T>(history: UndoHistory<T>, present: T): { history: UndoHistory<T>; value: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    value: history.past[history.past.length - 1],
+    history: {
+      past: history.past.slice(0, -1),
+      future: [present, ...history.future],
+      lastGroup: null,
+      lastAt: 0,
+    },
+  };
+};
+
+export const redo = <T>(history: UndoHistory<T>, present: T): { history: UndoHistory<T>; value: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    value: history.future[0],
+    history: {
+      past: [...history.past, present].slice(-MAX_HISTORY),
+      future: history.future.slice(1),
+      lastGroup: null,
+      lastAt: 0,
+    },
+  };
+};
@@ -0,0 +1,3 @@
+// Short unique ids for projects and rows; Date.now() alone collides within one click
+export const createId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { FinancialState, LibraryMaterial, MaterialItem, MaterialLibrary } from '../types';
+import { createProject } from './projectStorage';
+import {
+  applyLibraryPrices,
+  isPriceStale,
+  linkMaterial,
+  previewLibraryUpdate,
+  setLibraryPrice,
+} from './materialLibrary';
+
+const aluminum: LibraryMaterial = {
+  id: 'alu',
+  name: 'Aluminum 6061',
+  supplier: 'Metals Co',
+  unit: 'kg',
+  unitCost: 5,
+  currency: 'USD',
+  priceDate: '2025-03-01',
+  priceHistory: [{ date: '2024-09-01', unitCost: 4 }],
+  notes: '',
+};
+
+const library: MaterialLibrary = { items: [aluminum], staleAfterMonths: 6 };
+
+const row: MaterialItem = {
+  id: 'tube', name: 'Tube', cost: 40, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 4, priceTiers: [],
+  consumptionUnit: 'kg', purchaseUnit: 'kg', currency: 'USD', notes: '', libraryId: 'alu', priceDate: '2024-09-01', parentId: null, isAssembly: false,
+};
+
+const state: FinancialState = { ...INITIAL_STATE, batchSize: 10, materials: [row] };
+
+describe('isPriceStale', () => {
+  it('flags prices older than the limit in calendar months', () => {
+    expect(isPriceStale('2025-03-01', 6, new Date(2025, 8, 1))).toBe(false);
+    expect(isPriceStale('2025-03-01', 6, new Date(2025, 8, 2))).toBe(true);
+  });
+
+  it('expires month-end quotes on the last day of a shorter month', () => {
+    expect(isPriceStale('2026-08-31', 6, new Date(2027, 1, 28))).toBe(false);
+    expect(isPriceStale('2026-08-31', 6, new Date(2027, 2, 1))).toBe(true);
+  });
+
+  it('never flags undated rows', () => {
+    expect(isPriceStale(null, 1, new Date(2030, 0, 1))).toBe(false);
+  });
+});
+
+describe('setLibraryPrice', () => {
+  it('moves the previous price into the history', () => {
+    const next = setLibraryPrice(aluminum, 6, '2025-06-01');
+    expect(next).toMatchObject({ unitCost: 6, priceDate: '2025-06-01' });
+    expect(next.priceHistory).toEqual([...aluminum.priceHistory, { date: '2025-03-01', unitCost: 5 }]);
+  });
+
+  it('replaces a price set earlier the same day', () => {
+    expect(setLibraryPrice(aluminum, 6, '2025-03-01').priceHistory).toEqual(aluminum.priceHistory);
+  });
+});
+
+describe('linkMaterial', () => {
+  it('copies the library price and re-quotes the row', () => {
+    const linked = linkMaterial({ ...row, libraryId: null, unitCost: 0, currency: 'EUR' }, aluminum, 10);
+    expect(linked).toMatchObject({ libraryId: 'alu', unitCost: 5, currency: 'USD', priceDate: '2025-03-01', cost: 50 });
+  });
+
+  it('refuses an entry sold in a unit the quantity cannot convert to', () => {
+    const pieces = { ...row, libraryId: null, consumptionUnit: 'pcs' as const, purchaseUnit: 'pcs' as const, qtyPerUnit: 3 };
+    expect(linkMaterial(pieces, aluminum, 10)).toBe(pieces);
+  });
+
+  it('drops price breaks quoted in another purchase unit or currency', () => {
+    const tiers = [{ minQty: 100, unitCost: 3 }];
+    const grams = { ...row, libraryId: null, consumptionUnit: 'g' as const, purchaseUnit: 'g' as const, priceTiers: tiers };
+    expect(linkMaterial(grams, aluminum, 10)).toMatchObject({ consumptionUnit: 'g', purchaseUnit: 'kg', priceTiers: [] });
+    expect(linkMaterial({ ...row, priceTiers: tiers }, aluminum, 10).priceTiers).toBe(tiers);
+    expect(linkMaterial({ ...row, priceTiers: tiers, currency: 'EUR' }, aluminum, 10).priceTiers).toEqual([]);
+  });
+});
+
+describe('applyLibraryPrices', () => {
+  it('updates linked rows only', () => {
+    const manual = { ...row, id: 'paint', libraryId: null };
+    const next = applyLibraryPrices({ ...state, materials: [row, manual] }, library);
+    expect(next.materials[0]).toMatchObject({ unitCost: 5, cost: 50 });
+    expect(next.materials[1]).toBe(manual);
+  });
+
+  it('leaves rows linked to an entry in an incompatible unit alone', () => {
+    const pieces = { ...row, consumptionUnit: 'pcs' as const, purchaseUnit: 'pcs' as const };
+    const current = { ...state, materials: [pieces] };
+    expect(applyLibraryPrices(current, library)).toBe(current);
+  });
+
+  it('returns the same state when every row is current', () => {
+    const current = applyLibraryPrices(state, library);
+    expect(applyLibraryPrices(current, library)).toBe(current);
+  });
+});
+
+describe('previewLibraryUpdate', () => {
+  it('lists the projects a price change would affect', () => {
+    const lamp = createProject('Lamp', state);
+    const chair = createProject('Chair', INITIAL_STATE);
+    const [preview, ...rest] = previewLibraryUpdate([lamp, chair], library);
+
+    expect(rest).toEqual([]);
+    expect(preview).toMatchObject({ projectId: lamp.id, projectName: 'Lamp' });
+    expect(preview.changes).toEqual([
+      { materialId: 'tube', name: 'Tube', fromUnitCost: 4, toUnitCost: 5, fromCurrency: 'USD', toCurrency: 'USD', fromUnit: 'kg', toUnit: 'kg' },
+    ]);
+    expect(preview.cogsAfter).toBeGreaterThan(preview.cogsBefore);
+  });
+});
@@ -0,0 +1,145 @@
+import { DEFAULT_STALE_AFTER_MONTHS } from '../constants';
+import {
+  FinancialState,
+  LibraryMaterial,
+  LibraryPriceChange,
+  LibraryUpdatePreview,
+  MaterialItem,
+  MaterialLibrary,
+  SavedProject,
+} from '../types';
+import { calculateMaterialCost, computeFinancials, materialParentQuantities } from './costingEngine';
+import { createId } from './id';
+import { areUnitsCompatible, materialUnitFactor } from './units';
+
+export const createDefaultMaterialLibrary = (): MaterialLibrary => ({
+  items: [],
+  staleAfterMonths: DEFAULT_STALE_AFTER_MONTHS,
+});
+
+// Local calendar date as YYYY-MM-DD
+export const todayIsoDate = (now: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Whether a price quoted on `priceDate` is more than `months` calendar months old
+export const isPriceStale = (priceDate: string | null, months: number, now: Date = new Date()): boolean => {
+  if (!priceDate) return false;
+  const [year, month, day] = priceDate.split('-').map(Number);
+  // Day 0 of the following month is the last day of the target one; a later quote day clamps to it
+  const lastDay = new Date(year, month + months, 0).getDate();
+  const expires = new Date(year, month - 1 + months, Math.min(day, lastDay));
+  return todayIsoDate(now) > todayIsoDate(expires);
+};
+
+// New catalog entry seeded from a Material Manager row
+export const createLibraryMaterial = (row: MaterialItem, date: string): LibraryMaterial => ({
+  id: createId(),
+  name: row.name,
+  supplier: '',
+  unit: row.purchaseUnit,
+  unitCost: row.unitCost,
+  currency: row.currency,
+  priceDate: row.priceDate || date,
+  priceHistory: [],
+  notes: row.notes,
+});
+
+// Records a new current price; the previous one moves to the history
+export const setLibraryPrice = (item: LibraryMaterial, unitCost: number, date: string): LibraryMaterial => {
+  if (unitCost === item.unitCost && date === item.priceDate) return item;
+  // Same-day corrections replace the price instead of adding a history entry
+  const priceHistory = date === item.priceDate
+    ? item.priceHistory
+    : [...item.priceHistory, { date: item.priceDate, unitCost: item.unitCost }];
+  return { ...item, unitCost, priceDate: date, priceHistory };
+};
+
+// A row can only follow a catalog entry sold in a unit its quantity converts to;
+// anything else would reinterpret the quantity (3 pcs becoming 3 kg)
+export const canLinkMaterial = (row: MaterialItem, entry: LibraryMaterial): boolean =>
+  areUnitsCompatible(row.consumptionUnit, entry.unit);
+
+// Copies the catalog price onto a row and re-quotes it; manual rows keep their typed amount.
+// Returns the row unchanged when canLinkMaterial refuses. Price breaks quoted in another
+// purchase unit or currency no longer apply and are dropped.
+export const linkMaterial = (row: MaterialItem, entry: LibraryMaterial, batchSize: number): MaterialItem => {
+  if (!canLinkMaterial(row, entry)) return row;
+  const units = { consumptionUnit: row.consumptionUnit, purchaseUnit: entry.unit };
+  const priceTiers = row.purchaseUnit === entry.unit && row.currency === entry.currency ? row.priceTiers : [];
+  return {
+    ...row,
+    ...units,
+    name: row.name.trim() ? row.name : entry.name,
+    libraryId: entry.id,
+    unitCost: entry.unitCost,
+    priceTiers,
+    currency: entry.currency,
+    priceDate: entry.priceDate,
+    cost: row.costMode === 'calculated'
+      ? calculateMaterialCost(
+        row.qtyPerUnit,
+        row.bufferUnits,
+        entry.unitCost,
+        batchSize,
+        priceTiers,
+        materialUnitFactor(units)
+      )
+      : row.cost,
+  };
+};
+
+export const findLibraryMaterial = (library: MaterialLibrary, id: string | null): LibraryMaterial | undefined =>
+  id === null ? undefined : library.items.find(item => item.id === id);
+
+// A linked row is out of date when its price, unit or quote date no longer matches the catalog
+export const isBehindLibrary = (row: MaterialItem, entry: LibraryMaterial): boolean =>
+  row.unitCost !== entry.unitCost
+  || row.currency !== entry.currency
+  || row.purchaseUnit !== entry.unit
+  || row.priceDate !== entry.priceDate;
+
+export const libraryPriceChanges = (materials: MaterialItem[], library: MaterialLibrary): LibraryPriceChange[] =>
+  materials.flatMap(row => {
+    const entry = findLibraryMaterial(library, row.libraryId);
+    if (!entry || !isBehindLibrary(row, entry) || !canLinkMaterial(row, entry)) return [];
+    return [{
+      materialId: row.id,
+      name: row.name,
+      fromUnitCost: row.unitCost,
+      toUnitCost: entry.unitCost,
+      fromCurrency: row.currency,
+      toCurrency: entry.currency,
+      fromUnit: row.purchaseUnit,
+      toUnit: entry.unit,
+    }];
+  });
+
+// Pulls current catalog prices into every linked row; returns `state` itself when nothing changed
+export const applyLibraryPrices = (state: FinancialState, library: MaterialLibrary): FinancialState => {
+  let changed = false;
+  // Parts inside sub-assemblies are quoted for their parent's built quantity
+  const parentQuantities = materialParentQuantities(state.materials, state.batchSize);
+  const materials = state.materials.map(row => {
+    const entry = findLibraryMaterial(library, row.libraryId);
+    if (!entry || !isBehindLibrary(row, entry) || !canLinkMaterial(row, entry)) return row;
+    changed = true;
+    return linkMaterial(row, entry, parentQuantities[row.id]);
+  });
+  return changed ? { ...state, materials } : state;
+};
+
+// What saving `library` would change in each project that links to it
+export const previewLibraryUpdate = (projects: SavedProject[], library: MaterialLibrary): LibraryUpdatePreview[] =>
+  projects.flatMap(project => {
+    const changes = libraryPriceChanges(project.state.materials, library);
+    if (changes.length === 0) return [];
+    return [{
+      projectId: project.id,
+      projectName: project.name,
+      changes,
+      cogsBefore: computeFinancials(project.state).cogs,
+      cogsAfter: computeFinancials(applyLibraryPrices(project.state, library)).cogs,
+    }];
+  });
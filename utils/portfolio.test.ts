@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState, Portfolio, SavedProject } from '../types';
+import { computePortfolio, createDefaultPortfolio, prunePortfolio } from './portfolio';
+
+const product = (id: string, overrides: Partial<FinancialState> = {}): SavedProject => ({
+  id,
+  name: id,
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  state: {
+    ...INITIAL_STATE,
+    devCosts: [],
+    materials: [],
+    operations: [],
+    overheads: [],
+    designerRoyaltyPercent: 0,
+    channels: [
+      { id: 'direct', name: 'Direct', discountPercent: 0, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+      { id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+    ],
+    ...overrides,
+  },
+});
+
+// Lamp: $100 direct margin, $50 retail. Vase: $40 direct margin.
+const projects = [
+  product('lamp', { publicPrice: 100 }),
+  product('vase', { publicPrice: 40, overheads: [{ id: 'kiln', name: 'Kiln', amount: 200, frequency: 'monthly', currency: 'USD' }] }),
+];
+
+const portfolio = (overrides: Partial<Portfolio> = {}): Portfolio => ({
+  ...createDefaultPortfolio(),
+  sharedOverheads: [{ id: 'rent', name: 'Rent', amount: 1000, frequency: 'monthly', currency: 'USD' }],
+  items: [
+    { projectId: 'lamp', manualShare: 0.25, plannedUnits: { direct: 10, retail: 20 } },
+    { projectId: 'vase', manualShare: 0.75, plannedUnits: { direct: 10 } },
+  ],
+  ...overrides,
+});
+
+describe('computePortfolio', () => {
+  it('weights each product by its planned channel mix', () => {
+    const report = computePortfolio(portfolio(), projects);
+    const [lamp, vase] = report.products;
+
+    expect(lamp.plannedUnits).toBe(30);
+    expect(lamp.revenue).toBe(2000);
+    expect(lamp.contribution).toBe(2000);
+    expect(vase.contribution).toBe(400);
+    expect(vase.ownOverhead).toBe(200);
+  });
+
+  it('computes the blended break-even for the whole mix', () => {
+    const report = computePortfolio(portfolio(), projects);
+
+    // 2400 contribution over 40 units = $60/unit; fixed 1000 shared + 200 kiln
+    expect(report.totalFixed).toBe(1200);
+    expect(report.blendedMargin).toBe(60);
+    expect(report.breakEvenUnits).toBe(20);
+    expect(report.profit).toBe(1200);
+  });
+
+  it('allocates shared overhead by revenue share', () => {
+    const [lamp, vase] = computePortfolio(portfolio(), projects).products;
+    expect(lamp.allocationShare).toBeCloseTo(2000 / 2400);
+    expect(lamp.allocatedOverhead + vase.allocatedOverhead).toBeCloseTo(1000);
+  });
+
+  it('allocates shared overhead by unit share', () => {
+    const [lamp, vase] = computePortfolio(portfolio({ allocationRule: 'units' }), projects).products;
+    expect(lamp.allocatedOverhead).toBe(750);
+    expect(vase.allocatedOverhead).toBe(250);
+    // Vase: 200 kiln + 250 shared at $40/unit
+    expect(vase.breakEvenUnits).toBe(12);
+    expect(vase.profit).toBe(-50);
+  });
+
+  it('uses manual shares as entered and reports their total', () => {
+    const report = computePortfolio(portfolio({
+      allocationRule: 'manual',
+      items: portfolio().items.map(i => ({ ...i, manualShare: 0.4 })),
+    }), projects);
+
+    expect(report.products.map(p => p.allocatedOverhead)).toEqual([400, 400]);
+    expect(report.allocationTotal).toBeCloseTo(0.8);
+  });
+
+  it('converts products into the portfolio currency', () => {
+    const eurLamp = product('lamp', { publicPrice: 100, reportingCurrency: 'EUR' });
+    const report = computePortfolio(
+      portfolio({ exchangeRates: { USD: 1, EUR: 1.1 }, items: [{ projectId: 'lamp', manualShare: 0, plannedUnits: { direct: 1 } }] }),
+      [eurLamp]
+    );
+    expect(report.products[0].revenue).toBeCloseTo(110);
+  });
+
+  it('fails the break-even when nothing is planned or the mix loses money', () => {
+    expect(computePortfolio(portfolio({ items: [] }), projects).breakEvenUnits).toBe(Infinity);
+
+    const losing = [product('lamp', { publicPrice: 100, materials: [{ id: 'm', name: 'Brass', cost: 1000, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false }], batchSize: 5, wasteCount: 0 })];
+    const report = computePortfolio(portfolio({ items: [{ projectId: 'lamp', manualShare: 0, plannedUnits: { direct: 5 } }] }), losing);
+    expect(report.blendedMargin).toBeLessThan(0);
+    expect(report.breakEvenUnits).toBe(Infinity);
+  });
+
+  it('skips items whose project is gone', () => {
+    const report = computePortfolio(portfolio(), [projects[0]]);
+    expect(report.products.map(p => p.projectId)).toEqual(['lamp']);
+  });
+});
+
+describe('prunePortfolio', () => {
+  it('removes deleted projects', () => {
+    expect(prunePortfolio(portfolio(), ['vase']).items.map(i => i.projectId)).toEqual(['vase']);
+  });
+});
@@ -0,0 +1,117 @@
+import { DEFAULT_EXCHANGE_RATES } from '../constants';
+import {
+  Portfolio,
+  PortfolioItem,
+  PortfolioProductResult,
+  PortfolioReport,
+  SavedProject,
+} from '../types';
+import { computeFinancials, computeOverheadLines } from './costingEngine';
+import { toReportingCurrency } from './currency';
+
+export const createDefaultPortfolio = (): Portfolio => ({
+  reportingCurrency: 'USD',
+  exchangeRates: { ...DEFAULT_EXCHANGE_RATES },
+  sharedOverheads: [],
+  allocationRule: 'revenue',
+  items: [],
+});
+
+export const createPortfolioItem = (projectId: string): PortfolioItem => ({
+  projectId,
+  manualShare: 0,
+  plannedUnits: {},
+});
+
+// Drops entries whose project no longer exists
+export const prunePortfolio = (portfolio: Portfolio, projectIds: string[]): Portfolio => ({
+  ...portfolio,
+  items: portfolio.items.filter(item => projectIds.includes(item.projectId)),
+});
+
+type ProductDraft = Omit<PortfolioProductResult, 'allocationShare' | 'allocatedOverhead' | 'profit' | 'breakEvenUnits'>;
+
+// Units/month of a mix with `contribution` over `plannedUnits` needed to cover `fixed`
+const mixBreakEven = (fixed: number, contribution: number, plannedUnits: number): number => {
+  const margin = plannedUnits > 0 ? contribution / plannedUnits : 0;
+  return margin > 0 ? Math.ceil(fixed / margin) : Infinity;
+};
+
+// Runs every product through the single-product kernel, converts the results into
+// the portfolio currency and weights them by the planned monthly sales mix.
+export const computePortfolio = (portfolio: Portfolio, projects: SavedProject[]): PortfolioReport => {
+  const drafts: (ProductDraft & { item: PortfolioItem })[] = [];
+
+  portfolio.items.forEach(item => {
+    const project = projects.find(p => p.id === item.projectId);
+    if (!project) return;
+
+    const report = computeFinancials(project.state);
+    const convert = (amount: number) => toReportingCurrency(amount, project.state.reportingCurrency, portfolio);
+
+    const channels = report.scenarios.map(s => ({
+      channelId: s.id,
+      name: s.name,
+      plannedUnits: Math.max(0, item.plannedUnits[s.id] || 0),
+      netRevenue: convert(s.netRevenue),
+      grossMargin: convert(s.grossMargin),
+    }));
+
+    drafts.push({
+      item,
+      projectId: project.id,
+      name: project.name,
+      channels,
+      plannedUnits: channels.reduce((acc, c) => acc + c.plannedUnits, 0),
+      revenue: channels.reduce((acc, c) => acc + c.plannedUnits * c.netRevenue, 0),
+      contribution: channels.reduce((acc, c) => acc + c.plannedUnits * c.grossMargin, 0),
+      ownOverhead: convert(report.fixedMonthlyExpenses),
+    });
+  });
+
+  const sharedOverhead = computeOverheadLines(portfolio.sharedOverheads, portfolio)
+    .reduce((acc, line) => acc + line.monthlyAmount, 0);
+  const plannedUnits = drafts.reduce((acc, d) => acc + d.plannedUnits, 0);
+  const revenue = drafts.reduce((acc, d) => acc + d.revenue, 0);
+  const contribution = drafts.reduce((acc, d) => acc + d.contribution, 0);
+
+  const shareOf = (draft: ProductDraft & { item: PortfolioItem }): number => {
+    switch (portfolio.allocationRule) {
+      case 'revenue':
+        return revenue > 0 ? draft.revenue / revenue : 0;
+      case 'units':
+        return plannedUnits > 0 ? draft.plannedUnits / plannedUnits : 0;
+      case 'manual':
+        return draft.item.manualShare;
+    }
+  };
+
+  const products: PortfolioProductResult[] = drafts.map(({ item, ...draft }) => {
+    const allocationShare = shareOf({ item, ...draft });
+    const allocatedOverhead = sharedOverhead * allocationShare;
+    const fixed = draft.ownOverhead + allocatedOverhead;
+
+    return {
+      ...draft,
+      allocationShare,
+      allocatedOverhead,
+      profit: draft.contribution - fixed,
+      breakEvenUnits: mixBreakEven(fixed, draft.contribution, draft.plannedUnits),
+    };
+  });
+
+  const totalFixed = sharedOverhead + products.reduce((acc, p) => acc + p.ownOverhead, 0);
+
+  return {
+    products,
+    sharedOverhead,
+    totalFixed,
+    allocationTotal: products.reduce((acc, p) => acc + p.allocationShare, 0),
+    plannedUnits,
+    revenue,
+    contribution,
+    blendedMargin: plannedUnits > 0 ? contribution / plannedUnits : 0,
+    breakEvenUnits: mixBreakEven(totalFixed, contribution, plannedUnits),
+    profit: contribution - totalFixed,
+  };
+};
@@ -0,0 +1,119 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { createDefaultStore, createProject, parseProjectStore, saveProjectStore } from './projectStorage';
+import { createDefaultPortfolio } from './portfolio';
+import { createDefaultMaterialLibrary } from './materialLibrary';
+import { CURRENT_SCHEMA_VERSION } from './stateSchema';
+import { V0_STATE } from './__fixtures__/legacyStates';
+
+describe('parseProjectStore', () => {
+  it('creates a default project when nothing is stored', () => {
+    const store = parseProjectStore(null);
+    expect(store.projects).toHaveLength(1);
+    expect(store.activeProjectId).toBe(store.projects[0].id);
+    expect(store.projects[0].state).toEqual(INITIAL_STATE);
+  });
+
+  it('falls back to a default store on corrupt JSON', () => {
+    expect(parseProjectStore('{not json').projects).toHaveLength(1);
+  });
+
+  it('restores saved projects and the active selection', () => {
+    const a = createProject('Lamp');
+    const b = createProject('Chair');
+    const store = parseProjectStore(JSON.stringify({ activeProjectId: b.id, projects: [a, b] }));
+
+    expect(store.projects.map(p => p.name)).toEqual(['Lamp', 'Chair']);
+    expect(store.activeProjectId).toBe(b.id);
+  });
+
+  it('drops malformed entries and repairs a dangling active id', () => {
+    const a = createProject('Lamp');
+    const store = parseProjectStore(JSON.stringify({
+      activeProjectId: 'gone',
+      projects: [{ id: 'x', name: 'Broken' }, a],
+    }));
+
+    expect(store.projects).toHaveLength(1);
+    expect(store.activeProjectId).toBe(a.id);
+  });
+
+  it('migrates stores saved before schema versioning', () => {
+    const store = parseProjectStore(JSON.stringify({
+      activeProjectId: 'p1',
+      projects: [{ id: 'p1', name: 'Lamp', state: V0_STATE, updatedAt: '2025-01-01T00:00:00.000Z' }],
+    }));
+
+    expect(store.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(store.projects[0].state.channels).toHaveLength(INITIAL_STATE.channels.length);
+  });
+
+  it('gives stores without a portfolio an empty one', () => {
+    const store = parseProjectStore(JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      activeProjectId: 'x',
+      projects: [createProject('Lamp')],
+    }));
+    expect(store.portfolio).toEqual(createDefaultPortfolio());
+  });
+
+  it('keeps the portfolio but drops entries for missing projects', () => {
+    const lamp = createProject('Lamp');
+    const portfolio = {
+      ...createDefaultPortfolio(),
+      allocationRule: 'units',
+      items: [
+        { projectId: lamp.id, manualShare: 0, plannedUnits: { direct: 10 } },
+        { projectId: 'deleted', manualShare: 0, plannedUnits: {} },
+      ],
+    };
+    const store = parseProjectStore(JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      activeProjectId: lamp.id,
+      projects: [lamp],
+      portfolio,
+    }));
+
+    expect(store.portfolio.allocationRule).toBe('units');
+    expect(store.portfolio.items.map(i => i.projectId)).toEqual([lamp.id]);
+  });
+
+  it('reads free-text library units saved before units were checked', () => {
+    const item = {
+      id: 'alu', name: 'Aluminum', supplier: '', unit: 'Kilos', unitCost: 4, currency: 'USD',
+      priceDate: '2025-01-01', priceHistory: [], notes: '',
+    };
+    const store = parseProjectStore(JSON.stringify({
+      schemaVersion: 12,
+      activeProjectId: 'x',
+      projects: [createProject('Lamp')],
+      materialLibrary: { items: [item, { ...item, id: 'box', unit: 'crate' }], staleAfterMonths: 6 },
+    }));
+    expect(store.materialLibrary.items.map(i => i.unit)).toEqual(['kg', 'pcs']);
+  });
+
+  it('replaces a missing or damaged material library with an empty one', () => {
+    const base = { schemaVersion: CURRENT_SCHEMA_VERSION, activeProjectId: 'x', projects: [createProject('Lamp')] };
+    expect(parseProjectStore(JSON.stringify(base)).materialLibrary).toEqual(createDefaultMaterialLibrary());
+    expect(parseProjectStore(JSON.stringify({ ...base, materialLibrary: { items: 'none' } })).materialLibrary)
+      .toEqual(createDefaultMaterialLibrary());
+  });
+});
+
+describe('saveProjectStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports whether the store was written', () => {
+    const setItem = vi.fn();
+    vi.stubGlobal('window', { localStorage: { setItem } });
+    expect(saveProjectStore(createDefaultStore())).toBe(true);
+    expect(setItem).toHaveBeenCalledOnce();
+
+    setItem.mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    expect(saveProjectStore(createDefaultStore())).toBe(false);
+  });
+});
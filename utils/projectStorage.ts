@@ -0,0 +1,133 @@
+import { INITIAL_STATE } from '../constants';
+import { FinancialState, MaterialLibrary, Portfolio, ProjectStore, SavedProject } from '../types';
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateMaterialLibrary,
+  migrateState,
+  validateMaterialLibrary,
+  validatePortfolio,
+} from './stateSchema';
+import { createDefaultMaterialLibrary } from './materialLibrary';
+import { createDefaultPortfolio, prunePortfolio } from './portfolio';
+import { createId } from './id';
+
+export const STORAGE_KEY = 'designfin.projects';
+export const BACKUP_STORAGE_KEY = 'designfin.projects.backup';
+
+export const createProject = (name: string, state: FinancialState = INITIAL_STATE): SavedProject => ({
+  id: createId(),
+  name,
+  state,
+  updatedAt: new Date().toISOString(),
+});
+
+export const createDefaultStore = (): ProjectStore => {
+  const project = createProject('Untitled Product');
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    activeProjectId: project.id,
+    projects: [project],
+    portfolio: createDefaultPortfolio(),
+    materialLibrary: createDefaultMaterialLibrary(),
+  };
+};
+
+// Upgrades a stored project to the current schema; null if it cannot be recovered.
+const restoreProject = (value: unknown, version: number): SavedProject | null => {
+  if (!value || typeof value !== 'object') return null;
+  const p = value as SavedProject;
+  if (typeof p.id !== 'string' || typeof p.name !== 'string') return null;
+
+  try {
+    return {
+      id: p.id,
+      name: p.name,
+      state: migrateState(p.state, version),
+      updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : new Date().toISOString(),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Stores written before portfolios existed, or with a damaged one, start with an empty portfolio
+const restorePortfolio = (value: unknown, projects: SavedProject[]): Portfolio =>
+  validatePortfolio(value).length === 0
+    ? prunePortfolio(value as Portfolio, projects.map(p => p.id))
+    : createDefaultPortfolio();
+
+// Same for the material library; linked rows keep their last copied price either way
+const restoreMaterialLibrary = (value: unknown, version: number): MaterialLibrary => {
+  const library = migrateMaterialLibrary(value, version);
+  return validateMaterialLibrary(library).length === 0 ? (library as MaterialLibrary) : createDefaultMaterialLibrary();
+};
+
+// Reads a serialized store, falling back to a fresh one if it is missing or corrupt.
+export const parseProjectStore = (raw: string | null): ProjectStore => {
+  if (!raw) return createDefaultStore();
+
+  try {
+    const parsed = JSON.parse(raw);
+    // Stores written before versioning hold unversioned (v0) state
+    const version = typeof parsed?.schemaVersion === 'number' ? parsed.schemaVersion : 0;
+    const projects: SavedProject[] = Array.isArray(parsed?.projects)
+      ? parsed.projects
+          .map((p: unknown) => restoreProject(p, version))
+          .filter((p: SavedProject | null): p is SavedProject => p !== null)
+      : [];
+    if (projects.length === 0) return createDefaultStore();
+
+    const activeProjectId = projects.some(p => p.id === parsed.activeProjectId)
+      ? parsed.activeProjectId
+      : projects[0].id;
+
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      activeProjectId,
+      projects,
+      portfolio: restorePortfolio(parsed.portfolio, projects),
+      materialLibrary: restoreMaterialLibrary(parsed.materialLibrary, version),
+    };
+  } catch {
+    return createDefaultStore();
+  }
+};
+
+// Whether loading had to upgrade or discard anything from the raw payload
+const needsBackup = (raw: string, store: ProjectStore): boolean => {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed?.schemaVersion !== CURRENT_SCHEMA_VERSION
+      || !Array.isArray(parsed?.projects)
+      || parsed.projects.length !== store.projects.length
+      || (parsed.portfolio !== undefined && validatePortfolio(parsed.portfolio).length > 0)
+      || (parsed.materialLibrary !== undefined && validateMaterialLibrary(parsed.materialLibrary).length > 0);
+  } catch {
+    return true;
+  }
+};
+
+export const loadProjectStore = (): ProjectStore => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const store = parseProjectStore(raw);
+    // Autosave will overwrite the original, so keep a copy of anything we could not carry over as-is
+    if (raw && needsBackup(raw, store)) {
+      window.localStorage.setItem(BACKUP_STORAGE_KEY, raw);
+    }
+    return store;
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies)
+    return createDefaultStore();
+  }
+};
+
+// False when nothing was written (quota exceeded or storage disabled); work carries on in memory
+export const saveProjectStore = (store: ProjectStore): boolean => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    return true;
+  } catch {
+    return false;
+  }
+};
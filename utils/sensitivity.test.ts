@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState } from '../types';
+import { buildSensitivityDrivers, computeSensitivity } from './sensitivity';
+
+const state: FinancialState = {
+  ...INITIAL_STATE,
+  devCosts: [{ id: 'd', name: 'Tooling', amount: 1000, currency: 'USD' }],
+  amortizationQty: 100,
+  batchSize: 10,
+  wasteCount: 0,
+  materials: [
+    { id: 'tube', name: 'Tube', cost: 100, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 10, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    { id: 'box', name: 'Box', cost: 20, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+  ],
+  operations: [],
+  publicPrice: 100,
+  overheads: [{ id: 'rent', name: 'Rent', amount: 1000, frequency: 'monthly', currency: 'USD' }],
+  designerRoyaltyPercent: 0.1,
+  channels: [{ id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' }],
+};
+
+describe('buildSensitivityDrivers', () => {
+  it('covers price, waste, amortization, royalty, the channel discount and every material', () => {
+    expect(buildSensitivityDrivers(state, 'retail').map(d => d.id)).toEqual([
+      'publicPrice',
+      'wasteCount',
+      'amortizationQty',
+      'designerRoyaltyPercent',
+      'discount:retail',
+      'material:tube',
+      'material:box',
+    ]);
+  });
+
+  it('scales calculated materials through their unit cost and manual ones through the lump sum', () => {
+    const [tube, box] = buildSensitivityDrivers(state, 'retail').slice(-2);
+    expect(tube.apply(state, 1.1).materials[0]).toMatchObject({ unitCost: 11, cost: 110 });
+    expect(box.apply(state, 1.1).materials[1].cost).toBeCloseTo(22);
+  });
+
+  it('never lets waste exceed the batch', () => {
+    const waste = buildSensitivityDrivers({ ...state, wasteCount: 10 }, 'retail')[1];
+    expect(waste.apply({ ...state, wasteCount: 10 }, 1.5).wasteCount).toBe(10);
+  });
+});
+
+describe('computeSensitivity', () => {
+  it('reports the base figures from the kernel', () => {
+    // net 50, royalty 5, COGS 12 materials + 10 amortization = 23 margin
+    const report = computeSensitivity(state, 'retail', 0.1);
+    expect(report.baseProfit).toBeCloseTo(23);
+    expect(report.baseBreakEven).toBe(44);
+  });
+
+  it('moves each input down and up by the step', () => {
+    const price = computeSensitivity(state, 'retail', 0.1).rows.find(r => r.id === 'publicPrice')!;
+    // Price ±10%: net ±5, royalty ±0.5
+    expect(price.lowProfit).toBeCloseTo(18.5);
+    expect(price.highProfit).toBeCloseTo(27.5);
+    expect(price.lowBreakEven).toBe(55);
+    expect(price.highBreakEven).toBe(37);
+  });
+
+  it('ranks drivers by their profit swing', () => {
+    const report = computeSensitivity(state, 'retail', 0.2);
+    const swings = report.rows.map(r => r.swing);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    // At a 50% discount, price and discount move net revenue by the same amount
+    expect(report.rows.slice(0, 2).map(r => r.id).sort()).toEqual(['discount:retail', 'publicPrice']);
+    expect(report.rows.find(r => r.id === 'wasteCount')!.swing).toBe(0);
+  });
+
+  it('returns no rows for an unknown channel', () => {
+    expect(computeSensitivity(state, 'missing', 0.1).rows).toEqual([]);
+  });
+
+  it('does not mutate its input', () => {
+    const snapshot = JSON.stringify(state);
+    computeSensitivity(state, 'retail', 0.5);
+    expect(JSON.stringify(state)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,106 @@
+import { FinancialState, SensitivityReport, SensitivityRow } from '../types';
+import { computeFinancials, isCalculatedMaterial, recalculateMaterials } from './costingEngine';
+
+// One input the analysis can move. `apply` returns a copy of the state with the
+// input scaled by `factor` (e.g. 0.9 or 1.1); the kernel does the rest.
+export interface SensitivityDriver {
+  id: string;
+  label: string;
+  apply: (state: FinancialState, factor: number) => FinancialState;
+}
+
+const clampPercent = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export const buildSensitivityDrivers = (state: FinancialState, channelId: string): SensitivityDriver[] => {
+  const drivers: SensitivityDriver[] = [
+    {
+      id: 'publicPrice',
+      label: 'Public Price',
+      apply: (s, f) => ({ ...s, publicPrice: s.publicPrice * f }),
+    },
+    {
+      id: 'wasteCount',
+      label: 'Waste',
+      // Fractional waste is fine for the math and keeps small counts from rounding to no change
+      apply: (s, f) => ({ ...s, wasteCount: Math.min(s.wasteCount * f, s.batchSize) }),
+    },
+    {
+      id: 'amortizationQty',
+      label: 'Amortization Qty',
+      apply: (s, f) => ({ ...s, amortizationQty: s.amortizationQty * f }),
+    },
+    {
+      id: 'designerRoyaltyPercent',
+      label: 'Royalty %',
+      apply: (s, f) => ({ ...s, designerRoyaltyPercent: clampPercent(s.designerRoyaltyPercent * f) }),
+    },
+  ];
+
+  const channel = state.channels.find(c => c.id === channelId);
+  if (channel) {
+    drivers.push({
+      id: `discount:${channel.id}`,
+      label: `${channel.name} Discount`,
+      apply: (s, f) => ({
+        ...s,
+        channels: s.channels.map(c => (c.id === channel.id ? { ...c, discountPercent: clampPercent(c.discountPercent * f) } : c)),
+      }),
+    });
+  }
+
+  // Calculated rows move their unit price (and every tier); manual rows move the lump sum.
+  // Sub-assemblies are left out, as their cost is whatever their parts cost.
+  state.materials.filter(m => !m.isAssembly).forEach(material => {
+    drivers.push({
+      id: `material:${material.id}`,
+      label: `${material.name || 'Material'} Cost`,
+      apply: (s, f) => {
+        const materials = s.materials.map(m => {
+          if (m.id !== material.id) return m;
+          return isCalculatedMaterial(m)
+            ? { ...m, unitCost: m.unitCost * f, priceTiers: m.priceTiers.map(t => ({ ...t, unitCost: t.unitCost * f })) }
+            : { ...m, cost: m.cost * f };
+        });
+        return { ...s, materials: recalculateMaterials(materials, s.batchSize) };
+      },
+    });
+  });
+
+  return drivers;
+};
+
+// Moves each driver down and up by `stepPercent` (0 to 1) and ranks them by the
+// change in the channel's profit per unit.
+export const computeSensitivity = (
+  state: FinancialState,
+  channelId: string,
+  stepPercent: number
+): SensitivityReport => {
+  const channelResult = (s: FinancialState) =>
+    computeFinancials(s).scenarios.find(c => c.id === channelId);
+
+  const base = channelResult(state);
+  const rows: SensitivityRow[] = base
+    ? buildSensitivityDrivers(state, channelId).map(driver => {
+        const low = channelResult(driver.apply(state, 1 - stepPercent))!;
+        const high = channelResult(driver.apply(state, 1 + stepPercent))!;
+        return {
+          id: driver.id,
+          label: driver.label,
+          lowProfit: low.profit,
+          highProfit: high.profit,
+          lowBreakEven: low.breakEvenUnits,
+          highBreakEven: high.breakEvenUnits,
+          swing: Math.abs(high.profit - low.profit),
+        };
+      })
+    : [];
+
+  return {
+    channelId,
+    stepPercent,
+    baseProfit: base?.profit ?? 0,
+    baseBreakEven: base?.breakEvenUnits ?? Infinity,
+    rows: rows.sort((a, b) => b.swing - a.swing),
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { INITIAL_STATE } from '../constants';
+import { SHARE_HASH_PREFIX, createShareHash, isShareHash, parseShareHash } from './shareLink';
+import { StateValidationError } from './stateSchema';
+import { V9_SHARE_HASH, V9_STATE } from './__fixtures__/legacyStates';
+
+// Swaps one character of the compressed data for another valid base64url character
+const tamper = (hash: string) => {
+  const i = hash.length - 10;
+  return hash.slice(0, i) + (hash[i] === 'A' ? 'B' : 'A') + hash.slice(i + 1);
+};
+
+describe('share links', () => {
+  it('round-trips a costing', async () => {
+    const hash = await createShareHash('Pendant Lamp', INITIAL_STATE);
+    expect(isShareHash(hash)).toBe(true);
+    expect(await parseShareHash(hash)).toEqual({ name: 'Pendant Lamp', state: INITIAL_STATE });
+  });
+
+  it('compresses the state and keeps it URL-safe', async () => {
+    const hash = await createShareHash('Pendant Lamp', INITIAL_STATE);
+    expect(hash.length).toBeLessThan(JSON.stringify(INITIAL_STATE).length);
+    expect(hash.slice(SHARE_HASH_PREFIX.length)).toMatch(/^[\w.-]+$/);
+  });
+
+  it('opens links made before a schema change', async () => {
+    const { name, state } = await parseShareHash(V9_SHARE_HASH);
+    expect(name).toBe('Pendant Lamp');
+    expect(state.setupCosts).toEqual([]);
+    expect(state.tax).toEqual(V9_STATE.tax);
+  });
+
+  it('rejects edited or truncated links', async () => {
+    const hash = await createShareHash('Pendant Lamp', INITIAL_STATE);
+    await expect(parseShareHash(tamper(hash))).rejects.toThrow(/altered|damaged/);
+    await expect(parseShareHash(hash.slice(0, -20))).rejects.toThrow(/damaged/);
+    await expect(parseShareHash(`${SHARE_HASH_PREFIX}1.00000000`)).rejects.toThrow(/damaged/);
+    await expect(parseShareHash(`${SHARE_HASH_PREFIX}9.${hash.split('.').slice(1).join('.')}`)).rejects.toThrow(/newer version/);
+  });
+
+  it('rejects oversized links before decoding them', async () => {
+    const huge = `${SHARE_HASH_PREFIX}1.00000000.${'A'.repeat(100_000)}`;
+    await expect(parseShareHash(huge)).rejects.toThrow(StateValidationError);
+    await expect(parseShareHash(huge)).rejects.toThrow(/too large/);
+  });
+
+  it('stops inflating links that expand far beyond any costing', async () => {
+    const bomb = deflateRawSync(Buffer.from(' '.repeat(4 * 1024 * 1024))).toString('base64url');
+    await expect(parseShareHash(`${SHARE_HASH_PREFIX}1.00000000.${bomb}`)).rejects.toThrow(/too large/);
+  });
+
+  it('refuses to build a link for a costing that would not fit', async () => {
+    // Random names defeat compression
+    const materials = Array.from({ length: 4000 }, (_, i) => ({
+      ...INITIAL_STATE.materials[0],
+      id: `m${i}`,
+      name: `${Math.random().toString(36)}${Math.random().toString(36)}`,
+    }));
+    await expect(createShareHash('Huge', { ...INITIAL_STATE, materials })).rejects.toThrow(/too large to share/);
+  });
+
+  it('surfaces validation issues from the shared state', async () => {
+    const hash = await createShareHash('Broken', { ...INITIAL_STATE, publicPrice: 'free' as unknown as number });
+    await expect(parseShareHash(hash)).rejects.toThrow('publicPrice must be a number');
+  });
+});
@@ -0,0 +1,126 @@
+import { FinancialState, SharedCosting } from '../types';
+import { CURRENT_SCHEMA_VERSION, StateValidationError, migrateState } from './stateSchema';
+
+export const SHARE_HASH_PREFIX = '#share=';
+
+// Bumped only if the envelope itself changes; the state inside migrates like any saved costing
+const SHARE_FORMAT = '1';
+// Chat apps and mail clients start mangling URLs well before browsers give up
+const MAX_SHARE_PAYLOAD_CHARS = 60_000;
+// A real costing inflates to a few dozen KB; anything far beyond that is a compression bomb
+const MAX_SHARE_JSON_BYTES = 1024 * 1024;
+
+// FNV-1a, enough to tell a hand-edited or truncated link from the one we produced
+const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// Runs bytes through a (de)compression stream, giving up once the output passes `maxBytes`
+const pipeBytes = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxBytes = Infinity
+): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new StateValidationError('This share link is too large to open.');
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+// Builds the `#share=...` fragment. The fragment never reaches a server, so the costing
+// stays between whoever holds the link.
+export const createShareHash = async (name: string, state: FinancialState): Promise<string> => {
+  const json = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, name, state });
+  const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  const payload = `${SHARE_FORMAT}.${checksum(json)}.${toBase64Url(compressed)}`;
+  if (payload.length > MAX_SHARE_PAYLOAD_CHARS) {
+    throw new StateValidationError('This costing is too large to share as a link. Export it as a file instead.');
+  }
+  return `${SHARE_HASH_PREFIX}${payload}`;
+};
+
+export const isShareHash = (hash: string): boolean => hash.startsWith(SHARE_HASH_PREFIX);
+
+// Returns the costing in a share fragment, migrated to the current schema.
+// Throws StateValidationError for links that are damaged, edited, oversized or invalid.
+export const parseShareHash = async (hash: string): Promise<SharedCosting> => {
+  if (!isShareHash(hash)) {
+    throw new StateValidationError('This is not a DesignFin share link.');
+  }
+  const payload = hash.slice(SHARE_HASH_PREFIX.length);
+  if (payload.length > MAX_SHARE_PAYLOAD_CHARS) {
+    throw new StateValidationError('This share link is too large to open.');
+  }
+
+  const [format, expectedChecksum, data] = payload.split('.');
+  if (format !== SHARE_FORMAT) {
+    throw new StateValidationError('This share link was made by a newer version of DesignFin.');
+  }
+  if (!expectedChecksum || !data) {
+    throw new StateValidationError('This share link is damaged or incomplete.');
+  }
+
+  let json: string;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(data), new DecompressionStream('deflate-raw'), MAX_SHARE_JSON_BYTES);
+    json = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (err) {
+    if (err instanceof StateValidationError) throw err;
+    throw new StateValidationError('This share link is damaged or incomplete.');
+  }
+  if (checksum(json) !== expectedChecksum) {
+    throw new StateValidationError('This share link has been altered and cannot be opened.');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new StateValidationError('This share link is damaged or incomplete.');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new StateValidationError('This share link does not contain a DesignFin costing.');
+  }
+  const parsed = raw as Record<string, unknown>;
+  if (typeof parsed.schemaVersion !== 'number') {
+    throw new StateValidationError('This share link does not contain a DesignFin costing.');
+  }
+
+  return {
+    name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name : 'Shared Costing',
+    state: migrateState(parsed.state, parsed.schemaVersion),
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, NO_CHANNEL_COSTS } from '../constants';
+import { FinancialState } from '../types';
+import { computeFinancials } from './costingEngine';
+import { applyRiskValue, createRandom, percentile, runSimulation, sampleTriangular } from './simulation';
+
+const state: FinancialState = {
+  ...INITIAL_STATE,
+  devCosts: [{ id: 'd', name: 'Tooling', amount: 1000, currency: 'USD' }],
+  amortizationQty: 100,
+  batchSize: 10,
+  wasteCount: 0,
+  materials: [
+    { id: 'tube', name: 'Tube', cost: 100, costMode: 'calculated', qtyPerUnit: 1, bufferUnits: 0, unitCost: 10, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+    { id: 'box', name: 'Box', cost: 20, costMode: 'manual', qtyPerUnit: 0, bufferUnits: 0, unitCost: 0, priceTiers: [], consumptionUnit: 'pcs', purchaseUnit: 'pcs', currency: 'USD', notes: '', libraryId: null, priceDate: null, parentId: null, isAssembly: false },
+  ],
+  operations: [],
+  publicPrice: 100,
+  overheads: [{ id: 'rent', name: 'Rent', amount: 1000, frequency: 'monthly', currency: 'USD' }],
+  designerRoyaltyPercent: 0,
+  channels: [
+    { id: 'direct', name: 'Direct', discountPercent: 0, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+    { id: 'retail', name: 'Retail', discountPercent: 0.5, commissionPercent: 0, discountBeforeTax: true, ...NO_CHANNEL_COSTS, description: '' },
+  ],
+  riskRanges: [],
+};
+
+describe('sampleTriangular', () => {
+  const range = { target: 'publicPrice', min: 80, mostLikely: 90, max: 120 };
+
+  it('maps the ends of the unit interval to min and max', () => {
+    expect(sampleTriangular(range, 0)).toBe(80);
+    expect(sampleTriangular(range, 1)).toBe(120);
+  });
+
+  it('splits at the mode in proportion to its position', () => {
+    expect(sampleTriangular(range, 0.25)).toBeCloseTo(90);
+  });
+
+  it('returns the mode for a degenerate range', () => {
+    expect(sampleTriangular({ ...range, min: 90, max: 90 }, 0.7)).toBe(90);
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between ranks', () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.1)).toBeCloseTo(1);
+  });
+});
+
+describe('applyRiskValue', () => {
+  it('sets the unit price of calculated rows and recalculates their cost', () => {
+    const next = applyRiskValue(state, 'material:tube', 12);
+    expect(next.materials[0]).toMatchObject({ unitCost: 12, cost: 120 });
+  });
+
+  it('sets the lump sum of manual rows', () => {
+    expect(applyRiskValue(state, 'material:box', 30).materials[1].cost).toBe(30);
+  });
+
+  it('caps waste at the batch size', () => {
+    expect(applyRiskValue(state, 'wasteCount', 50).wasteCount).toBe(10);
+  });
+});
+
+describe('runSimulation', () => {
+  const risky: FinancialState = {
+    ...state,
+    riskRanges: [
+      { target: 'publicPrice', min: 20, mostLikely: 60, max: 100 },
+      { target: 'material:tube', min: 8, mostLikely: 10, max: 15 },
+    ],
+  };
+
+  it('collapses to the point estimate without ranges', () => {
+    const base = computeFinancials(state);
+    const report = runSimulation(state, { runs: 50, seed: 1 });
+    expect(report.cogs.p10).toBeCloseTo(base.cogs);
+    expect(report.cogs.p90).toBeCloseTo(base.cogs);
+    expect(report.cogs.histogram).toEqual([{ from: base.cogs, to: base.cogs, count: 50 }]);
+    expect(report.channels.map(c => c.probabilityUnprofitable)).toEqual([0, 0]);
+  });
+
+  it('is reproducible for the same seed', () => {
+    expect(runSimulation(risky, { runs: 200, seed: 7 })).toEqual(runSimulation(risky, { runs: 200, seed: 7 }));
+    expect(runSimulation(risky, { runs: 200, seed: 8 }).cogs.mean).not.toBe(
+      runSimulation(risky, { runs: 200, seed: 7 }).cogs.mean
+    );
+  });
+
+  it('reports ordered percentiles and a full histogram', () => {
+    const report = runSimulation(risky, { runs: 500, seed: 3 });
+    const { cogs } = report;
+    expect(cogs.min).toBeLessThanOrEqual(cogs.p10);
+    expect(cogs.p10).toBeLessThanOrEqual(cogs.p50);
+    expect(cogs.p50).toBeLessThanOrEqual(cogs.p90);
+    expect(cogs.p90).toBeLessThanOrEqual(cogs.max);
+    expect(cogs.histogram.reduce((acc, b) => acc + b.count, 0)).toBe(500);
+  });
+
+  it('estimates the chance each channel loses money', () => {
+    // COGS is 22-27, so Direct (price 20-100) rarely loses and Retail (half price) often does
+    const [direct, retail] = runSimulation(risky, { runs: 1000, seed: 11 }).channels;
+    expect(direct.probabilityUnprofitable).toBeGreaterThan(0);
+    expect(retail.probabilityUnprofitable).toBeGreaterThan(direct.probabilityUnprofitable);
+    expect(retail.probabilityUnprofitable).toBeLessThan(1);
+  });
+
+  it('ignores ranges on deleted materials', () => {
+    const orphaned = { ...state, riskRanges: [{ target: 'material:gone', min: 1, mostLikely: 2, max: 3 }] };
+    expect(runSimulation(orphaned, { runs: 20, seed: 1 }).cogs.max).toBeCloseTo(computeFinancials(state).cogs);
+  });
+
+  it('draws from its own seeded stream', () => {
+    const a = createRandom(5);
+    const b = createRandom(5);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  ChannelRiskResult,
+  DistributionSummary,
+  FinancialState,
+  HistogramBin,
+  RiskRange,
+  SimulationReport,
+} from '../types';
+import { computeFinancials, isCalculatedMaterial, recalculateMaterials } from './costingEngine';
+
+export const DEFAULT_SIMULATION_RUNS = 2000;
+export const DEFAULT_SIMULATION_SEED = 42;
+const HISTOGRAM_BINS = 20;
+
+// Mulberry32: tiny seeded PRNG, so a given seed always replays the same runs
+export const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Inverse CDF of the triangular distribution for a uniform draw u in [0, 1)
+export const sampleTriangular = ({ min, mostLikely, max }: RiskRange, u: number): number => {
+  if (max <= min) return mostLikely;
+  const split = (mostLikely - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mostLikely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mostLikely));
+};
+
+const materialIdOf = (target: string) => (target.startsWith('material:') ? target.slice('material:'.length) : null);
+
+// Current point estimate of a target, or null if it no longer exists in the model
+export const riskTargetValue = (state: FinancialState, target: string): number | null => {
+  if (target === 'publicPrice') return state.publicPrice;
+  if (target === 'wasteCount') return state.wasteCount;
+  const material = state.materials.find(m => m.id === materialIdOf(target));
+  if (!material) return null;
+  return isCalculatedMaterial(material) ? material.unitCost : material.cost;
+};
+
+export const riskTargetLabel = (state: FinancialState, target: string): string => {
+  if (target === 'publicPrice') return 'Public Price';
+  if (target === 'wasteCount') return 'Waste (units)';
+  const material = state.materials.find(m => m.id === materialIdOf(target));
+  if (!material) return target;
+  return `${material.name || 'Material'} ${isCalculatedMaterial(material) ? 'Unit Cost' : 'Cost'}`;
+};
+
+// Every input a range can be attached to, in display order
+export const riskTargets = (state: FinancialState): string[] => [
+  'publicPrice',
+  'wasteCount',
+  // Sub-assemblies have no price of their own; their parts carry the risk
+  ...state.materials.filter(m => !m.isAssembly).map(m => `material:${m.id}`),
+];
+
+// Returns a copy of the state with one target set to `value`
+export const applyRiskValue = (state: FinancialState, target: string, value: number): FinancialState => {
+  if (target === 'publicPrice') return { ...state, publicPrice: value };
+  if (target === 'wasteCount') return { ...state, wasteCount: Math.min(value, state.batchSize) };
+
+  const id = materialIdOf(target);
+  const materials = state.materials.map(m => {
+    if (m.id !== id) return m;
+    if (!isCalculatedMaterial(m)) return { ...m, cost: value };
+    // Price breaks move with the base price
+    const ratio = m.unitCost > 0 ? value / m.unitCost : 1;
+    return { ...m, unitCost: value, priceTiers: m.priceTiers.map(t => ({ ...t, unitCost: t.unitCost * ratio })) };
+  });
+  return { ...state, materials: recalculateMaterials(materials, state.batchSize) };
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const buildHistogram = (sorted: number[]): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return [{ from: min, to: max, count: sorted.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach(value => {
+    bins[Math.min(Math.floor((value - min) / width), HISTOGRAM_BINS - 1)].count++;
+  });
+  return bins;
+};
+
+export const summarize = (values: number[]): DistributionSummary => {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, p10: 0, p50: 0, p90: 0, histogram: [] };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((acc, v) => acc + v, 0) / sorted.length,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    histogram: buildHistogram(sorted),
+  };
+};
+
+// Samples every range independently per run and pushes the result through the kernel.
+// Ranges whose target no longer exists are ignored.
+export const runSimulation = (
+  state: FinancialState,
+  { runs = DEFAULT_SIMULATION_RUNS, seed = DEFAULT_SIMULATION_SEED }: { runs?: number; seed?: number } = {}
+): SimulationReport => {
+  const random = createRandom(seed);
+  const ranges = state.riskRanges.filter(r => riskTargetValue(state, r.target) !== null);
+
+  const cogs: number[] = [];
+  const profits: number[][] = state.channels.map(() => []);
+
+  for (let run = 0; run < runs; run++) {
+    const sampled = ranges.reduce(
+      (acc, range) => applyRiskValue(acc, range.target, sampleTriangular(range, random())),
+      state
+    );
+    const report = computeFinancials(sampled);
+    cogs.push(report.cogs);
+    report.scenarios.forEach((s, i) => profits[i].push(s.profit));
+  }
+
+  const channels: ChannelRiskResult[] = state.channels.map((channel, i) => ({
+    channelId: channel.id,
+    name: channel.name,
+    profit: summarize(profits[i]),
+    probabilityUnprofitable: runs > 0 ? profits[i].filter(p => p <= 0).length / runs : 0,
+  }));
+
+  return { runs, seed, cogs: summarize(cogs), channels };
+};
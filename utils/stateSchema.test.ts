@@ -0,0 +1,370 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_STATE, DEFAULT_SCENARIOS, NO_CHANNEL_COSTS } from '../constants';
+import {
+  CURRENT_SCHEMA_VERSION,
+  StateValidationError,
+  detectSchemaVersion,
+  migrateState,
+  validateMaterialLibrary,
+  validatePortfolio,
+  validateState,
+} from './stateSchema';
+import { createDefaultMaterialLibrary } from './materialLibrary';
+import { createDefaultPortfolio } from './portfolio';
+import { V0_STATE, V1_STATE, V2_STATE, V3_STATE, V4_STATE, V5_STATE, V6_STATE, V7_STATE, V8_STATE, V9_STATE, V10_STATE, V11_STATE, V12_STATE, V13_STATE, V14_STATE } from './__fixtures__/legacyStates';
+
+const legacyState = () => JSON.parse(JSON.stringify(V0_STATE));
+
+describe('migrateState', () => {
+  it('accepts the current shape unchanged', () => {
+    expect(migrateState(INITIAL_STATE, CURRENT_SCHEMA_VERSION)).toEqual(INITIAL_STATE);
+  });
+
+  it('creates the starter channels for unversioned payloads', () => {
+    const state = migrateState(legacyState(), 0);
+    expect(state.channels).toEqual(DEFAULT_SCENARIOS);
+  });
+
+  it('keeps old lump-sum materials as manual rows', () => {
+    const raw = { ...legacyState(), materials: [{ id: 'a', name: 'Aluminum', amount: 250 }] };
+    const [row] = migrateState(raw, 0).materials;
+
+    expect(row).toEqual({
+      id: 'a',
+      name: 'Aluminum',
+      cost: 250,
+      qtyPerUnit: 0,
+      bufferUnits: 0,
+      unitCost: 0,
+      priceTiers: [],
+      currency: 'USD',
+      notes: '',
+      libraryId: null,
+      consumptionUnit: 'pcs',
+      purchaseUnit: 'pcs',
+      priceDate: null,
+      parentId: null,
+      isAssembly: false,
+      costMode: 'manual',
+    });
+    expect(row).not.toHaveProperty('amount');
+  });
+
+  it('coerces numeric strings from hand-edited files', () => {
+    const raw = { ...legacyState(), materials: [{ id: 'a', name: 'Tube', cost: '12.5', qtyPerUnit: '2' }] };
+    const [row] = migrateState(raw, 0).materials;
+    expect(row.cost).toBe(12.5);
+    expect(row.qtyPerUnit).toBe(2);
+  });
+
+  it('upgrades single-currency v1 data to USD', () => {
+    const state = migrateState(V1_STATE, 1);
+    expect(state.reportingCurrency).toBe('USD');
+    expect(state.exchangeRates.USD).toBe(1);
+    expect(state.devCosts.every(c => c.currency === 'USD')).toBe(true);
+    expect(state.materials.every(m => m.currency === 'USD')).toBe(true);
+  });
+
+  it('turns v2 discount overrides into full channels', () => {
+    const state = migrateState(V2_STATE, 2);
+    const retail = state.channels.find(c => c.id === 'retail')!;
+
+    expect(state).not.toHaveProperty('customScenarios');
+    expect(state.channels).toHaveLength(DEFAULT_SCENARIOS.length);
+    expect(retail).toMatchObject({ name: 'Retail Store', discountPercent: 0.4, commissionPercent: 0 });
+    expect(state.materials.every(m => m.currency === 'EUR')).toBe(true);
+  });
+
+  it('gives v3 materials an empty tier list so their unit cost is unchanged', () => {
+    const state = migrateState(V3_STATE, 3);
+    expect(state.materials.map(m => m.priceTiers)).toEqual([[], []]);
+    expect(state.materials[1]).toMatchObject({ unitCost: 3, cost: 105 });
+  });
+
+  it('starts v4 costings without labor operations', () => {
+    const state = migrateState(V4_STATE, 4);
+    expect(state.operations).toEqual([]);
+    expect(state.materials[1].priceTiers).toEqual([{ minQty: 100, unitCost: 2.5 }]);
+  });
+
+  it('turns the v5 monthly overhead figure into one overhead line', () => {
+    const state = migrateState(V5_STATE, 5);
+    expect(state).not.toHaveProperty('fixedMonthlyExpenses');
+    expect(state.overheads).toEqual([
+      { id: 'fixed-monthly', name: 'Fixed Monthly Ops', amount: 2500, frequency: 'monthly', currency: 'EUR' },
+    ]);
+  });
+
+  it('drops a zero v5 overhead instead of keeping an empty line', () => {
+    const state = migrateState({ ...V5_STATE, fixedMonthlyExpenses: 0 }, 5);
+    expect(state.overheads).toEqual([]);
+  });
+
+  it('adds empty risk ranges when migrating a v6 payload', () => {
+    const state = migrateState(V6_STATE, 6);
+    expect(state.riskRanges).toEqual([]);
+    expect(state.overheads).toEqual(V6_STATE.overheads);
+  });
+
+  it('adds an empty cash-flow plan when migrating a v7 payload', () => {
+    const state = migrateState(V7_STATE, 7);
+    expect(state.riskRanges).toEqual(V7_STATE.riskRanges);
+    expect(state.cashFlow).toEqual({
+      horizonMonths: 12,
+      batchesByMonth: Array(12).fill(0),
+      salesByChannel: {},
+    });
+  });
+
+  it('adds a zero tax rate and per-channel tax flags when migrating a v8 payload', () => {
+    const state = migrateState(V8_STATE, 8);
+    expect(state.tax).toEqual({ rate: 0, priceIncludesTax: true });
+    // Direct matches a starter channel, Amazon is custom
+    expect(state.channels.map(c => c.discountBeforeTax)).toEqual([false, true]);
+    expect(state.cashFlow).toEqual(V8_STATE.cashFlow);
+  });
+
+  it('adds empty channel costs and turns the card discount into a fee when migrating a v9 payload', () => {
+    const state = migrateState(V9_STATE, 9);
+    const [direct, amazon, card] = state.channels;
+    expect(direct).toMatchObject({ ...NO_CHANNEL_COSTS, discountPercent: 0 });
+    expect(amazon).toMatchObject({ ...NO_CHANNEL_COSTS, discountPercent: 0.15, commissionPercent: 0.08 });
+    expect(card).toMatchObject({ discountPercent: 0, paymentFeePercent: 0.035, description: 'Processing fees included' });
+  });
+
+  it('keeps a card discount the user has changed', () => {
+    const raw = { ...V9_STATE, channels: [{ ...V9_STATE.channels[2], discountPercent: 0.05 }] };
+    expect(migrateState(raw, 9).channels[0]).toMatchObject({ discountPercent: 0.05, paymentFeePercent: 0 });
+  });
+
+  it('adds empty setup costs when migrating a v10 payload', () => {
+    const state = migrateState(V10_STATE, 10);
+    expect(state.setupCosts).toEqual([]);
+    expect(state.channels).toEqual(V10_STATE.channels);
+  });
+
+  it('leaves v11 materials unlinked and undated when migrating', () => {
+    const state = migrateState(V11_STATE, 11);
+    expect(state.materials.map(m => [m.libraryId, m.priceDate])).toEqual(V11_STATE.materials.map(() => [null, null]));
+    expect(state.setupCosts).toEqual(V11_STATE.setupCosts);
+  });
+
+  it('counts v12 quantities and prices in pieces so costs are unchanged', () => {
+    const state = migrateState(V12_STATE, 12);
+    expect(state.materials.map(m => [m.consumptionUnit, m.purchaseUnit])).toEqual(V12_STATE.materials.map(() => ['pcs', 'pcs']));
+    expect(state.materials.map(m => m.cost)).toEqual(V12_STATE.materials.map(m => m.cost));
+  });
+
+  it('keeps every v13 material at the top level of the BOM', () => {
+    const state = migrateState(V13_STATE, 13);
+    expect(state.materials.map(m => [m.parentId, m.isAssembly])).toEqual(V13_STATE.materials.map(() => [null, false]));
+    expect(state.materials.map(m => m.purchaseUnit)).toEqual(V13_STATE.materials.map(() => 'kg'));
+  });
+
+  it('stores the cost mode v14 rows were treated with and keeps their costs', () => {
+    const state = migrateState(V14_STATE, 14);
+    expect(state.materials.map(m => m.costMode)).toEqual(['manual', 'calculated']);
+    expect(state.materials.map(m => m.cost)).toEqual(V14_STATE.materials.map(m => m.cost));
+  });
+
+  it('rejects payloads from a newer schema', () => {
+    expect(() => migrateState(INITIAL_STATE, CURRENT_SCHEMA_VERSION + 1)).toThrow(/newer version/);
+  });
+
+  it('lists every invalid field', () => {
+    const raw = { ...INITIAL_STATE, batchSize: 'lots', designerRoyaltyPercent: 5 };
+    try {
+      migrateState(raw, CURRENT_SCHEMA_VERSION);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(StateValidationError);
+      expect((err as StateValidationError).issues).toEqual([
+        'batchSize must be a number',
+        'designerRoyaltyPercent must be at most 1',
+      ]);
+    }
+  });
+});
+
+describe('detectSchemaVersion', () => {
+  it('reads the version of each frozen payload from its fields', () => {
+    const fixtures = [V0_STATE, V1_STATE, V2_STATE, V3_STATE, V4_STATE, V5_STATE, V6_STATE, V7_STATE,
+      V8_STATE, V9_STATE, V10_STATE, V11_STATE, V12_STATE, V13_STATE, V14_STATE];
+    expect(fixtures.map(detectSchemaVersion)).toEqual(fixtures.map((_, version) => version));
+    expect(detectSchemaVersion(INITIAL_STATE)).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('treats anything else as unversioned', () => {
+    expect(detectSchemaVersion(null)).toBe(0);
+    expect(detectSchemaVersion({ materials: [] })).toBe(0);
+  });
+});
+
+describe('validateState', () => {
+  it('reports nested paths', () => {
+    const raw = { ...INITIAL_STATE, devCosts: [{ id: '1', name: 'Design', amount: null, currency: 'USD' }] };
+    expect(validateState(raw)).toEqual(['devCosts[0].amount must be a number']);
+  });
+
+  it('checks every price tier', () => {
+    const [first] = INITIAL_STATE.materials;
+    const raw = { ...INITIAL_STATE, materials: [{ ...first, priceTiers: [{ minQty: -1, unitCost: 2 }, { minQty: 10 }] }] };
+    expect(validateState(raw)).toEqual([
+      'materials[0].priceTiers[0].minQty must be at least 0',
+      'materials[0].priceTiers[1].unitCost must be a number',
+    ]);
+  });
+
+  it('rejects unknown overhead frequencies', () => {
+    const raw = { ...INITIAL_STATE, overheads: [{ ...INITIAL_STATE.overheads[0], frequency: 'weekly' }] };
+    expect(validateState(raw)).toEqual(['overheads[0].frequency must be monthly, quarterly or annual']);
+  });
+
+  it('rejects risk ranges that are out of order', () => {
+    const raw = { ...INITIAL_STATE, riskRanges: [{ target: 'publicPrice', min: 90, mostLikely: 80, max: 100 }] };
+    expect(validateState(raw)).toEqual(['riskRanges[0] must satisfy min <= mostLikely <= max']);
+  });
+
+  it('requires one cash-flow value per month', () => {
+    const raw = {
+      ...INITIAL_STATE,
+      cashFlow: { horizonMonths: 2, batchesByMonth: [1, -1], salesByChannel: { direct: [5] } },
+    };
+    expect(validateState(raw)).toEqual([
+      'cashFlow.batchesByMonth[1] must be at least 0',
+      'cashFlow.salesByChannel.direct must list one value per month',
+    ]);
+  });
+
+  it('checks the tax settings and channel tax flags', () => {
+    const raw = {
+      ...INITIAL_STATE,
+      tax: { rate: 1.5, priceIncludesTax: 'yes' },
+      channels: [{ ...INITIAL_STATE.channels[0], discountBeforeTax: undefined }],
+    };
+    expect(validateState(raw)).toEqual([
+      'tax.rate must be at most 1',
+      'tax.priceIncludesTax must be true or false',
+      'channels[0].discountBeforeTax must be true or false',
+    ]);
+  });
+
+  it('checks the channel costs', () => {
+    const raw = {
+      ...INITIAL_STATE,
+      channels: [{ ...INITIAL_STATE.channels[0], unitsPerTransaction: 0, returnRate: 2 }],
+    };
+    expect(validateState(raw)).toEqual([
+      'channels[0].unitsPerTransaction must be at least 1',
+      'channels[0].returnRate must be at most 1',
+    ]);
+  });
+
+  it('checks each setup cost', () => {
+    const raw = { ...INITIAL_STATE, setupCosts: [{ id: 'jig', name: 'Jig', amount: 'ten', currency: 'USD' }] };
+    expect(validateState(raw)).toEqual(['setupCosts[0].amount must be a number']);
+  });
+
+  it('checks material library links and price dates', () => {
+    const raw = { ...INITIAL_STATE, materials: [{ ...INITIAL_STATE.materials[0], libraryId: 3, priceDate: '03/01/2025' }] };
+    expect(validateState(raw)).toEqual([
+      'materials[0].libraryId must be text',
+      'materials[0].priceDate must be a date (YYYY-MM-DD)',
+    ]);
+  });
+
+  it('rejects unknown and incompatible material units', () => {
+    const base = INITIAL_STATE.materials[0];
+    const raw = {
+      ...INITIAL_STATE,
+      materials: [{ ...base, consumptionUnit: 'oz' }, { ...base, consumptionUnit: 'g', purchaseUnit: 'm' }],
+    };
+    expect(validateState(raw)).toEqual([
+      'materials[0].consumptionUnit must be one of pcs, g, kg, mm, m, m2, L',
+      'materials[1].purchaseUnit m cannot be converted from g',
+    ]);
+  });
+
+  it('rejects unknown material cost modes', () => {
+    const raw = { ...INITIAL_STATE, materials: [{ ...INITIAL_STATE.materials[0], costMode: 'auto' }] };
+    expect(validateState(raw)).toEqual(['materials[0].costMode must be manual or calculated']);
+  });
+
+  it('rejects parts nested under missing rows, plain parts or themselves', () => {
+    const base = INITIAL_STATE.materials[0];
+    const raw = {
+      ...INITIAL_STATE,
+      materials: [
+        { ...base, id: 'frame', isAssembly: true, parentId: 'arm' },
+        { ...base, id: 'arm', isAssembly: true, parentId: 'frame' },
+        { ...base, id: 'bolt', parentId: 'screw' },
+        { ...base, id: 'screw', parentId: 'gone' },
+      ],
+    };
+    expect(validateState(raw)).toEqual([
+      'materials[0] is nested inside itself',
+      'materials[1] is nested inside itself',
+      'materials[2].parentId screw is not a sub-assembly',
+      'materials[3].parentId gone is not a sub-assembly',
+    ]);
+  });
+
+  it('rejects duplicate channel ids', () => {
+    const raw = { ...INITIAL_STATE, channels: [INITIAL_STATE.channels[0], INITIAL_STATE.channels[0]] };
+    expect(validateState(raw)).toEqual(['channels must have unique ids']);
+  });
+
+  it('rejects non-objects', () => {
+    expect(validateState(null)).toEqual(['state must be an object']);
+  });
+});
+
+describe('validatePortfolio', () => {
+  it('accepts a fresh portfolio', () => {
+    expect(validatePortfolio(createDefaultPortfolio())).toEqual([]);
+  });
+
+  it('reports bad rules, shares and planned units', () => {
+    const raw = {
+      ...createDefaultPortfolio(),
+      allocationRule: 'headcount',
+      items: [{ projectId: 'lamp', manualShare: 1.5, plannedUnits: { direct: -2 } }],
+    };
+    expect(validatePortfolio(raw)).toEqual([
+      'allocationRule must be revenue, units or manual',
+      'items[0].manualShare must be at most 1',
+      'items[0].plannedUnits.direct must be at least 0',
+    ]);
+  });
+});
+
+describe('validateMaterialLibrary', () => {
+  const entry = {
+    id: 'alu',
+    name: 'Aluminum 6061',
+    supplier: 'Metals Co',
+    unit: 'kg',
+    unitCost: 4.2,
+    currency: 'EUR',
+    priceDate: '2025-03-01',
+    priceHistory: [{ date: '2024-09-01', unitCost: 3.9 }],
+    notes: '',
+  };
+
+  it('accepts a fresh library', () => {
+    expect(validateMaterialLibrary(createDefaultMaterialLibrary())).toEqual([]);
+  });
+
+  it('reports bad prices, dates and duplicate ids', () => {
+    const raw = {
+      staleAfterMonths: 0,
+      items: [entry, { ...entry, unitCost: -1, priceHistory: [{ date: 'last year', unitCost: 3 }] }],
+    };
+    expect(validateMaterialLibrary(raw)).toEqual([
+      'staleAfterMonths must be at least 1',
+      'items[1].unitCost must be at least 0',
+      'items[1].priceHistory[0].date must be a date (YYYY-MM-DD)',
+      'items must have unique ids',
+    ]);
+  });
+});
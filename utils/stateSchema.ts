@@ -0,0 +1,545 @@
+import {
+  ALLOCATION_RULES,
+  CURRENCIES,
+  DEFAULT_CASH_FLOW_MONTHS,
+  DEFAULT_EXCHANGE_RATES,
+  DEFAULT_SCENARIOS,
+  MAX_CASH_FLOW_MONTHS,
+  MEASURE_UNITS,
+  NO_CHANNEL_COSTS,
+  OVERHEAD_FREQUENCIES,
+} from '../constants';
+import { FinancialState } from '../types';
+import { emptyCashFlowPlan } from './cashFlow';
+import { areUnitsCompatible, isMeasureUnit, parseMeasureUnit } from './units';
+
+// Bump whenever FinancialState changes shape and add a matching entry to MIGRATIONS.
+// Version 0 is any unversioned payload (bare state objects, early localStorage data).
+export const CURRENT_SCHEMA_VERSION = 15;
+
+export class StateValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n- ${issues.join('\n- ')}` : message);
+    this.name = 'StateValidationError';
+    this.issues = issues;
+  }
+}
+
+type RawState = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawState =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Applies `update` to every row of a list; anything else is left for validation to reject
+const mapRows = (value: unknown, update: (row: RawState) => RawState): unknown =>
+  Array.isArray(value) ? value.map(row => update(isRecord(row) ? row : {})) : value;
+
+const toNumber = (value: unknown, fallback = 0): unknown => {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+// Each entry upgrades a payload from version `key` to `key + 1`.
+const MIGRATIONS: Record<number, (raw: RawState) => RawState> = {
+  0: (raw) => ({
+    ...raw,
+    // Early exports stored materials as CostItem-style lump sums ({ amount })
+    materials: mapRows(raw.materials, ({ amount, ...m }) => ({
+      ...m,
+      cost: toNumber(m.cost ?? amount),
+      // Lump-sum rows carry no detail: zeroed fields keep them "manual" so the kernel never recomputes them
+      qtyPerUnit: toNumber(m.qtyPerUnit),
+      bufferUnits: toNumber(m.bufferUnits),
+      unitCost: toNumber(m.unitCost),
+      notes: typeof m.notes === 'string' ? m.notes : '',
+    })),
+    customScenarios: Array.isArray(raw.customScenarios)
+      ? raw.customScenarios
+      : DEFAULT_SCENARIOS.map(s => ({ id: s.id, discountPercent: s.discountPercent })),
+  }),
+  // v2: multi-currency. Everything before was implicitly USD.
+  1: (raw) => ({
+    ...raw,
+    devCosts: mapRows(raw.devCosts, c => ({ ...c, currency: 'USD' })),
+    materials: mapRows(raw.materials, m => ({ ...m, currency: 'USD' })),
+    reportingCurrency: 'USD',
+    exchangeRates: { ...DEFAULT_EXCHANGE_RATES },
+  }),
+  // v3: channels are stored in full instead of discount overrides on the fixed defaults
+  2: ({ customScenarios, ...raw }) => ({
+    ...raw,
+    channels: DEFAULT_SCENARIOS.map(channel => {
+      const override = Array.isArray(customScenarios)
+        ? customScenarios.filter(isRecord).find(s => s.id === channel.id)
+        : undefined;
+      return override && override.discountPercent !== undefined
+        ? { ...channel, discountPercent: toNumber(override.discountPercent) }
+        : { ...channel };
+    }),
+  }),
+  // v4: volume price breaks per material; existing rows keep their single unit cost
+  3: (raw) => ({
+    ...raw,
+    materials: mapRows(raw.materials, m => ({ ...m, priceTiers: [] })),
+  }),
+  // v5: labor and machine operations; older costings had none
+  4: (raw) => ({
+    ...raw,
+    operations: [],
+  }),
+  // v6: itemized overhead. The single monthly figure becomes one monthly line.
+  5: ({ fixedMonthlyExpenses, ...raw }) => {
+    const amount = toNumber(fixedMonthlyExpenses);
+    return {
+      ...raw,
+      overheads: amount === 0 ? [] : [{
+        id: 'fixed-monthly',
+        name: 'Fixed Monthly Ops',
+        amount,
+        frequency: 'monthly',
+        currency: raw.reportingCurrency,
+      }],
+    };
+  },
+  // v7: uncertainty ranges for the risk simulation
+  6: (raw) => ({
+    ...raw,
+    riskRanges: [],
+  }),
+  // v8: cash-flow plan. Left empty so no production or sales are invented.
+  7: (raw) => ({
+    ...raw,
+    cashFlow: emptyCashFlowPlan(DEFAULT_CASH_FLOW_MONTHS),
+  }),
+  // v9: sales tax. Zero rate keeps every figure unchanged; starter channels take their
+  // template's flag and custom channels default to trade terms (tax on the discounted price).
+  8: (raw) => ({
+    ...raw,
+    tax: { rate: 0, priceIncludesTax: true },
+    channels: mapRows(raw.channels, c => ({
+      ...c,
+      discountBeforeTax: DEFAULT_SCENARIOS.find(d => d.id === c.id)?.discountBeforeTax ?? true,
+    })),
+  }),
+  // v10: per-channel selling costs. The starter Card channel's 3.5% "discount" was a
+  // processing fee, so an untouched one becomes a payment fee instead.
+  9: (raw) => ({
+    ...raw,
+    channels: mapRows(raw.channels, c => (c.id === 'card' && c.discountPercent === 0.035
+      ? { ...NO_CHANNEL_COSTS, ...c, discountPercent: 0, paymentFeePercent: 0.035 }
+      : { ...NO_CHANNEL_COSTS, ...c })),
+  }),
+  // v11: per-batch setup costs; older costings had none
+  10: (raw) => ({
+    ...raw,
+    setupCosts: [],
+  }),
+  // v12: material library links; older rows are one-offs with no known quote date
+  11: (raw) => ({
+    ...raw,
+    materials: mapRows(raw.materials, m => ({ ...m, libraryId: null, priceDate: null })),
+  }),
+  // v13: units of measure. Quantities and prices were unitless, which pieces keep as they were.
+  12: (raw) => ({
+    ...raw,
+    materials: mapRows(raw.materials, m => ({ ...m, consumptionUnit: 'pcs', purchaseUnit: 'pcs' })),
+  }),
+  // v14: sub-assemblies. Every existing row is a top-level part.
+  13: (raw) => ({
+    ...raw,
+    materials: mapRows(raw.materials, m => ({ ...m, parentId: null, isAssembly: false })),
+  }),
+  // v15: explicit cost modes. Rows were treated as calculated once they had a quantity or unit
+  // cost, so that guess becomes the stored mode and every cost keeps its value.
+  14: (raw) => ({
+    ...raw,
+    materials: mapRows(raw.materials, m => ({
+      ...m,
+      costMode: Number(m.unitCost) > 0 || Number(m.qtyPerUnit) > 0 ? 'calculated' : 'manual',
+    })),
+  }),
+};
+
+// The field each version introduced, newest first. Row fields are looked up in that list.
+const VERSION_MARKERS: { version: number; field: string; list?: 'devCosts' | 'materials' | 'channels' }[] = [
+  { version: 15, field: 'costMode', list: 'materials' },
+  { version: 14, field: 'isAssembly', list: 'materials' },
+  { version: 13, field: 'consumptionUnit', list: 'materials' },
+  { version: 12, field: 'libraryId', list: 'materials' },
+  { version: 11, field: 'setupCosts' },
+  { version: 10, field: 'paymentFeePercent', list: 'channels' },
+  { version: 9, field: 'tax' },
+  { version: 8, field: 'cashFlow' },
+  { version: 7, field: 'riskRanges' },
+  { version: 6, field: 'overheads' },
+  { version: 5, field: 'operations' },
+  { version: 4, field: 'priceTiers', list: 'materials' },
+  { version: 3, field: 'channels' },
+  { version: 2, field: 'exchangeRates' },
+  { version: 2, field: 'currency', list: 'devCosts' },
+  { version: 1, field: 'customScenarios' },
+];
+
+// Schema version of a payload saved without one (state copied straight out of the app):
+// the newest version whose field it carries. Migrations from there only add later fields,
+// so nothing the payload already holds is rebuilt.
+export const detectSchemaVersion = (raw: unknown): number => {
+  if (!isRecord(raw)) return 0;
+  const marker = VERSION_MARKERS.find(({ field, list }) => {
+    if (!list) return field in raw;
+    const rows = raw[list];
+    return Array.isArray(rows) && rows.some(row => isRecord(row) && field in row);
+  });
+  return marker ? marker.version : 0;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Field checks that append a readable message per problem to `issues`
+const createChecks = (issues: string[]) => {
+  const checkNumber = (path: string, value: unknown, { min, max }: { min?: number; max?: number } = {}) => {
+    if (!isFiniteNumber(value)) {
+      issues.push(`${path} must be a number`);
+    } else if (min !== undefined && value < min) {
+      issues.push(`${path} must be at least ${min}`);
+    } else if (max !== undefined && value > max) {
+      issues.push(`${path} must be at most ${max}`);
+    }
+  };
+
+  const checkString = (path: string, value: unknown) => {
+    if (typeof value !== 'string') issues.push(`${path} must be text`);
+  };
+
+  const checkBoolean = (path: string, value: unknown) => {
+    if (typeof value !== 'boolean') issues.push(`${path} must be true or false`);
+  };
+
+  const checkCurrency = (path: string, value: unknown) => {
+    if (typeof value !== 'string' || !CURRENCIES.some(c => c.code === value)) {
+      issues.push(`${path} must be a supported currency code`);
+    }
+  };
+
+  const checkList = (path: string, value: unknown, checkItem: (item: RawState, itemPath: string) => void) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be a list`);
+      return;
+    }
+    value.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!isRecord(item)) {
+        issues.push(`${itemPath} must be an object`);
+        return;
+      }
+      checkItem(item, itemPath);
+    });
+  };
+
+  const checkOverhead = (item: RawState, path: string) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkNumber(`${path}.amount`, item.amount, { min: 0 });
+    if (!OVERHEAD_FREQUENCIES.some(f => f.value === item.frequency)) {
+      issues.push(`${path}.frequency must be monthly, quarterly or annual`);
+    }
+    checkCurrency(`${path}.currency`, item.currency);
+  };
+
+  const checkIsoDate = (path: string, value: unknown) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+      issues.push(`${path} must be a date (YYYY-MM-DD)`);
+    }
+  };
+
+  const checkUnit = (path: string, value: unknown) => {
+    if (!isMeasureUnit(value)) {
+      issues.push(`${path} must be one of ${MEASURE_UNITS.map(u => u.value).join(', ')}`);
+    }
+  };
+
+  const checkCurrencySettings = (s: RawState) => {
+    checkCurrency('reportingCurrency', s.reportingCurrency);
+    if (!isRecord(s.exchangeRates)) {
+      issues.push('exchangeRates must be an object');
+    } else {
+      Object.entries(s.exchangeRates).forEach(([code, rate]) => {
+        checkNumber(`exchangeRates.${code}`, rate, { min: 0 });
+      });
+    }
+  };
+
+  return {
+    checkNumber,
+    checkString,
+    checkBoolean,
+    checkCurrency,
+    checkList,
+    checkOverhead,
+    checkIsoDate,
+    checkUnit,
+    checkCurrencySettings,
+  };
+};
+
+export const validateState = (raw: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return ['state must be an object'];
+  }
+  const s = raw;
+  const {
+    checkNumber,
+    checkString,
+    checkBoolean,
+    checkCurrency,
+    checkList,
+    checkOverhead,
+    checkIsoDate,
+    checkUnit,
+    checkCurrencySettings,
+  } = createChecks(issues);
+
+  const checkCostItem = (item: RawState, path: string) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkNumber(`${path}.amount`, item.amount);
+    checkCurrency(`${path}.currency`, item.currency);
+  };
+
+  checkList('devCosts', s.devCosts, checkCostItem);
+  checkNumber('amortizationQty', s.amortizationQty, { min: 0 });
+
+  checkNumber('batchSize', s.batchSize, { min: 0 });
+  checkNumber('wasteCount', s.wasteCount, { min: 0 });
+  checkList('materials', s.materials, (item, path) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkNumber(`${path}.cost`, item.cost);
+    if (item.costMode !== 'manual' && item.costMode !== 'calculated') {
+      issues.push(`${path}.costMode must be manual or calculated`);
+    }
+    checkNumber(`${path}.qtyPerUnit`, item.qtyPerUnit, { min: 0 });
+    checkNumber(`${path}.bufferUnits`, item.bufferUnits, { min: 0 });
+    checkNumber(`${path}.unitCost`, item.unitCost, { min: 0 });
+    checkList(`${path}.priceTiers`, item.priceTiers, (tier, tierPath) => {
+      checkNumber(`${tierPath}.minQty`, tier.minQty, { min: 0 });
+      checkNumber(`${tierPath}.unitCost`, tier.unitCost, { min: 0 });
+    });
+    checkUnit(`${path}.consumptionUnit`, item.consumptionUnit);
+    checkUnit(`${path}.purchaseUnit`, item.purchaseUnit);
+    if (
+      isMeasureUnit(item.consumptionUnit)
+      && isMeasureUnit(item.purchaseUnit)
+      && !areUnitsCompatible(item.consumptionUnit, item.purchaseUnit)
+    ) {
+      issues.push(`${path}.purchaseUnit ${item.purchaseUnit} cannot be converted from ${item.consumptionUnit}`);
+    }
+    checkCurrency(`${path}.currency`, item.currency);
+    checkString(`${path}.notes`, item.notes);
+    if (item.libraryId !== null) checkString(`${path}.libraryId`, item.libraryId);
+    if (item.priceDate !== null) checkIsoDate(`${path}.priceDate`, item.priceDate);
+    checkBoolean(`${path}.isAssembly`, item.isAssembly);
+    if (item.parentId !== null) checkString(`${path}.parentId`, item.parentId);
+  });
+  if (Array.isArray(s.materials)) {
+    const rows: unknown[] = s.materials;
+    const byId = new Map<unknown, RawState>(rows.filter(isRecord).map(m => [m.id, m]));
+    rows.forEach((m, i) => {
+      if (!isRecord(m) || typeof m.parentId !== 'string') return;
+      const parent = byId.get(m.parentId);
+      if (!parent?.isAssembly) {
+        issues.push(`materials[${i}].parentId ${m.parentId} is not a sub-assembly`);
+        return;
+      }
+      // Walk up from the row; coming back to it means the tree loops
+      const seen = new Set<unknown>([m.id]);
+      for (let p: RawState | undefined = parent; typeof p?.id === 'string'; p = byId.get(p.parentId)) {
+        if (seen.has(p.id)) {
+          issues.push(`materials[${i}] is nested inside itself`);
+          break;
+        }
+        seen.add(p.id);
+      }
+    });
+  }
+  checkList('operations', s.operations, (item, path) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkNumber(`${path}.minutesPerUnit`, item.minutesPerUnit, { min: 0 });
+    checkNumber(`${path}.setupMinutes`, item.setupMinutes, { min: 0 });
+    checkNumber(`${path}.hourlyRate`, item.hourlyRate, { min: 0 });
+    checkCurrency(`${path}.currency`, item.currency);
+  });
+  checkList('setupCosts', s.setupCosts, checkCostItem);
+
+  checkNumber('publicPrice', s.publicPrice, { min: 0 });
+  if (!isRecord(s.tax)) {
+    issues.push('tax must be an object');
+  } else {
+    checkNumber('tax.rate', s.tax.rate, { min: 0, max: 1 });
+    checkBoolean('tax.priceIncludesTax', s.tax.priceIncludesTax);
+  }
+  checkList('overheads', s.overheads, checkOverhead);
+  checkNumber('designerRoyaltyPercent', s.designerRoyaltyPercent, { min: 0, max: 1 });
+
+  checkList('channels', s.channels, (item, path) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkString(`${path}.description`, item.description);
+    checkNumber(`${path}.discountPercent`, item.discountPercent, { min: 0, max: 1 });
+    checkNumber(`${path}.commissionPercent`, item.commissionPercent, { min: 0, max: 1 });
+    checkBoolean(`${path}.discountBeforeTax`, item.discountBeforeTax);
+    checkNumber(`${path}.paymentFeePercent`, item.paymentFeePercent, { min: 0, max: 1 });
+    checkNumber(`${path}.transactionFee`, item.transactionFee, { min: 0 });
+    checkNumber(`${path}.unitsPerTransaction`, item.unitsPerTransaction, { min: 1 });
+    checkNumber(`${path}.shippingCost`, item.shippingCost, { min: 0 });
+    checkNumber(`${path}.packagingCost`, item.packagingCost, { min: 0 });
+    checkNumber(`${path}.returnRate`, item.returnRate, { min: 0, max: 1 });
+  });
+  if (Array.isArray(s.channels)) {
+    const ids = (s.channels as unknown[]).map(c => (isRecord(c) ? c.id : undefined));
+    if (new Set(ids).size !== ids.length) issues.push('channels must have unique ids');
+  }
+
+  checkList('riskRanges', s.riskRanges, (item, path) => {
+    checkString(`${path}.target`, item.target);
+    checkNumber(`${path}.min`, item.min, { min: 0 });
+    checkNumber(`${path}.mostLikely`, item.mostLikely, { min: 0 });
+    checkNumber(`${path}.max`, item.max, { min: 0 });
+    if (isFiniteNumber(item.min) && isFiniteNumber(item.mostLikely) && isFiniteNumber(item.max)
+      && !(item.min <= item.mostLikely && item.mostLikely <= item.max)) {
+      issues.push(`${path} must satisfy min <= mostLikely <= max`);
+    }
+  });
+
+  if (!isRecord(s.cashFlow)) {
+    issues.push('cashFlow must be an object');
+  } else {
+    const { horizonMonths, batchesByMonth, salesByChannel } = s.cashFlow;
+    checkNumber('cashFlow.horizonMonths', horizonMonths, { min: 1, max: MAX_CASH_FLOW_MONTHS });
+    const checkMonths = (path: string, months: unknown) => {
+      if (!Array.isArray(months) || months.length !== horizonMonths) {
+        issues.push(`${path} must list one value per month`);
+        return;
+      }
+      months.forEach((value, i) => checkNumber(`${path}[${i}]`, value, { min: 0 }));
+    };
+    checkMonths('cashFlow.batchesByMonth', batchesByMonth);
+    if (!isRecord(salesByChannel)) {
+      issues.push('cashFlow.salesByChannel must be an object');
+    } else {
+      Object.entries(salesByChannel).forEach(([channelId, months]) => {
+        checkMonths(`cashFlow.salesByChannel.${channelId}`, months);
+      });
+    }
+  }
+
+  checkCurrencySettings(s);
+
+  return issues;
+};
+
+// Portfolios live beside the projects in the store and are not versioned separately
+export const validatePortfolio = (raw: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return ['portfolio must be an object'];
+  }
+  const p = raw;
+  const { checkNumber, checkString, checkList, checkOverhead, checkCurrencySettings } = createChecks(issues);
+
+  checkCurrencySettings(p);
+  checkList('sharedOverheads', p.sharedOverheads, checkOverhead);
+  if (!ALLOCATION_RULES.some(r => r.value === p.allocationRule)) {
+    issues.push('allocationRule must be revenue, units or manual');
+  }
+  checkList('items', p.items, (item, path) => {
+    checkString(`${path}.projectId`, item.projectId);
+    checkNumber(`${path}.manualShare`, item.manualShare, { min: 0, max: 1 });
+    if (!isRecord(item.plannedUnits)) {
+      issues.push(`${path}.plannedUnits must be an object`);
+    } else {
+      Object.entries(item.plannedUnits).forEach(([channelId, units]) => {
+        checkNumber(`${path}.plannedUnits.${channelId}`, units, { min: 0 });
+      });
+    }
+  });
+
+  return issues;
+};
+
+// The material library is shared by every project and, like the portfolio, not versioned separately
+export const validateMaterialLibrary = (raw: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    return ['materialLibrary must be an object'];
+  }
+  const lib = raw;
+  const { checkNumber, checkString, checkCurrency, checkList, checkIsoDate, checkUnit } = createChecks(issues);
+
+  checkNumber('staleAfterMonths', lib.staleAfterMonths, { min: 1 });
+  checkList('items', lib.items, (item, path) => {
+    checkString(`${path}.id`, item.id);
+    checkString(`${path}.name`, item.name);
+    checkString(`${path}.supplier`, item.supplier);
+    checkUnit(`${path}.unit`, item.unit);
+    checkNumber(`${path}.unitCost`, item.unitCost, { min: 0 });
+    checkCurrency(`${path}.currency`, item.currency);
+    checkIsoDate(`${path}.priceDate`, item.priceDate);
+    checkList(`${path}.priceHistory`, item.priceHistory, (point, pointPath) => {
+      checkIsoDate(`${pointPath}.date`, point.date);
+      checkNumber(`${pointPath}.unitCost`, point.unitCost, { min: 0 });
+    });
+    checkString(`${path}.notes`, item.notes);
+  });
+  if (Array.isArray(lib.items)) {
+    const ids = (lib.items as unknown[]).map(m => (isRecord(m) ? m.id : undefined));
+    if (new Set(ids).size !== ids.length) issues.push('items must have unique ids');
+  }
+
+  return issues;
+};
+
+// Libraries saved before v13 held units as free text; unknown ones become pieces
+export const migrateMaterialLibrary = (raw: unknown, version: number): unknown => {
+  if (version >= 13 || !isRecord(raw) || !Array.isArray(raw.items)) return raw;
+  return {
+    ...raw,
+    items: mapRows(raw.items, item => ({
+      ...item,
+      unit: parseMeasureUnit(String(item.unit ?? '')) ?? 'pcs',
+    })),
+  };
+};
+
+// Upgrades a payload written at `version` to the current FinancialState, or throws.
+export const migrateState = (raw: unknown, version: number): FinancialState => {
+  if (!Number.isInteger(version) || version < 0) {
+    throw new StateValidationError(`Unknown schema version "${version}".`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new StateValidationError(
+      `This costing was saved by a newer version of DesignFin (schema v${version}, this app reads up to v${CURRENT_SCHEMA_VERSION}).`
+    );
+  }
+  if (!isRecord(raw)) {
+    throw new StateValidationError('The costing data is not an object.');
+  }
+
+  let current = raw;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+
+  const issues = validateState(current);
+  if (issues.length > 0) {
+    throw new StateValidationError('The costing data is invalid:', issues);
+  }
+  // validateState has checked every field FinancialState declares
+  return current as unknown as FinancialState;
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { MaterialItem } from '../types';
+import { materialUnitFactor, parseMeasureUnit, unitConversionFactor } from './units';
+
+describe('unitConversionFactor', () => {
+  it('converts within a dimension', () => {
+    expect(unitConversionFactor('g', 'kg')).toBe(0.001);
+    expect(unitConversionFactor('m', 'mm')).toBe(1000);
+    expect(unitConversionFactor('L', 'L')).toBe(1);
+  });
+
+  it('rejects units that measure different things', () => {
+    expect(unitConversionFactor('kg', 'm')).toBeNull();
+    expect(unitConversionFactor('pcs', 'm2')).toBeNull();
+  });
+});
+
+describe('materialUnitFactor', () => {
+  it('counts rows without units one-to-one', () => {
+    expect(materialUnitFactor({} as unknown as MaterialItem)).toBe(1);
+  });
+});
+
+describe('parseMeasureUnit', () => {
+  it.each([
+    ['Kg', 'kg'],
+    ['pieces', 'pcs'],
+    ['m²', 'm2'],
+    [' l ', 'L'],
+  ])('reads %s', (text, unit) => {
+    expect(parseMeasureUnit(text)).toBe(unit);
+  });
+
+  it('returns null for unknown units', () => {
+    expect(parseMeasureUnit('gallons')).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { MEASURE_UNITS } from '../constants';
+import { MaterialItem, MeasureUnit } from '../types';
+
+const findUnit = (unit: unknown) => MEASURE_UNITS.find(u => u.value === unit);
+
+export const isMeasureUnit = (value: unknown): value is MeasureUnit => findUnit(value) !== undefined;
+
+export const unitLabel = (unit: MeasureUnit): string => findUnit(unit)?.label ?? unit;
+
+// How many `to` units one `from` unit makes; null when the two measure different things
+export const unitConversionFactor = (from: MeasureUnit, to: MeasureUnit): number | null => {
+  const a = findUnit(from);
+  const b = findUnit(to);
+  if (!a || !b || a.dimension !== b.dimension) return null;
+  return a.toBase / b.toBase;
+};
+
+export const areUnitsCompatible = (a: MeasureUnit, b: MeasureUnit): boolean =>
+  unitConversionFactor(a, b) !== null;
+
+// Converts a row's consumption quantity into purchase units. Rows from before units existed
+// (and incompatible pairs, which validation rejects) count one-to-one.
+export const materialUnitFactor = (material: Pick<MaterialItem, 'consumptionUnit' | 'purchaseUnit'>): number =>
+  unitConversionFactor(material.consumptionUnit, material.purchaseUnit) ?? 1;
+
+const UNIT_ALIASES: Record<string, MeasureUnit> = {
+  pc: 'pcs', pcs: 'pcs', piece: 'pcs', pieces: 'pcs', ea: 'pcs', each: 'pcs', unit: 'pcs', units: 'pcs', u: 'pcs',
+  g: 'g', gr: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  mm: 'mm', millimeter: 'mm', millimeters: 'mm',
+  m: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  m2: 'm2', 'm²': 'm2', sqm: 'm2', 'sq m': 'm2',
+  l: 'L', liter: 'L', liters: 'L', litre: 'L', litres: 'L',
+};
+
+// Reads units typed as free text in spreadsheets ("Kg", "pieces", "m²"); null when unknown
+export const parseMeasureUnit = (text: string): MeasureUnit | null =>
+  UNIT_ALIASES[text.trim().toLowerCase()] ?? null;